@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import {
   Star,
   Book,
@@ -7,21 +7,31 @@ import {
   Settings,
   ExternalLink,
   Github,
-  Mail,
+  ArrowRight,
 } from "lucide-react";
 import axios from "axios";
 import { Login } from "./components/Login";
 import { Dashboard } from "./components/Dashboard";
+import { ProjectDetail } from "./components/ProjectDetail";
+import type { ProjectDetails } from "./components/ProjectDetail";
+import { Picture } from "./components/Picture";
+import { SiteSearch } from "./components/SiteSearch";
+import { ContactForm } from "./components/ContactForm";
+import type { ProjectImage } from "./components/Picture";
 import { useAuth } from "./contexts/AuthContext";
 
 interface Project {
   id: number;
+  slug: string;
   title: string;
-  description: string;
+  description: string | null;
+  // `description` rendered from Markdown and sanitized by the server
+  descriptionHtml: string | null;
   tech: string[];
   demoUrl?: string;
   sourceUrl?: string;
   featured: boolean;
+  coverImage: ProjectImage | null;
 }
 
 interface Skill {
@@ -30,65 +40,137 @@ interface Skill {
   category: "frontend" | "backend" | "tools" | "database" | "other";
 }
 
+// A technology under its canonical name, and how many projects use it
+interface TechCount {
+  name: string;
+  count: number;
+}
+
 interface BackendResponse {
   currentlyLearning: string[];
   projects: Project[];
   skills: Skill[];
-  techs: string[];
+  techs: TechCount[];
+}
+
+interface ProjectPage {
+  projects: Project[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// What the server rendered the page with, embedded in it so the client
+// starts from the same state instead of fetching it again
+export interface InitialData {
+  data: BackendResponse;
+  // The first page of projects, unfiltered
+  projectPage: ProjectPage;
+  // Set on project pages; null when the project wasn't found
+  project?: ProjectDetails | null;
+}
+
+interface DeveloperShowcaseProps {
+  initialData?: InitialData | null;
+  // Only needed where there is no window.location, i.e. on the server
+  path?: string;
 }
 
 type AppView = "portfolio" | "login" | "dashboard";
 
-const DeveloperShowcase: React.FC = () => {
+const PROJECTS_PAGE_SIZE = 12;
+
+// One page of public projects, optionally only those using `filter`
+const fetchProjectPage = async (
+  filter: string,
+  cursor?: string
+): Promise<ProjectPage> => {
+  const response = await axios.get<ProjectPage>("/api/projects", {
+    params: {
+      tech: filter === "all" ? undefined : filter,
+      limit: PROJECTS_PAGE_SIZE,
+      cursor,
+    },
+  });
+  return response.data;
+};
+
+const DEFAULT_TITLE = "Isaksweb Home";
+
+// "/projects/<slug>" opens that project's own page
+const projectSlugFromPath = (pathname: string): string | null => {
+  const match = pathname.match(/^\/projects\/([^/]+)\/?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+const DeveloperShowcase: React.FC<DeveloperShowcaseProps> = ({
+  initialData,
+  path,
+}) => {
+  const data = initialData?.data;
   const [typedText, setTypedText] = useState("");
   const [currentProjectFilter, setCurrentProjectFilter] = useState("all");
   const [theme, setTheme] = useState<"light" | "dark">("dark");
-  const [currentlyLearning, setCurrentlyLearning] = useState<string[]>([]);
+  const [currentlyLearning, setCurrentlyLearning] = useState<string[]>(
+    data?.currentlyLearning ?? []
+  );
   const [, setError] = useState<string | null>(null);
-  const [techs, setTechs] = useState<string[]>([
-    "all",
-    "react",
-    "typescript",
-    "node",
-  ]);
+  const [techs, setTechs] = useState<TechCount[]>(data?.techs ?? []);
   const [view, setView] = useState<AppView>("portfolio");
+  const [initialSlug] = useState(() =>
+    projectSlugFromPath(path ?? window.location.pathname)
+  );
+  const [projectSlug, setProjectSlug] = useState(initialSlug);
 
   const { isAuthenticated } = useAuth();
 
-  const [projects, setProjects] = useState<Project[]>([]);
-
-  const [skills, setSkills] = useState<Skill[]>([
-    {
-      name: "TypeScript",
-      level: 95,
-      category: "frontend",
-    },
-    {
-      name: "React",
-      level: 90,
-      category: "frontend",
-    },
-    {
-      name: "Node.js",
-      level: 85,
-      category: "backend",
-    },
-    {
-      name: "MongoDB",
-      level: 80,
-      category: "database",
-    },
-    {
-      name: "TailwindCSS",
-      level: 88,
-      category: "frontend",
-    },
-    {
-      name: "Express.js",
-      level: 95,
-      category: "backend",
-    },
-  ]);
+  const [projects, setProjects] = useState<Project[]>(data?.projects ?? []);
+  // The page(s) of projects matching the current filter, from the server
+  const [filteredProjects, setFilteredProjects] = useState<Project[]>(
+    initialData?.projectPage.projects ?? []
+  );
+  const [projectsCursor, setProjectsCursor] = useState<string | null>(
+    initialData?.projectPage.nextCursor ?? null
+  );
+  const [loadingProjects, setLoadingProjects] = useState(false);
+  // The first page of the "all" filter came with the page
+  const hasInitialPage = useRef(Boolean(initialData));
+
+  const [skills, setSkills] = useState<Skill[]>(
+    data?.skills.length
+      ? data.skills
+      : [
+          {
+            name: "TypeScript",
+            level: 95,
+            category: "frontend",
+          },
+          {
+            name: "React",
+            level: 90,
+            category: "frontend",
+          },
+          {
+            name: "Node.js",
+            level: 85,
+            category: "backend",
+          },
+          {
+            name: "MongoDB",
+            level: 80,
+            category: "database",
+          },
+          {
+            name: "TailwindCSS",
+            level: 88,
+            category: "frontend",
+          },
+          {
+            name: "Express.js",
+            level: 95,
+            category: "backend",
+          },
+        ]
+  );
 
   const fullText = `const developer = {
   name: "Isak Grönlund",
@@ -101,6 +183,7 @@ const DeveloperShowcase: React.FC = () => {
 };`;
 
   useEffect(() => {
+    if (data) return;
     (async () => {
       try {
         const res = await axios.get<BackendResponse>("/api/data");
@@ -126,14 +209,14 @@ const DeveloperShowcase: React.FC = () => {
           setProjects(res.data.projects);
         }
 
-        if (res.data.techs && res.data.techs.length > 0) {
+        if (res.data.techs) {
           setTechs(res.data.techs);
         }
       } catch {
         setError("Failed to load data");
       }
     })();
-  }, []); // Empty dependency array - runs once on mount
+  }, [data]); // Runs once on mount
 
   useEffect(() => {
     let i = 0;
@@ -169,43 +252,96 @@ const DeveloperShowcase: React.FC = () => {
     };
   }, [fullText]);
 
-  const filteredProjects = useMemo(() => {
-    if (currentProjectFilter === "all") {
-      return projects;
+  // Filtering happens on the server; each filter starts from its first page
+  useEffect(() => {
+    if (hasInitialPage.current) {
+      hasInitialPage.current = false;
+      return;
     }
 
-    return projects.filter((project) =>
-      project.tech.some(
-        (tech) => tech.toLowerCase() === currentProjectFilter.toLowerCase()
-      )
-    );
-  }, [projects, currentProjectFilter]);
+    let isCancelled = false;
+    setLoadingProjects(true);
+
+    fetchProjectPage(currentProjectFilter)
+      .then((page) => {
+        if (isCancelled) return;
+        setFilteredProjects(page.projects);
+        setProjectsCursor(page.nextCursor);
+      })
+      .catch((error) => console.error("Failed to load projects:", error))
+      .finally(() => {
+        if (!isCancelled) setLoadingProjects(false);
+      });
 
-  // Better tech filter generation from actual project data
-  useEffect(() => {
-    if (projects.length > 0) {
-      // Extract unique technologies from all projects
-      const uniqueTechs = Array.from(
-        new Set(
-          projects.flatMap((project) =>
-            project.tech.map((tech) => tech.toLowerCase())
-          )
-        )
-      ).sort();
-
-      // Add "all" as first option and update techs
-      setTechs(["all", ...uniqueTechs]);
+    return () => {
+      isCancelled = true;
+    };
+  }, [currentProjectFilter]);
+
+  const loadMoreProjects = async () => {
+    if (!projectsCursor) return;
+    setLoadingProjects(true);
+    try {
+      const page = await fetchProjectPage(currentProjectFilter, projectsCursor);
+      setFilteredProjects((previous) => [...previous, ...page.projects]);
+      setProjectsCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Failed to load more projects:", error);
+    } finally {
+      setLoadingProjects(false);
     }
-  }, [projects]);
+  };
+
+  // Keep the open project in step with the browser's back and forward buttons
+  useEffect(() => {
+    const onPopState = () => {
+      setProjectSlug(projectSlugFromPath(window.location.pathname));
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  const openProject = (slug: string) => {
+    window.history.pushState(null, "", `/projects/${encodeURIComponent(slug)}`);
+    setProjectSlug(slug);
+    window.scrollTo(0, 0);
+  };
+
+  const closeProject = () => {
+    window.history.pushState(null, "", "/#projects");
+    setProjectSlug(null);
+    document.title = DEFAULT_TITLE;
+    requestAnimationFrame(() =>
+      document.getElementById("projects")?.scrollIntoView()
+    );
+  };
 
   const toggleTheme = () => {
     setTheme(theme === "light" ? "dark" : "light");
   };
 
   const ProjectCard: React.FC<{ project: Project }> = ({ project }) => (
-    <div className="bg-gray-800 rounded-lg p-6 hover:bg-gray-750 transition-colors border border-gray-700">
+    <div className="bg-gray-800 rounded-lg p-6 hover:bg-gray-750 transition-colors border border-gray-700 overflow-hidden">
+      {project.coverImage && (
+        <Picture
+          image={project.coverImage}
+          size="thumbnail"
+          className="-mx-6 -mt-6 mb-6 w-[calc(100%+3rem)] max-w-none h-48 object-cover"
+        />
+      )}
       <div className="flex justify-between items-start mb-4">
-        <h3 className="text-xl font-semibold text-white">{project.title}</h3>
+        <h3 className="text-xl font-semibold text-white">
+          <a
+            href={`/projects/${encodeURIComponent(project.slug)}`}
+            onClick={(e) => {
+              e.preventDefault();
+              openProject(project.slug);
+            }}
+            className="hover:text-blue-400 transition-colors"
+          >
+            {project.title}
+          </a>
+        </h3>
         <div className="flex gap-2">
           {project.demoUrl && (
             <button
@@ -229,8 +365,13 @@ const DeveloperShowcase: React.FC = () => {
           )}
         </div>
       </div>
-      <p className="text-gray-300 mb-4">{project.description}</p>
-      <div className="flex flex-wrap gap-2">
+      {project.descriptionHtml && (
+        <div
+          className="markdown text-gray-300 mb-4"
+          dangerouslySetInnerHTML={{ __html: project.descriptionHtml }}
+        />
+      )}
+      <div className="flex flex-wrap gap-2 mb-4">
         {project.tech.map((tech, i) => (
           <span
             key={i}
@@ -240,6 +381,17 @@ const DeveloperShowcase: React.FC = () => {
           </span>
         ))}
       </div>
+      <a
+        href={`/projects/${encodeURIComponent(project.slug)}`}
+        onClick={(e) => {
+          e.preventDefault();
+          openProject(project.slug);
+        }}
+        className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300 transition-colors"
+      >
+        Read more
+        <ArrowRight className="w-4 h-4" />
+      </a>
     </div>
   );
 
@@ -269,6 +421,18 @@ const DeveloperShowcase: React.FC = () => {
     return <Dashboard onBackToPortfolio={() => setView("portfolio")} />;
   }
 
+  if (projectSlug) {
+    return (
+      <ProjectDetail
+        slug={projectSlug}
+        initialProject={
+          projectSlug === initialSlug ? initialData?.project : undefined
+        }
+        onBack={closeProject}
+      />
+    );
+  }
+
   // Main portfolio view
   return (
     <div
@@ -435,28 +599,46 @@ const DeveloperShowcase: React.FC = () => {
           <h2 className="text-3xl font-bold text-center mb-12">
             Featured Projects
           </h2>
-          <div className="flex justify-center mb-8">
-            <div className="flex gap-2 p-1 bg-gray-800 rounded-lg">
-              {techs.map((filter) => (
+          <SiteSearch onOpenProject={openProject}>
+            <div className="flex justify-center mb-8">
+              <div className="flex flex-wrap gap-2 p-1 bg-gray-800 rounded-lg">
+                {[{ name: "all", count: projects.length }, ...techs].map(
+                  (filter) => (
+                    <button
+                      key={filter.name}
+                      onClick={() => setCurrentProjectFilter(filter.name)}
+                      className={`px-4 py-2 rounded transition-colors ${
+                        currentProjectFilter === filter.name
+                          ? "bg-blue-600 text-white"
+                          : "text-gray-400 hover:text-white"
+                      }`}
+                    >
+                      {filter.name === "all" ? "All" : filter.name}
+                      <span className="ml-2 text-xs opacity-70">
+                        {filter.count}
+                      </span>
+                    </button>
+                  )
+                )}
+              </div>
+            </div>
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {filteredProjects.map((project) => (
+                <ProjectCard key={project.id} project={project} />
+              ))}
+            </div>
+            {projectsCursor && (
+              <div className="text-center mt-8">
                 <button
-                  key={filter}
-                  onClick={() => setCurrentProjectFilter(filter)}
-                  className={`px-4 py-2 rounded transition-colors capitalize ${
-                    currentProjectFilter === filter
-                      ? "bg-blue-600 text-white"
-                      : "text-gray-400 hover:text-white"
-                  }`}
+                  onClick={loadMoreProjects}
+                  disabled={loadingProjects}
+                  className="border border-gray-600 hover:border-gray-500 disabled:opacity-50 px-6 py-3 rounded-lg transition-colors"
                 >
-                  {filter}
+                  {loadingProjects ? "Loading..." : "Load more projects"}
                 </button>
-              ))}
-            </div>
-          </div>
-          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredProjects.map((project) => (
-              <ProjectCard key={project.id} project={project} />
-            ))}
-          </div>
+              </div>
+            )}
+          </SiteSearch>
         </div>
       </section>
 
@@ -507,15 +689,10 @@ const DeveloperShowcase: React.FC = () => {
           <p className="text-xl text-gray-400 mb-12">
             Always excited to discuss new projects and opportunities
           </p>
+          <div className="max-w-2xl mx-auto mb-8">
+            <ContactForm />
+          </div>
           <div className="flex justify-center gap-6">
-            <a
-              href="mailto:isak@isaksweb.xyz"
-              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg transition-colors"
-              target="_blank"
-            >
-              <Mail className="w-5 h-5" />
-              Get In Touch
-            </a>
             <a
               href="https://github.com/Grizak"
               className="flex items-center gap-2 border border-gray-600 hover:border-gray-500 px-6 py-3 rounded-lg transition-colors"
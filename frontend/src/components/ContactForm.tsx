@@ -0,0 +1,178 @@
+// frontend/src/components/ContactForm.tsx
+import React, { useState, useEffect } from "react";
+import { Mail, Send } from "lucide-react";
+import axios from "axios";
+
+type FieldErrors = Record<string, string>;
+
+const EMPTY_FORM = {
+  name: "",
+  email: "",
+  subject: "",
+  message: "",
+  // Hidden from people; bots that fill it in are ignored
+  website: "",
+};
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-red-400 text-sm mt-1">{message}</p> : null;
+
+export const ContactForm: React.FC = () => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  // Issued by the server when the form is shown; it tells real visitors
+  // apart from scripts posting straight away, and is good for one message
+  const [formToken, setFormToken] = useState("");
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const fetchFormToken = async () => {
+    try {
+      const response = await axios.get("/api/contact/form");
+      setFormToken(response.data.formToken);
+    } catch (error) {
+      console.error("Failed to load the contact form:", error);
+    }
+  };
+
+  // Fetched in the browser only, so the server-rendered page stays the same
+  // for every visitor
+  useEffect(() => {
+    fetchFormToken();
+  }, []);
+
+  const updateField =
+    (field: keyof typeof EMPTY_FORM) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void =>
+      setForm((current) => ({ ...current, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError("");
+    try {
+      await axios.post("/api/contact", {
+        ...form,
+        subject: form.subject || undefined,
+        website: form.website || undefined,
+        formToken,
+      });
+      setForm(EMPTY_FORM);
+      setErrors({});
+      setSent(true);
+      // Each token sends one message
+      fetchFormToken();
+    } catch (error) {
+      console.error("Failed to send message:", error);
+      const response = axios.isAxiosError(error) ? error.response : undefined;
+      const fieldErrors: FieldErrors = response?.data?.errors ?? {};
+      setErrors(fieldErrors);
+      if (fieldErrors.formToken) {
+        // The form sat open too long; a fresh token lets them send again
+        fetchFormToken();
+        setError("The form expired. Please send your message again.");
+      } else if (response?.status === 429) {
+        setError("You've sent several messages already. Try again later.");
+      } else if (!response || response.status >= 500) {
+        setError("Your message couldn't be sent. Please try again.");
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-8 border border-gray-700 text-center">
+        <Mail className="w-10 h-10 mx-auto mb-4 text-blue-400" />
+        <h3 className="text-xl font-semibold mb-2">Thanks for reaching out!</h3>
+        <p className="text-gray-400 mb-6">
+          Your message is on its way. I'll get back to you soon.
+        </p>
+        <button
+          onClick={() => setSent(false)}
+          className="border border-gray-600 hover:border-gray-500 px-6 py-3 rounded-lg transition-colors"
+        >
+          Send another message
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      noValidate
+      className="bg-gray-800 rounded-lg p-8 border border-gray-700 text-left space-y-4"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <input
+            type="text"
+            value={form.name}
+            onChange={updateField("name")}
+            placeholder="Name"
+            aria-label="Name"
+            autoComplete="name"
+            className="w-full bg-gray-700 border border-gray-600 focus:border-blue-500 rounded-lg px-4 py-3 text-white outline-none"
+          />
+          <FieldError message={errors.name} />
+        </div>
+        <div>
+          <input
+            type="email"
+            value={form.email}
+            onChange={updateField("email")}
+            placeholder="Email"
+            aria-label="Email"
+            autoComplete="email"
+            className="w-full bg-gray-700 border border-gray-600 focus:border-blue-500 rounded-lg px-4 py-3 text-white outline-none"
+          />
+          <FieldError message={errors.email} />
+        </div>
+      </div>
+      <div>
+        <input
+          type="text"
+          value={form.subject}
+          onChange={updateField("subject")}
+          placeholder="Subject (optional)"
+          aria-label="Subject"
+          className="w-full bg-gray-700 border border-gray-600 focus:border-blue-500 rounded-lg px-4 py-3 text-white outline-none"
+        />
+        <FieldError message={errors.subject} />
+      </div>
+      <div>
+        <textarea
+          value={form.message}
+          onChange={updateField("message")}
+          placeholder="Message"
+          aria-label="Message"
+          rows={6}
+          className="w-full bg-gray-700 border border-gray-600 focus:border-blue-500 rounded-lg px-4 py-3 text-white outline-none"
+        />
+        <FieldError message={errors.message} />
+      </div>
+      <div className="absolute -left-[9999px]" aria-hidden="true">
+        <input
+          type="text"
+          name="website"
+          value={form.website}
+          onChange={updateField("website")}
+          tabIndex={-1}
+          autoComplete="off"
+        />
+      </div>
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      <button
+        type="submit"
+        disabled={sending || !formToken}
+        className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 px-6 py-3 rounded-lg transition-colors"
+      >
+        <Send className="w-5 h-5" />
+        {sending ? "Sending..." : "Send Message"}
+      </button>
+    </form>
+  );
+};
@@ -12,21 +12,88 @@ import {
   Trash2,
   Star,
   ExternalLink,
+  KeyRound,
+  Users,
+  MonitorSmartphone,
+  ShieldCheck,
+  History,
+  Eye,
+  RotateCcw,
+  GripVertical,
+  ImagePlus,
+  Tags,
+  Inbox,
+  Mail,
+  MailOpen,
+  Archive,
 } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
+import { MarkdownEditor } from "./MarkdownEditor";
 import { useAuth } from "../contexts/AuthContext";
+import type { Role } from "../contexts/AuthContext";
 import axios from "axios";
 
+type FieldErrors = Record<string, string>;
+
+type ProjectStatus = "draft" | "published" | "archived";
+
+// An uploaded image as the server stored it, in each size and format
+interface ProjectImage {
+  url: string;
+  webpUrl: string;
+  thumbnailUrl: string;
+  thumbnailWebpUrl: string;
+  width: number;
+  height: number;
+  alt: string | null;
+}
+
 interface Project {
   id: number;
+  slug: string;
   title: string;
   description: string | null;
   tech: string; // changed from string[] to string
   demoUrl?: string;
   sourceUrl?: string;
   featured: boolean;
+  status: ProjectStatus;
+  // ISO timestamp; hidden from visitors until then
+  publishAt: string | null;
+  order: number;
+  caseStudy: string | null;
+  role: string | null;
+  timeline: string | null;
+  challenges: string[];
+  outcomes: string[];
+  coverImage: ProjectImage | null;
+  gallery: ProjectImage[];
+}
+
+// "scheduled" is a published project whose publishAt is still ahead
+type ProjectFilter = "all" | ProjectStatus | "scheduled";
+
+// A project as the API sends it; the editor joins tech into one string
+type ApiProject = Omit<Project, "tech"> & { tech: string[] };
+
+interface TrashedProject extends ApiProject {
+  deletedAt: string;
+  // When the server purges it for good
+  purgeAt: string;
 }
 
+interface ProjectRevision {
+  number: number;
+  project: ApiProject;
+  // null for the version saved before history was kept
+  username: string | null;
+  createdAt: string;
+}
+
+type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
 interface Skill {
+  id: string;
   name: string;
   level: number;
   category: "frontend" | "backend" | "tools" | "database" | "other";
@@ -35,6 +102,7 @@ interface Skill {
 interface DashboardStats {
   totalProjects: number;
   featuredProjects: number;
+  publishedProjects: number;
   totalSkills: number;
 }
 
@@ -45,12 +113,456 @@ interface DashboardData {
   stats: DashboardStats;
 }
 
+interface UserAccount {
+  id: string;
+  username: string;
+  role: Role;
+  twoFactorEnabled: boolean;
+  createdAt: string;
+}
+
+interface FailedLogin {
+  id: string;
+  username: string;
+  ip: string;
+  userAgent: string | null;
+  lockedOut: boolean;
+  createdAt: string;
+}
+
+type AuditResource = "project" | "skill" | "learning" | "tech";
+
+interface AuditEntry {
+  id: string;
+  userId: string;
+  username: string;
+  action: "create" | "update" | "delete" | "reorder" | "restore" | "purge";
+  resource: AuditResource;
+  resourceId: string | null;
+  ip: string;
+  changes: FieldChanges;
+  createdAt: string;
+}
+
+// Sent through the contact form on the portfolio
+interface ContactMessage {
+  id: string;
+  name: string;
+  email: string;
+  subject: string | null;
+  message: string;
+  ip: string;
+  userAgent: string | null;
+  createdAt: string;
+  readAt: string | null;
+  archivedAt: string | null;
+}
+
+// A taxonomy entry being edited; aliases are typed comma-separated
+interface TechDraft {
+  name: string;
+  aliases: string;
+}
+
+interface TechCount {
+  name: string;
+  count: number;
+}
+
+interface ActivityFilters {
+  resource: AuditResource | "";
+  userId: string;
+}
+
+interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
 interface DashboardProps {
   onBackToPortfolio: () => void;
 }
 
+// Pull the per-field messages out of a 400 "Validation failed" response
+const getFieldErrors = (error: unknown): FieldErrors => {
+  if (axios.isAxiosError(error) && error.response?.status === 400) {
+    return error.response.data?.errors ?? {};
+  }
+  return {};
+};
+
+const splitTech = (tech: string | undefined): string[] =>
+  (tech ?? "")
+    .split(",")
+    .map((t) => t.trim())
+    .filter((t) => t.length > 0);
+
+// Only the fields the API accepts for a project
+const toProjectPayload = (project: Partial<Project>, tech: string) => ({
+  title: project.title,
+  slug: project.slug,
+  description: project.description,
+  tech: splitTech(tech),
+  demoUrl: project.demoUrl,
+  sourceUrl: project.sourceUrl,
+  featured: project.featured,
+  status: project.status,
+  publishAt: project.publishAt,
+  caseStudy: project.caseStudy,
+  role: project.role,
+  timeline: project.timeline,
+  challenges: project.challenges,
+  outcomes: project.outcomes,
+  coverImage: project.coverImage,
+  gallery: project.gallery,
+});
+
+// Mirrors the server: visitors only see published projects that are due
+const isPublic = (project: Project): boolean =>
+  project.status === "published" &&
+  (project.publishAt === null || Date.parse(project.publishAt) <= Date.now());
+
+const isScheduled = (project: Project): boolean =>
+  project.status === "published" && !isPublic(project);
+
+const matchesFilter = (project: Project, filter: ProjectFilter): boolean => {
+  if (filter === "all") return true;
+  if (filter === "scheduled") return isScheduled(project);
+  if (filter === "published") return isPublic(project);
+  return project.status === filter;
+};
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalDateTime = (iso: string | null): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+const StatusBadge: React.FC<{ project: Project }> = ({ project }) => {
+  if (isScheduled(project)) {
+    return (
+      <span className="px-2 py-0.5 bg-yellow-900 text-yellow-200 rounded text-xs">
+        Scheduled for {new Date(project.publishAt!).toLocaleString()}
+      </span>
+    );
+  }
+  const styles: Record<ProjectStatus, string> = {
+    draft: "bg-gray-600 text-gray-200",
+    published: "bg-green-900 text-green-200",
+    archived: "bg-red-900 text-red-200",
+  };
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs ${styles[project.status]}`}>
+      {project.status[0].toUpperCase() + project.status.slice(1)}
+    </span>
+  );
+};
+
+// Detail page fields shared by the add and edit forms. Challenges and
+// outcomes are edited one per line.
+const CaseStudyFields: React.FC<{
+  project: Partial<Project>;
+  errors: FieldErrors;
+  onChange: (changes: Partial<Project>) => void;
+}> = ({ project, errors, onChange }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <input
+          type="text"
+          placeholder="Role (optional)"
+          value={project.role ?? ""}
+          onChange={(e) => onChange({ role: e.target.value })}
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+        />
+        <FieldError message={errors.role} />
+      </div>
+      <div>
+        <input
+          type="text"
+          placeholder="Timeline (optional)"
+          value={project.timeline ?? ""}
+          onChange={(e) => onChange({ timeline: e.target.value })}
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+        />
+        <FieldError message={errors.timeline} />
+      </div>
+    </div>
+    <div>
+      <MarkdownEditor
+        placeholder="Case study in Markdown (optional, shown on the project's page)"
+        value={project.caseStudy ?? ""}
+        onChange={(caseStudy) => onChange({ caseStudy })}
+        heightClass="h-64"
+      />
+      <FieldError message={errors.caseStudy} />
+    </div>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <textarea
+          placeholder="Challenges, one per line"
+          value={(project.challenges ?? []).join("\n")}
+          onChange={(e) => onChange({ challenges: e.target.value.split("\n") })}
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white h-24"
+        />
+        <FieldError message={errors.challenges} />
+      </div>
+      <div>
+        <textarea
+          placeholder="Outcomes, one per line"
+          value={(project.outcomes ?? []).join("\n")}
+          onChange={(e) => onChange({ outcomes: e.target.value.split("\n") })}
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white h-24"
+        />
+        <FieldError message={errors.outcomes} />
+      </div>
+    </div>
+  </div>
+);
+
+// Mirrors the server: tags match without case, spaces or punctuation
+const techKey = (tag: string): string =>
+  tag.toLowerCase().replace(/[\s._-]+/g, "");
+
+// Accepted by the upload endpoint, which re-encodes everything it stores
+const IMAGE_TYPES = "image/jpeg,image/png,image/webp";
+
+const uploadImage = async (file: File): Promise<ProjectImage> => {
+  const response = await axios.post("/api/dashboard/media", file, {
+    headers: { "Content-Type": file.type },
+  });
+  return response.data.image;
+};
+
+// One uploaded image with its alt text and a remove button
+const ImageEntry: React.FC<{
+  image: ProjectImage;
+  onChange: (image: ProjectImage) => void;
+  onRemove: () => void;
+}> = ({ image, onChange, onRemove }) => (
+  <div className="bg-gray-700 rounded-lg p-2 space-y-2">
+    <div className="relative">
+      <img
+        src={image.thumbnailUrl}
+        alt={image.alt ?? ""}
+        className="w-full h-28 object-cover rounded"
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute top-1 right-1 bg-gray-900/80 hover:bg-red-600 p-1 rounded"
+        title="Remove image"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <input
+      type="text"
+      placeholder="Alt text"
+      value={image.alt ?? ""}
+      onChange={(e) => onChange({ ...image, alt: e.target.value })}
+      className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white"
+    />
+  </div>
+);
+
+// Cover image and gallery shared by the add and edit forms. Files are
+// uploaded as soon as they are picked; the project only stores their URLs.
+const ImageFields: React.FC<{
+  project: Partial<Project>;
+  errors: FieldErrors;
+  onChange: (changes: Partial<Project>) => void;
+}> = ({ project, errors, onChange }) => {
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState("");
+  const gallery = project.gallery ?? [];
+
+  const upload = async (files: FileList | null): Promise<ProjectImage[]> => {
+    if (!files || files.length === 0) return [];
+    setUploading(true);
+    setUploadError("");
+    const images: ProjectImage[] = [];
+    try {
+      for (const file of Array.from(files)) {
+        images.push(await uploadImage(file));
+      }
+    } catch (error) {
+      console.error("Error uploading image:", error);
+      setUploadError(
+        (axios.isAxiosError(error) && error.response?.data?.message) ||
+          "Upload failed"
+      );
+    } finally {
+      setUploading(false);
+    }
+    return images;
+  };
+
+  const uploadButton = (
+    label: string,
+    multiple: boolean,
+    onUploaded: (images: ProjectImage[]) => void
+  ) => (
+    <label
+      className={`flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed border-gray-500 text-sm text-gray-300 ${
+        uploading ? "opacity-50" : "cursor-pointer hover:border-blue-400"
+      }`}
+    >
+      <ImagePlus className="w-4 h-4" />
+      {uploading ? "Uploading..." : label}
+      <input
+        type="file"
+        accept={IMAGE_TYPES}
+        multiple={multiple}
+        disabled={uploading}
+        className="hidden"
+        onChange={async (e) => {
+          const input = e.currentTarget;
+          const images = await upload(input.files);
+          input.value = "";
+          if (images.length > 0) onUploaded(images);
+        }}
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-2">Cover image</h4>
+        {project.coverImage ? (
+          <div className="w-48">
+            <ImageEntry
+              image={project.coverImage}
+              onChange={(coverImage) => onChange({ coverImage })}
+              onRemove={() => onChange({ coverImage: null })}
+            />
+          </div>
+        ) : (
+          <div className="w-fit">
+            {uploadButton("Upload cover", false, ([coverImage]) =>
+              onChange({ coverImage })
+            )}
+          </div>
+        )}
+        <FieldError message={errors.coverImage} />
+      </div>
+      <div>
+        <h4 className="text-sm font-medium text-gray-300 mb-2">Gallery</h4>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {gallery.map((image, i) => (
+            <ImageEntry
+              key={image.url}
+              image={image}
+              onChange={(updated) =>
+                onChange({
+                  gallery: gallery.map((other, j) =>
+                    j === i ? updated : other
+                  ),
+                })
+              }
+              onRemove={() =>
+                onChange({ gallery: gallery.filter((_, j) => j !== i) })
+              }
+            />
+          ))}
+        </div>
+        <div className="w-fit mt-2">
+          {uploadButton("Add images", true, (images) =>
+            onChange({ gallery: [...gallery, ...images] })
+          )}
+        </div>
+        <FieldError message={errors.gallery} />
+      </div>
+      {uploadError && <p className="text-sm text-red-400">{uploadError}</p>}
+    </div>
+  );
+};
+
+// Status select and schedule input shared by the add and edit forms
+const PublishingFields: React.FC<{
+  project: Partial<Project>;
+  errors: FieldErrors;
+  onChange: (changes: Partial<Project>) => void;
+}> = ({ project, errors, onChange }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <div>
+      <select
+        value={project.status}
+        onChange={(e) => onChange({ status: e.target.value as ProjectStatus })}
+        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+      >
+        <option value="draft">Draft</option>
+        <option value="published">Published</option>
+        <option value="archived">Archived</option>
+      </select>
+      <FieldError message={errors.status} />
+    </div>
+    <div>
+      <input
+        type="datetime-local"
+        title="Publish at (optional)"
+        value={toLocalDateTime(project.publishAt ?? null)}
+        onChange={(e) =>
+          onChange({
+            publishAt: e.target.value
+              ? new Date(e.target.value).toISOString()
+              : null,
+          })
+        }
+        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+      />
+      <FieldError message={errors.publishAt} />
+    </div>
+  </div>
+);
+
+const AUDIT_ACTION_LABELS: Record<AuditEntry["action"], string> = {
+  create: "created",
+  update: "updated",
+  delete: "trashed",
+  reorder: "reordered",
+  restore: "restored",
+  purge: "purged",
+};
+
+const formatAuditValue = (value: unknown): string =>
+  value === null || value === undefined ? "—" : JSON.stringify(value);
+
+// Field, old value and new value for each change
+const ChangesTable: React.FC<{ changes: FieldChanges }> = ({ changes }) => (
+  <table className="w-full text-sm text-left table-fixed">
+    <tbody className="divide-y divide-gray-700">
+      {Object.entries(changes).map(([field, change]) => (
+        <tr key={field}>
+          <td className="py-1 pr-4 w-40 text-gray-400">{field}</td>
+          <td className="py-1 pr-4 text-red-300 break-words">
+            {formatAuditValue(change.before)}
+          </td>
+          <td className="py-1 text-green-300 break-words">
+            {formatAuditValue(change.after)}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-red-400 text-sm mt-1">{message}</p> : null;
+
 export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
-  const { logout } = useAuth();
+  const { logout, user, changePassword, signOutEverywhere, updateUser } =
+    useAuth();
+  // The server enforces these too; the Dashboard only hides what would fail
+  const canEdit = user?.role === "admin" || user?.role === "editor";
+  const isAdmin = user?.role === "admin";
   const [activeTab, setActiveTab] = useState("overview");
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -59,31 +571,164 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
   const [editingLearning, setEditingLearning] = useState(false);
   const [newProject, setNewProject] = useState<Partial<Project>>({
     title: "",
+    slug: "",
     description: "",
     tech: "", // changed from [] to ""
     demoUrl: "",
     sourceUrl: "",
     featured: false,
+    status: "draft",
+    publishAt: null,
+    caseStudy: "",
+    role: "",
+    timeline: "",
+    challenges: [],
+    outcomes: [],
+    coverImage: null,
+    gallery: [],
   });
   const [showNewProjectForm, setShowNewProjectForm] = useState(false);
   // Add a state to hold the tech input string for editing
   const [editingTechInput, setEditingTechInput] = useState<string>("");
+  const [newProjectErrors, setNewProjectErrors] = useState<FieldErrors>({});
+  const [editProjectErrors, setEditProjectErrors] = useState<FieldErrors>({});
+  const [skillErrors, setSkillErrors] = useState<FieldErrors>({});
+  const [learningErrors, setLearningErrors] = useState<FieldErrors>({});
+  const [passwordForm, setPasswordForm] = useState({
+    currentPassword: "",
+    newPassword: "",
+    confirmPassword: "",
+  });
+  const [passwordErrors, setPasswordErrors] = useState<FieldErrors>({});
+  const [passwordChanged, setPasswordChanged] = useState(false);
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [newUser, setNewUser] = useState({
+    username: "",
+    password: "",
+    role: "editor" as Role,
+  });
+  const [userErrors, setUserErrors] = useState<FieldErrors>({});
+  const [userActionError, setUserActionError] = useState("");
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<{
+    secret: string;
+    otpauthUrl: string;
+  } | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [twoFactorPassword, setTwoFactorPassword] = useState("");
+  const [twoFactorErrors, setTwoFactorErrors] = useState<FieldErrors>({});
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [failedLogins, setFailedLogins] = useState<FailedLogin[]>([]);
+  const [projectFilter, setProjectFilter] = useState<ProjectFilter>("all");
+  const [previewAsVisitor, setPreviewAsVisitor] = useState(false);
+  const [draggedProjectId, setDraggedProjectId] = useState<number | null>(null);
+  const [trash, setTrash] = useState<TrashedProject[]>([]);
+  const [techDrafts, setTechDrafts] = useState<TechDraft[]>([]);
+  const [techUsage, setTechUsage] = useState<TechCount[]>([]);
+  const [techErrors, setTechErrors] = useState<FieldErrors>({});
+  const [techsSaved, setTechsSaved] = useState(false);
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [revisionDiff, setRevisionDiff] = useState<{
+    number: number;
+    changes: FieldChanges;
+  } | null>(null);
+  const [contactMessages, setContactMessages] = useState<ContactMessage[]>([]);
+  const [messagesCursor, setMessagesCursor] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [activity, setActivity] = useState<AuditEntry[]>([]);
+  const [activityCursor, setActivityCursor] = useState<string | null>(null);
+  const [activityFilters, setActivityFilters] = useState<ActivityFilters>({
+    resource: "",
+    userId: "",
+  });
 
   useEffect(() => {
     fetchDashboardData();
   }, []);
 
-  // When starting to edit a project, initialize editingTechInput
+  // Loads the inbox up front so the unread count shows in the sidebar
   useEffect(() => {
-    if (editingProject) {
-      setEditingTechInput(editingProject.tech); // now just the raw string
+    if (canEdit) fetchMessages(false);
+  }, [canEdit]);
+
+  // When starting to edit a project, initialize editingTechInput
+  const startEditingProject = (project: Project) => {
+    setEditingProject(project);
+    setEditingTechInput(project.tech); // now just the raw string
+    setEditProjectErrors({});
+    fetchRevisions(project.id);
+  };
+
+  const fetchRevisions = async (projectId: number) => {
+    setRevisions([]);
+    setRevisionDiff(null);
+    try {
+      const response = await axios.get(
+        `/api/dashboard/projects/${projectId}/revisions`
+      );
+      setRevisions(response.data.revisions);
+    } catch (error) {
+      console.error("Failed to fetch revisions:", error);
+    }
+  };
+
+  // Shows what changed from this revision to the latest one
+  const compareRevision = async (projectId: number, number: number) => {
+    try {
+      const response = await axios.get(
+        `/api/dashboard/projects/${projectId}/revisions/diff`,
+        { params: { from: number, to: revisions[0].number } }
+      );
+      setRevisionDiff({ number, changes: response.data.changes });
+    } catch (error) {
+      console.error("Failed to compare revisions:", error);
+    }
+  };
+
+  const restoreRevision = async (projectId: number, number: number) => {
+    if (!confirm(`Restore revision ${number}? Unsaved edits will be lost.`)) {
+      return;
+    }
+    try {
+      const response = await axios.post(
+        `/api/dashboard/projects/${projectId}/revisions/${number}/restore`
+      );
+      const restored = storeSavedProject(response.data.project);
+      startEditingProject(restored);
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+      setEditProjectErrors(getFieldErrors(error));
     }
-  }, [editingProject]);
+  };
+
+  // Puts a project returned by the API into the list, in editor form
+  const storeSavedProject = (saved: ApiProject): Project => {
+    const project = { ...saved, tech: saved.tech.join(", ") };
+    setData((prev) =>
+      prev
+        ? {
+            ...prev,
+            projects: prev.projects.map((p) =>
+              p.id === project.id ? project : p
+            ),
+          }
+        : null
+    );
+    return project;
+  };
 
   const fetchDashboardData = async () => {
     try {
       const response = await axios.get("/api/dashboard/data");
-      setData(response.data);
+      // The API sends tech as an array; the editor works on the joined string
+      setData({
+        ...response.data,
+        projects: response.data.projects.map((p: ApiProject) => ({
+          ...p,
+          tech: p.tech.join(", "),
+        })),
+      });
     } catch (error) {
       console.error("Failed to fetch dashboard data:", error);
     } finally {
@@ -96,54 +741,25 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
   };
 
   const updateProject = async (project: Project) => {
-    // Ensure editingTechInput is a string before splitting
-    const techString =
-      typeof editingTechInput === "string" ? editingTechInput : "";
-    const updatedProject = {
-      ...project,
-      tech: techString, // keep as string in state
-      techArray: techString
-        .split(",")
-        .map((t) => t.trim())
-        .filter((t) => t.length > 0),
-    };
-    try {
-      await axios.put(`/api/dashboard/projects/${project.id}`, {
-        ...updatedProject,
-        tech: updatedProject.techArray, // send as array to backend
-      });
-      setData((prev) =>
-        prev
-          ? {
-              ...prev,
-              projects: prev.projects.map((p) =>
-                p.id === project.id
-                  ? { ...updatedProject, tech: techString }
-                  : p
-              ),
-            }
-          : null
+    try {
+      const response = await axios.put(
+        `/api/dashboard/projects/${project.id}`,
+        toProjectPayload(project, editingTechInput)
       );
+      storeSavedProject(response.data.project);
+      setEditingProject(null);
     } catch (error) {
       console.error("Failed to update project:", error);
-    } finally {
-      setEditingProject(null);
+      setEditProjectErrors(getFieldErrors(error));
     }
   };
 
   const addProject = async () => {
-    // Convert tech string to array before sending
-    const techArray = newProject.tech
-      ? newProject.tech
-          .split(",")
-          .map((t) => t.trim())
-          .filter((t) => t.length > 0)
-      : [];
-    try {
-      const response = await axios.post("/api/dashboard/projects", {
-        ...newProject,
-        tech: techArray, // send as array to backend
-      });
+    try {
+      const response = await axios.post(
+        "/api/dashboard/projects",
+        toProjectPayload(newProject, newProject.tech ?? "")
+      );
       if (data) {
         setData({
           ...data,
@@ -158,26 +774,78 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
       }
       setNewProject({
         title: "",
+        slug: "",
         description: "",
         tech: "",
         demoUrl: "",
         sourceUrl: "",
         featured: false,
+        status: "draft",
+        publishAt: null,
+        caseStudy: "",
+        role: "",
+        timeline: "",
+        challenges: [],
+        outcomes: [],
+        coverImage: null,
+        gallery: [],
       });
+      setNewProjectErrors({});
       setShowNewProjectForm(false);
     } catch (error) {
       console.error("Failed to add project:", error);
+      setNewProjectErrors(getFieldErrors(error));
+    }
+  };
+
+  // Dragging only makes sense while every project is on screen
+  // Tags on projects that no taxonomy entry covers yet
+  const knownTechKeys = new Set(
+    techDrafts.flatMap((draft) =>
+      [draft.name, ...draft.aliases.split(",")].map(techKey)
+    )
+  );
+  const unknownTechs = techUsage.filter(
+    (usage) => !knownTechKeys.has(techKey(usage.name))
+  );
+
+  const canReorderProjects =
+    canEdit && !previewAsVisitor && projectFilter === "all" && !editingProject;
+
+  // Moves the dragged project to where `targetId` is and saves the new order
+  const dropProject = async (targetId: number) => {
+    const draggedId = draggedProjectId;
+    setDraggedProjectId(null);
+    if (!data || draggedId === null || draggedId === targetId) return;
+
+    const projects = data.projects.filter((p) => p.id !== draggedId);
+    const targetIndex = data.projects.findIndex((p) => p.id === targetId);
+    projects.splice(
+      targetIndex,
+      0,
+      data.projects.find((p) => p.id === draggedId)!
+    );
+    setData({ ...data, projects });
+
+    try {
+      await axios.put("/api/dashboard/projects/order", {
+        ids: projects.map((p) => p.id),
+      });
+    } catch (error) {
+      console.error("Failed to reorder projects:", error);
+      fetchDashboardData();
     }
   };
 
-  const deleteProject = async (id: number) => {
+  const deleteProject = async (project: Project) => {
+    if (!confirm(`Move "${project.title}" to the trash?`)) return;
     try {
-      await axios.delete(`/api/dashboard/projects/${id}`);
+      await axios.delete(`/api/dashboard/projects/${project.id}`);
       setData((prev) =>
         prev
           ? {
               ...prev,
-              projects: prev.projects.filter((p) => p.id !== id),
+              projects: prev.projects.filter((p) => p.id !== project.id),
             }
           : null
       );
@@ -186,13 +854,135 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
     }
   };
 
+  const openTrashTab = async () => {
+    setActiveTab("trash");
+    try {
+      const response = await axios.get("/api/dashboard/trash");
+      setTrash(response.data.projects);
+    } catch (error) {
+      console.error("Failed to fetch trash:", error);
+    }
+  };
+
+  const fetchTechs = async () => {
+    const response = await axios.get("/api/dashboard/techs");
+    setTechDrafts(
+      response.data.techs.map((tech: { name: string; aliases: string[] }) => ({
+        name: tech.name,
+        aliases: tech.aliases.join(", "),
+      }))
+    );
+    setTechUsage(response.data.usage);
+  };
+
+  const openTechsTab = async () => {
+    setActiveTab("techs");
+    setTechErrors({});
+    setTechsSaved(false);
+    try {
+      await fetchTechs();
+    } catch (error) {
+      console.error("Failed to fetch tech taxonomy:", error);
+    }
+  };
+
+  const updateTechDraft = (index: number, changes: Partial<TechDraft>) => {
+    setTechDrafts(
+      techDrafts.map((draft, i) =>
+        i === index ? { ...draft, ...changes } : draft
+      )
+    );
+    setTechsSaved(false);
+  };
+
+  const saveTechs = async () => {
+    try {
+      await axios.put("/api/dashboard/techs", {
+        techs: techDrafts
+          .filter((draft) => draft.name.trim() !== "")
+          .map((draft) => ({
+            name: draft.name,
+            aliases: draft.aliases,
+          })),
+      });
+      setTechErrors({});
+      setTechsSaved(true);
+      await fetchTechs();
+    } catch (error) {
+      console.error("Failed to update tech taxonomy:", error);
+      setTechErrors(getFieldErrors(error));
+    }
+  };
+
+  const restoreProject = async (id: number) => {
+    try {
+      const response = await axios.post(`/api/dashboard/trash/${id}/restore`);
+      const saved: ApiProject = response.data.project;
+      setTrash((prev) => prev.filter((p) => p.id !== id));
+      setData((prev) =>
+        prev
+          ? {
+              ...prev,
+              projects: [
+                ...prev.projects,
+                { ...saved, tech: saved.tech.join(", ") },
+              ],
+            }
+          : null
+      );
+    } catch (error) {
+      console.error("Failed to restore project:", error);
+    }
+  };
+
+  const purgeProject = async (project: TrashedProject) => {
+    if (
+      !confirm(
+        `Delete "${project.title}" for good? This also removes its history and can't be undone.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await axios.delete(`/api/dashboard/trash/${project.id}`);
+      setTrash((prev) => prev.filter((p) => p.id !== project.id));
+    } catch (error) {
+      console.error("Failed to purge project:", error);
+    }
+  };
+
+  // Edit a skill in the local list by its id; saved with updateSkills
+  const changeSkill = (id: string, changes: Partial<Skill>) => {
+    setData((prev) =>
+      prev
+        ? {
+            ...prev,
+            skills: prev.skills.map((skill) =>
+              skill.id === id ? { ...skill, ...changes } : skill
+            ),
+          }
+        : null
+    );
+  };
+
   const updateSkills = async (skills: Skill[]) => {
     try {
-      await axios.put("/api/dashboard/skills", { skills });
-      setData((prev) => (prev ? { ...prev, skills } : null));
+      const response = await axios.put("/api/dashboard/skills", {
+        skills: skills.map(({ id, name, level, category }) => ({
+          id,
+          name,
+          level,
+          category,
+        })),
+      });
+      setData((prev) =>
+        prev ? { ...prev, skills: response.data.skills } : null
+      );
+      setSkillErrors({});
       setEditingSkills(false);
     } catch (error) {
       console.error("Failed to update skills:", error);
+      setSkillErrors(getFieldErrors(error));
     }
   };
 
@@ -200,56 +990,349 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
     try {
       await axios.put("/api/dashboard/learning", { currentlyLearning });
       setData((prev) => (prev ? { ...prev, currentlyLearning } : null));
+      setLearningErrors({});
       setEditingLearning(false);
     } catch (error) {
       console.error("Failed to update learning:", error);
+      setLearningErrors(getFieldErrors(error));
     }
   };
 
-  if (loading || !data) {
-    return (
-      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
-        <div className="text-white text-xl">Loading dashboard...</div>
-      </div>
-    );
-  }
+  const openUsersTab = async () => {
+    setActiveTab("users");
+    try {
+      const [usersResponse, failedLoginsResponse] = await Promise.all([
+        axios.get("/api/dashboard/users"),
+        axios.get("/api/dashboard/failed-logins"),
+      ]);
+      setUsers(usersResponse.data.users);
+      setFailedLogins(failedLoginsResponse.data.failedLogins);
+    } catch (error) {
+      console.error("Failed to fetch users:", error);
+    }
+  };
 
-  return (
-    <div className="min-h-screen bg-gray-900 text-white">
-      {/* Sidebar */}
-      <div className="fixed left-0 top-0 w-64 h-full bg-gray-800 border-r border-gray-700">
-        <div className="p-6">
-          <h1 className="text-2xl font-bold text-blue-400 mb-8">Dashboard</h1>
+  // Passing a cursor appends the next page to what's already shown
+  const fetchActivity = async (
+    filters: ActivityFilters,
+    before: string | null = null
+  ) => {
+    try {
+      const response = await axios.get("/api/dashboard/activity", {
+        params: {
+          resource: filters.resource || undefined,
+          userId: filters.userId || undefined,
+          before: before ?? undefined,
+        },
+      });
+      setActivity((current) =>
+        before ? [...current, ...response.data.entries] : response.data.entries
+      );
+      setActivityCursor(response.data.nextCursor);
+    } catch (error) {
+      console.error("Failed to fetch activity:", error);
+    }
+  };
 
-          <nav className="space-y-2">
-            <button
-              onClick={() => setActiveTab("overview")}
-              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
-                activeTab === "overview"
-                  ? "bg-blue-600 text-white"
-                  : "text-gray-300 hover:bg-gray-700"
-              }`}
-            >
-              <BarChart3 className="w-5 h-5" />
-              Overview
-            </button>
+  // Passing a cursor appends the next page to what's already shown
+  const fetchMessages = async (
+    archived: boolean,
+    before: string | null = null
+  ) => {
+    try {
+      const response = await axios.get("/api/dashboard/messages", {
+        params: { archived, before: before ?? undefined },
+      });
+      setContactMessages((current) =>
+        before
+          ? [...current, ...response.data.contactMessages]
+          : response.data.contactMessages
+      );
+      setMessagesCursor(response.data.nextCursor);
+      setUnreadCount(response.data.unread);
+    } catch (error) {
+      console.error("Failed to fetch messages:", error);
+    }
+  };
 
-            <button
-              onClick={() => setActiveTab("projects")}
-              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
-                activeTab === "projects"
-                  ? "bg-blue-600 text-white"
-                  : "text-gray-300 hover:bg-gray-700"
-              }`}
-            >
-              <FileText className="w-5 h-5" />
-              Projects
-            </button>
+  const openInboxTab = async () => {
+    setActiveTab("inbox");
+    await fetchMessages(showArchived);
+  };
 
-            <button
-              onClick={() => setActiveTab("skills")}
-              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
-                activeTab === "skills"
+  const changeShowArchived = (archived: boolean) => {
+    setShowArchived(archived);
+    fetchMessages(archived);
+  };
+
+  const updateMessage = async (
+    contactMessage: ContactMessage,
+    changes: { read?: boolean; archived?: boolean }
+  ) => {
+    try {
+      const response = await axios.put(
+        `/api/dashboard/messages/${contactMessage.id}`,
+        changes
+      );
+      const updated: ContactMessage = response.data.contactMessage;
+      // Archiving or unarchiving moves it to the other list
+      setContactMessages((current) =>
+        changes.archived === undefined
+          ? current.map((m) => (m.id === updated.id ? updated : m))
+          : current.filter((m) => m.id !== updated.id)
+      );
+      const wasUnread = !contactMessage.readAt && !contactMessage.archivedAt;
+      const isUnread = !updated.readAt && !updated.archivedAt;
+      setUnreadCount((count) => count + Number(isUnread) - Number(wasUnread));
+    } catch (error) {
+      console.error("Failed to update message:", error);
+    }
+  };
+
+  const deleteMessage = async (contactMessage: ContactMessage) => {
+    if (!confirm(`Delete the message from ${contactMessage.name}?`)) return;
+    try {
+      await axios.delete(`/api/dashboard/messages/${contactMessage.id}`);
+      setContactMessages((current) =>
+        current.filter((m) => m.id !== contactMessage.id)
+      );
+      if (!contactMessage.readAt && !contactMessage.archivedAt) {
+        setUnreadCount((count) => count - 1);
+      }
+    } catch (error) {
+      console.error("Failed to delete message:", error);
+    }
+  };
+
+  const openActivityTab = async () => {
+    setActiveTab("activity");
+    try {
+      const response = await axios.get("/api/dashboard/users");
+      setUsers(response.data.users);
+    } catch (error) {
+      console.error("Failed to fetch users:", error);
+    }
+    await fetchActivity(activityFilters);
+  };
+
+  const changeActivityFilters = (changes: Partial<ActivityFilters>) => {
+    const filters = { ...activityFilters, ...changes };
+    setActivityFilters(filters);
+    fetchActivity(filters);
+  };
+
+  // 409s explain why a change was refused, e.g. removing the last admin
+  const getActionError = (error: unknown): string =>
+    axios.isAxiosError(error) && error.response?.status === 409
+      ? error.response.data.message
+      : "";
+
+  const addUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await axios.post("/api/dashboard/users", newUser);
+      setUsers((prev) => [...prev, response.data.user]);
+      setNewUser({ username: "", password: "", role: "editor" });
+      setUserErrors({});
+    } catch (error) {
+      console.error("Failed to add user:", error);
+      setUserErrors(getFieldErrors(error));
+    }
+  };
+
+  const changeUserRole = async (id: string, role: Role) => {
+    try {
+      const response = await axios.put(`/api/dashboard/users/${id}`, { role });
+      // Tokens carry the role, so our own stops working after a change
+      if (id === user?.id) {
+        logout();
+        return;
+      }
+      setUsers((prev) =>
+        prev.map((u) => (u.id === id ? response.data.user : u))
+      );
+      setUserActionError("");
+    } catch (error) {
+      console.error("Failed to change role:", error);
+      setUserActionError(getActionError(error));
+    }
+  };
+
+  const deleteUser = async (id: string) => {
+    try {
+      await axios.delete(`/api/dashboard/users/${id}`);
+      setUsers((prev) => prev.filter((u) => u.id !== id));
+      setUserActionError("");
+    } catch (error) {
+      console.error("Failed to delete user:", error);
+      setUserActionError(getActionError(error));
+    }
+  };
+
+  const openSessionsTab = async () => {
+    setActiveTab("sessions");
+    try {
+      const response = await axios.get("/api/auth/sessions");
+      setSessions(response.data.sessions);
+    } catch (error) {
+      console.error("Failed to fetch sessions:", error);
+    }
+  };
+
+  const revokeSession = async (id: string) => {
+    try {
+      await axios.delete(`/api/auth/sessions/${id}`);
+      setSessions((prev) => prev.filter((s) => s.id !== id));
+    } catch (error) {
+      console.error("Failed to revoke session:", error);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    try {
+      await signOutEverywhere();
+    } catch (error) {
+      console.error("Failed to sign out everywhere:", error);
+    }
+  };
+
+  const startTwoFactorSetup = async () => {
+    try {
+      const response = await axios.post("/api/auth/2fa/setup");
+      setTwoFactorSetup(response.data);
+      setTwoFactorCode("");
+      setTwoFactorErrors({});
+    } catch (error) {
+      console.error("Failed to start two-factor setup:", error);
+    }
+  };
+
+  const enableTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await axios.post("/api/auth/2fa/enable", {
+        code: twoFactorCode,
+      });
+      updateUser(response.data.user);
+      setRecoveryCodes(response.data.recoveryCodes);
+      setTwoFactorSetup(null);
+      setTwoFactorErrors({});
+    } catch (error) {
+      console.error("Failed to enable two-factor authentication:", error);
+      setTwoFactorErrors(getFieldErrors(error));
+    }
+  };
+
+  const disableTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await axios.post("/api/auth/2fa/disable", {
+        password: twoFactorPassword,
+      });
+      updateUser(response.data.user);
+      setTwoFactorPassword("");
+      setTwoFactorErrors({});
+    } catch (error) {
+      console.error("Failed to disable two-factor authentication:", error);
+      setTwoFactorErrors(getFieldErrors(error));
+    }
+  };
+
+  const submitPasswordChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordChanged(false);
+
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      setPasswordErrors({ confirmPassword: "Passwords do not match" });
+      return;
+    }
+
+    try {
+      await changePassword(
+        passwordForm.currentPassword,
+        passwordForm.newPassword
+      );
+      setPasswordForm({
+        currentPassword: "",
+        newPassword: "",
+        confirmPassword: "",
+      });
+      setPasswordErrors({});
+      setPasswordChanged(true);
+    } catch (error) {
+      console.error("Failed to change password:", error);
+      setPasswordErrors(getFieldErrors(error));
+    }
+  };
+
+  if (loading || !data) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-white text-xl">Loading dashboard...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      {/* Sidebar */}
+      <div className="fixed left-0 top-0 w-64 h-full bg-gray-800 border-r border-gray-700">
+        <div className="p-6">
+          <h1 className="text-2xl font-bold text-blue-400 mb-8">Dashboard</h1>
+
+          <nav className="space-y-2">
+            <button
+              onClick={() => setActiveTab("overview")}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === "overview"
+                  ? "bg-blue-600 text-white"
+                  : "text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              <BarChart3 className="w-5 h-5" />
+              Overview
+            </button>
+
+            <button
+              onClick={() => setActiveTab("projects")}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === "projects"
+                  ? "bg-blue-600 text-white"
+                  : "text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              <FileText className="w-5 h-5" />
+              Projects
+            </button>
+
+            <button
+              onClick={openTrashTab}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === "trash"
+                  ? "bg-blue-600 text-white"
+                  : "text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              <Trash2 className="w-5 h-5" />
+              Trash
+            </button>
+
+            <button
+              onClick={openTechsTab}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === "techs"
+                  ? "bg-blue-600 text-white"
+                  : "text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              <Tags className="w-5 h-5" />
+              Technologies
+            </button>
+
+            <button
+              onClick={() => setActiveTab("skills")}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === "skills"
                   ? "bg-blue-600 text-white"
                   : "text-gray-300 hover:bg-gray-700"
               }`}
@@ -257,6 +1340,77 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
               <Settings className="w-5 h-5" />
               Skills & Learning
             </button>
+
+            {canEdit && (
+              <button
+                onClick={openInboxTab}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                  activeTab === "inbox"
+                    ? "bg-blue-600 text-white"
+                    : "text-gray-300 hover:bg-gray-700"
+                }`}
+              >
+                <Inbox className="w-5 h-5" />
+                Inbox
+                {unreadCount > 0 && (
+                  <span className="ml-auto px-2 py-0.5 bg-blue-500 text-white rounded-full text-xs">
+                    {unreadCount}
+                  </span>
+                )}
+              </button>
+            )}
+
+            <button
+              onClick={() => setActiveTab("account")}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === "account"
+                  ? "bg-blue-600 text-white"
+                  : "text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              <KeyRound className="w-5 h-5" />
+              Account
+            </button>
+
+            <button
+              onClick={openSessionsTab}
+              className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                activeTab === "sessions"
+                  ? "bg-blue-600 text-white"
+                  : "text-gray-300 hover:bg-gray-700"
+              }`}
+            >
+              <MonitorSmartphone className="w-5 h-5" />
+              Sessions
+            </button>
+
+            {isAdmin && (
+              <button
+                onClick={openUsersTab}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                  activeTab === "users"
+                    ? "bg-blue-600 text-white"
+                    : "text-gray-300 hover:bg-gray-700"
+                }`}
+              >
+                <Users className="w-5 h-5" />
+                Users
+              </button>
+            )}
+
+            {isAdmin && (
+              <button
+                onClick={openActivityTab}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg text-left transition-colors ${
+                  activeTab === "activity"
+                    ? "bg-blue-600 text-white"
+                    : "text-gray-300 hover:bg-gray-700"
+                }`}
+              >
+                <History className="w-5 h-5" />
+                Activity
+              </button>
+            )}
           </nav>
         </div>
 
@@ -297,6 +1451,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
                     <p className="text-2xl font-bold text-white">
                       {data.stats.totalProjects}
                     </p>
+                    <p className="text-sm text-gray-400">
+                      {data.stats.publishedProjects} visible to visitors
+                    </p>
                   </div>
                   <FileText className="w-8 h-8 text-blue-400" />
                 </div>
@@ -372,73 +1529,164 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
           <div>
             <div className="flex items-center justify-between mb-8">
               <h2 className="text-3xl font-bold">Manage Projects</h2>
-              <button
-                onClick={() => setShowNewProjectForm(true)}
-                className="flex items-center gap-2 bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg transition-colors"
-              >
-                <Plus className="w-4 h-4" />
-                Add Project
-              </button>
+              <div className="flex items-center gap-3">
+                <select
+                  value={projectFilter}
+                  disabled={previewAsVisitor}
+                  onChange={(e) =>
+                    setProjectFilter(e.target.value as ProjectFilter)
+                  }
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white disabled:opacity-50"
+                >
+                  <option value="all">All projects</option>
+                  <option value="draft">Drafts</option>
+                  <option value="published">Published</option>
+                  <option value="scheduled">Scheduled</option>
+                  <option value="archived">Archived</option>
+                </select>
+                <button
+                  onClick={() => setPreviewAsVisitor(!previewAsVisitor)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                    previewAsVisitor
+                      ? "bg-blue-600 hover:bg-blue-700"
+                      : "bg-gray-700 hover:bg-gray-600"
+                  }`}
+                >
+                  <Eye className="w-4 h-4" />
+                  Preview as Visitor
+                </button>
+                {canEdit && !previewAsVisitor && (
+                  <button
+                    onClick={() => setShowNewProjectForm(true)}
+                    className="flex items-center gap-2 bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg transition-colors"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Project
+                  </button>
+                )}
+              </div>
             </div>
 
-            {showNewProjectForm && (
+            {previewAsVisitor && (
+              <p className="mb-6 text-blue-300">
+                Showing only the projects visitors can see right now.
+              </p>
+            )}
+
+            {showNewProjectForm && !previewAsVisitor && (
               <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 mb-6">
                 <h3 className="text-xl font-semibold mb-4">Add New Project</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <input
-                    type="text"
-                    placeholder="Project Title"
-                    value={newProject.title}
-                    onChange={(e) =>
-                      setNewProject({ ...newProject, title: e.target.value })
-                    }
-                    className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
-                  />
-                  <input
-                    type="text"
-                    placeholder="Technologies (comma-separated)"
-                    value={newProject.tech || ""}
-                    onChange={(e) =>
-                      setNewProject({
-                        ...newProject,
-                        tech: e.target.value,
-                      })
+                  <div>
+                    <input
+                      type="text"
+                      placeholder="Project Title"
+                      value={newProject.title}
+                      onChange={(e) =>
+                        setNewProject({ ...newProject, title: e.target.value })
+                      }
+                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                    />
+                    <FieldError message={newProjectErrors.title} />
+                  </div>
+                  <div>
+                    <input
+                      type="text"
+                      placeholder="URL slug (optional, generated from title)"
+                      value={newProject.slug}
+                      onChange={(e) =>
+                        setNewProject({ ...newProject, slug: e.target.value })
+                      }
+                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                    />
+                    <FieldError message={newProjectErrors.slug} />
+                  </div>
+                  <div>
+                    <input
+                      type="text"
+                      placeholder="Technologies (comma-separated)"
+                      value={newProject.tech || ""}
+                      onChange={(e) =>
+                        setNewProject({
+                          ...newProject,
+                          tech: e.target.value,
+                        })
+                      }
+                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                    />
+                    <FieldError message={newProjectErrors.tech} />
+                  </div>
+                  <div>
+                    <input
+                      type="url"
+                      placeholder="Demo URL (optional)"
+                      value={newProject.demoUrl}
+                      onChange={(e) =>
+                        setNewProject({
+                          ...newProject,
+                          demoUrl: e.target.value,
+                        })
+                      }
+                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                    />
+                    <FieldError message={newProjectErrors.demoUrl} />
+                  </div>
+                  <div>
+                    <input
+                      type="url"
+                      placeholder="Source URL (optional)"
+                      value={newProject.sourceUrl}
+                      onChange={(e) =>
+                        setNewProject({
+                          ...newProject,
+                          sourceUrl: e.target.value,
+                        })
+                      }
+                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                    />
+                    <FieldError message={newProjectErrors.sourceUrl} />
+                  </div>
+                </div>
+                <div>
+                  <div className="mt-4">
+                    <MarkdownEditor
+                      placeholder="Project Description (Markdown)"
+                      value={newProject.description ?? ""}
+                      onChange={(description) =>
+                        setNewProject({ ...newProject, description })
+                      }
+                      heightClass="h-32"
+                    />
+                  </div>
+                  <FieldError message={newProjectErrors.description} />
+                </div>
+                <div className="mt-4">
+                  <PublishingFields
+                    project={newProject}
+                    errors={newProjectErrors}
+                    onChange={(changes) =>
+                      setNewProject({ ...newProject, ...changes })
                     }
-                    className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
                   />
-                  <input
-                    type="url"
-                    placeholder="Demo URL (optional)"
-                    value={newProject.demoUrl}
-                    onChange={(e) =>
-                      setNewProject({ ...newProject, demoUrl: e.target.value })
+                </div>
+                <div className="mt-4">
+                  <CaseStudyFields
+                    project={newProject}
+                    errors={newProjectErrors}
+                    onChange={(changes) =>
+                      setNewProject({ ...newProject, ...changes })
                     }
-                    className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
                   />
-                  <input
-                    type="url"
-                    placeholder="Source URL (optional)"
-                    value={newProject.sourceUrl}
-                    onChange={(e) =>
-                      setNewProject({
-                        ...newProject,
-                        sourceUrl: e.target.value,
-                      })
+                </div>
+                <div className="mt-4">
+                  <ImageFields
+                    project={newProject}
+                    errors={newProjectErrors}
+                    onChange={(changes) =>
+                      setNewProject({ ...newProject, ...changes })
                     }
-                    className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
                   />
                 </div>
-                <textarea
-                  placeholder="Project Description"
-                  value={newProject.description ?? ""}
-                  onChange={(e) =>
-                    setNewProject({
-                      ...newProject,
-                      description: e.target.value,
-                    })
-                  }
-                  className="w-full mt-4 bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white h-24 resize-none"
-                />
                 <div className="flex items-center mt-4">
                   <input
                     type="checkbox"
@@ -465,7 +1713,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
                     Save
                   </button>
                   <button
-                    onClick={() => setShowNewProjectForm(false)}
+                    onClick={() => {
+                      setShowNewProjectForm(false);
+                      setNewProjectErrors({});
+                    }}
                     className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
                   >
                     <X className="w-4 h-4" />
@@ -476,182 +1727,339 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
             )}
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {data.projects.map((project) => (
-                <div
-                  key={project.id}
-                  className="bg-gray-800 p-6 rounded-lg border border-gray-700"
-                >
-                  {editingProject?.id === project.id ? (
-                    <div className="space-y-4">
-                      <input
-                        type="text"
-                        value={editingProject.title}
-                        onChange={(e) =>
-                          setEditingProject({
-                            ...editingProject,
-                            title: e.target.value,
-                          })
-                        }
-                        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
-                      />
-                      <textarea
-                        value={editingProject.description || ""}
-                        onChange={(e) =>
-                          setEditingProject({
-                            ...editingProject,
-                            description: e.target.value,
-                          })
-                        }
-                        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white h-20 resize-none"
-                      />
-                      <input
-                        type="text"
-                        placeholder="Technologies (comma-separated)"
-                        value={editingTechInput}
-                        onChange={(e) => setEditingTechInput(e.target.value)}
-                        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
-                      />
-                      {/* Add demoUrl and sourceUrl fields */}
-                      <input
-                        type="url"
-                        placeholder="Demo URL (optional)"
-                        value={editingProject.demoUrl || ""}
-                        onChange={(e) =>
-                          setEditingProject({
-                            ...editingProject,
-                            demoUrl: e.target.value,
-                          })
-                        }
-                        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
-                      />
-                      <input
-                        type="url"
-                        placeholder="Source URL (optional)"
-                        value={editingProject.sourceUrl || ""}
-                        onChange={(e) =>
-                          setEditingProject({
-                            ...editingProject,
-                            sourceUrl: e.target.value,
-                          })
-                        }
-                        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
-                      />
-                      <div className="flex items-center">
-                        <input
-                          type="checkbox"
-                          id={`featured-${project.id}`}
-                          checked={editingProject.featured}
-                          onChange={(e) =>
-                            setEditingProject({
-                              ...editingProject,
-                              featured: e.target.checked,
-                            })
+              {data.projects
+                .filter((project) =>
+                  previewAsVisitor
+                    ? isPublic(project)
+                    : matchesFilter(project, projectFilter)
+                )
+                .map((project) => (
+                  <div
+                    key={project.id}
+                    draggable={canReorderProjects}
+                    onDragStart={() => setDraggedProjectId(project.id)}
+                    onDragEnd={() => setDraggedProjectId(null)}
+                    onDragOver={(e) => {
+                      if (draggedProjectId !== null) e.preventDefault();
+                    }}
+                    onDrop={() => dropProject(project.id)}
+                    className={`bg-gray-800 p-6 rounded-lg border border-gray-700 ${
+                      canReorderProjects ? "cursor-move" : ""
+                    } ${draggedProjectId === project.id ? "opacity-50" : ""}`}
+                  >
+                    {editingProject?.id === project.id && !previewAsVisitor ? (
+                      <div className="space-y-4">
+                        <div>
+                          <input
+                            type="text"
+                            value={editingProject.title}
+                            onChange={(e) =>
+                              setEditingProject({
+                                ...editingProject,
+                                title: e.target.value,
+                              })
+                            }
+                            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                          />
+                          <FieldError message={editProjectErrors.title} />
+                        </div>
+                        <div>
+                          <input
+                            type="text"
+                            placeholder="URL slug (leave empty to regenerate)"
+                            value={editingProject.slug}
+                            onChange={(e) =>
+                              setEditingProject({
+                                ...editingProject,
+                                slug: e.target.value,
+                              })
+                            }
+                            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                          />
+                          <FieldError message={editProjectErrors.slug} />
+                        </div>
+                        <div>
+                          <MarkdownEditor
+                            placeholder="Project Description (Markdown)"
+                            value={editingProject.description || ""}
+                            onChange={(description) =>
+                              setEditingProject({
+                                ...editingProject,
+                                description,
+                              })
+                            }
+                            heightClass="h-32"
+                          />
+                          <FieldError message={editProjectErrors.description} />
+                        </div>
+                        <div>
+                          <input
+                            type="text"
+                            placeholder="Technologies (comma-separated)"
+                            value={editingTechInput}
+                            onChange={(e) =>
+                              setEditingTechInput(e.target.value)
+                            }
+                            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                          />
+                          <FieldError message={editProjectErrors.tech} />
+                        </div>
+                        {/* Add demoUrl and sourceUrl fields */}
+                        <div>
+                          <input
+                            type="url"
+                            placeholder="Demo URL (optional)"
+                            value={editingProject.demoUrl || ""}
+                            onChange={(e) =>
+                              setEditingProject({
+                                ...editingProject,
+                                demoUrl: e.target.value,
+                              })
+                            }
+                            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                          />
+                          <FieldError message={editProjectErrors.demoUrl} />
+                        </div>
+                        <div>
+                          <input
+                            type="url"
+                            placeholder="Source URL (optional)"
+                            value={editingProject.sourceUrl || ""}
+                            onChange={(e) =>
+                              setEditingProject({
+                                ...editingProject,
+                                sourceUrl: e.target.value,
+                              })
+                            }
+                            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                          />
+                          <FieldError message={editProjectErrors.sourceUrl} />
+                        </div>
+                        <PublishingFields
+                          project={editingProject}
+                          errors={editProjectErrors}
+                          onChange={(changes) =>
+                            setEditingProject({ ...editingProject, ...changes })
                           }
-                          className="mr-2"
                         />
-                        <label
-                          htmlFor={`featured-${project.id}`}
-                          className="text-gray-300"
-                        >
-                          Featured
-                        </label>
-                      </div>
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() =>
-                            editingProject &&
-                            typeof editingProject.id === "number" &&
-                            updateProject(editingProject)
+                        <CaseStudyFields
+                          project={editingProject}
+                          errors={editProjectErrors}
+                          onChange={(changes) =>
+                            setEditingProject({ ...editingProject, ...changes })
                           }
-                          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg transition-colors"
-                        >
-                          <Save className="w-4 h-4" />
-                          Save
-                        </button>
-                        <button
-                          onClick={() => setEditingProject(null)}
-                          className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
-                        >
-                          <X className="w-4 h-4" />
-                          Cancel
-                        </button>
+                        />
+                        <ImageFields
+                          project={editingProject}
+                          errors={editProjectErrors}
+                          onChange={(changes) =>
+                            setEditingProject({ ...editingProject, ...changes })
+                          }
+                        />
+                        <div className="flex items-center">
+                          <input
+                            type="checkbox"
+                            id={`featured-${project.id}`}
+                            checked={editingProject.featured}
+                            onChange={(e) =>
+                              setEditingProject({
+                                ...editingProject,
+                                featured: e.target.checked,
+                              })
+                            }
+                            className="mr-2"
+                          />
+                          <label
+                            htmlFor={`featured-${project.id}`}
+                            className="text-gray-300"
+                          >
+                            Featured
+                          </label>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() =>
+                              editingProject &&
+                              typeof editingProject.id === "number" &&
+                              updateProject(editingProject)
+                            }
+                            className="flex items-center gap-2 bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg transition-colors"
+                          >
+                            <Save className="w-4 h-4" />
+                            Save
+                          </button>
+                          <button
+                            onClick={() => setEditingProject(null)}
+                            className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
+                          >
+                            <X className="w-4 h-4" />
+                            Cancel
+                          </button>
+                        </div>
+
+                        {revisions.length > 0 && (
+                          <div className="border-t border-gray-700 pt-4">
+                            <h4 className="font-semibold mb-2 flex items-center gap-2">
+                              <History className="w-4 h-4" />
+                              History
+                            </h4>
+                            <div className="space-y-2 max-h-80 overflow-y-auto">
+                              {revisions.map((revision, index) => (
+                                <div
+                                  key={revision.number}
+                                  className="p-2 bg-gray-700 rounded-lg text-sm"
+                                >
+                                  <div className="flex items-center justify-between gap-2">
+                                    <p>
+                                      <span className="font-medium">
+                                        #{revision.number}
+                                      </span>{" "}
+                                      <span className="text-gray-400">
+                                        {revision.username ?? "Earlier version"}{" "}
+                                        ·{" "}
+                                        {new Date(
+                                          revision.createdAt
+                                        ).toLocaleString()}
+                                      </span>
+                                    </p>
+                                    {index === 0 ? (
+                                      <span className="text-gray-400">
+                                        Current
+                                      </span>
+                                    ) : (
+                                      <div className="flex gap-3">
+                                        <button
+                                          onClick={() =>
+                                            compareRevision(
+                                              project.id,
+                                              revision.number
+                                            )
+                                          }
+                                          className="text-blue-400 hover:text-blue-300"
+                                        >
+                                          Compare
+                                        </button>
+                                        <button
+                                          onClick={() =>
+                                            restoreRevision(
+                                              project.id,
+                                              revision.number
+                                            )
+                                          }
+                                          className="flex items-center gap-1 text-yellow-400 hover:text-yellow-300"
+                                        >
+                                          <RotateCcw className="w-3 h-3" />
+                                          Restore this version
+                                        </button>
+                                      </div>
+                                    )}
+                                  </div>
+                                  {revisionDiff?.number === revision.number &&
+                                    (Object.keys(revisionDiff.changes)
+                                      .length === 0 ? (
+                                      <p className="mt-2 text-gray-400">
+                                        Same as the current version.
+                                      </p>
+                                    ) : (
+                                      <div className="mt-2">
+                                        <ChangesTable
+                                          changes={revisionDiff.changes}
+                                        />
+                                      </div>
+                                    ))}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
-                    </div>
-                  ) : (
-                    <div>
-                      <div className="flex items-start justify-between mb-4">
-                        <div>
-                          <h3 className="text-xl font-semibold text-white flex items-center gap-2">
-                            {project.title}
-                            {project.featured && (
-                              <Star className="w-4 h-4 text-yellow-400" />
+                    ) : (
+                      <div>
+                        <div className="flex items-start justify-between mb-4">
+                          <div>
+                            <h3 className="text-xl font-semibold text-white flex items-center gap-2">
+                              {canReorderProjects && (
+                                <GripVertical className="w-4 h-4 text-gray-500" />
+                              )}
+                              {project.title}
+                              {project.featured && (
+                                <Star className="w-4 h-4 text-yellow-400" />
+                              )}
+                            </h3>
+                            {!previewAsVisitor && (
+                              <div className="mt-1">
+                                <StatusBadge project={project} />
+                              </div>
                             )}
-                          </h3>
-                          <p className="text-gray-300 mt-2">
-                            {project.description}
-                          </p>
+                            <p className="text-gray-300 mt-2">
+                              {project.description}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            {project.demoUrl && (
+                              <a
+                                href={project.demoUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-400 hover:text-blue-300"
+                              >
+                                <ExternalLink className="w-4 h-4" />
+                              </a>
+                            )}
+                            {project.sourceUrl && (
+                              <a
+                                href={project.sourceUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-green-400 hover:text-green-300"
+                              >
+                                <ExternalLink className="w-4 h-4" />
+                              </a>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2 mb-4">
+                          {(typeof project.tech === "string"
+                            ? project.tech
+                                .split(",")
+                                .map((t) => t.trim())
+                                .filter((t) => t)
+                            : Array.isArray(project.tech)
+                            ? project.tech
+                            : []
+                          ).map((tech, i) => (
+                            <span
+                              key={i}
+                              className="px-2 py-1 bg-blue-900 text-blue-200 rounded text-sm"
+                            >
+                              {tech}
+                            </span>
+                          ))}
                         </div>
                         <div className="flex gap-2">
-                          {project.demoUrl && (
-                            <a
-                              href={project.demoUrl}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-400 hover:text-blue-300"
+                          {canEdit && !previewAsVisitor && (
+                            <button
+                              onClick={() => startEditingProject(project)}
+                              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded transition-colors text-sm"
                             >
-                              <ExternalLink className="w-4 h-4" />
-                            </a>
+                              <Edit3 className="w-3 h-3" />
+                              Edit
+                            </button>
                           )}
-                          {project.sourceUrl && (
-                            <a
-                              href={project.sourceUrl}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-green-400 hover:text-green-300"
+                          {isAdmin && !previewAsVisitor && (
+                            <button
+                              onClick={() => deleteProject(project)}
+                              className="flex items-center gap-2 bg-red-600 hover:bg-red-700 px-3 py-1 rounded transition-colors text-sm"
                             >
-                              <ExternalLink className="w-4 h-4" />
-                            </a>
+                              <Trash2 className="w-3 h-3" />
+                              Delete
+                            </button>
                           )}
                         </div>
                       </div>
-                      <div className="flex flex-wrap gap-2 mb-4">
-                        {(typeof project.tech === "string"
-                          ? project.tech
-                              .split(",")
-                              .map((t) => t.trim())
-                              .filter((t) => t)
-                          : Array.isArray(project.tech)
-                          ? project.tech
-                          : []
-                        ).map((tech, i) => (
-                          <span
-                            key={i}
-                            className="px-2 py-1 bg-blue-900 text-blue-200 rounded text-sm"
-                          >
-                            {tech}
-                          </span>
-                        ))}
-                      </div>
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => setEditingProject(project)}
-                          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded transition-colors text-sm"
-                        >
-                          <Edit3 className="w-3 h-3" />
-                          Edit
-                        </button>
-                        <button
-                          onClick={() => deleteProject(project.id)}
-                          className="flex items-center gap-2 bg-red-600 hover:bg-red-700 px-3 py-1 rounded transition-colors text-sm"
-                        >
-                          <Trash2 className="w-3 h-3" />
-                          Delete
-                        </button>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              ))}
+                    )}
+                  </div>
+                ))}
             </div>
           </div>
         )}
@@ -665,73 +2073,88 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
               <div className="bg-gray-800 p-6 rounded-lg border border-gray-700">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-xl font-semibold">Skills</h3>
-                  <button
-                    onClick={() => setEditingSkills(!editingSkills)}
-                    className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors"
-                  >
-                    <Edit3 className="w-4 h-4" />
-                    {editingSkills ? "Cancel" : "Edit"}
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => {
+                        setEditingSkills(!editingSkills);
+                        setSkillErrors({});
+                      }}
+                      className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                      {editingSkills ? "Cancel" : "Edit"}
+                    </button>
+                  )}
                 </div>
 
                 {editingSkills ? (
                   <div className="space-y-4">
                     {data.skills.map((skill, index) => (
-                      <div key={index} className="flex items-center gap-4">
-                        <input
-                          type="text"
-                          value={skill.name}
-                          onChange={(e) => {
-                            const newSkills = [...data.skills];
-                            newSkills[index].name = e.target.value;
-                            setData({ ...data, skills: newSkills });
-                          }}
-                          className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
-                        />
-                        <input
-                          type="number"
-                          min="0"
-                          max="100"
-                          value={skill.level}
-                          onChange={(e) => {
-                            const newSkills = [...data.skills];
-                            newSkills[index].level = parseInt(e.target.value);
-                            setData({ ...data, skills: newSkills });
-                          }}
-                          className="w-20 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
-                        />
-                        <select
-                          value={skill.category}
-                          onChange={(e) => {
-                            const newSkills = [...data.skills];
-                            newSkills[index].category = e.target
-                              .value as Skill["category"];
-                            setData({ ...data, skills: newSkills });
-                          }}
-                          className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
-                        >
-                          <option value="frontend">Frontend</option>
-                          <option value="backend">Backend</option>
-                          <option value="tools">Tools</option>
-                          <option value="database">Database</option>
-                          <option value="other">Other</option>
-                        </select>
-                        <button
-                          onClick={() => {
-                            const newSkills = data.skills.filter(
-                              (_, i) => i !== index
-                            );
-                            setData({ ...data, skills: newSkills });
-                          }}
-                          className="text-red-400 hover:text-red-300"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
+                      <div key={skill.id}>
+                        <div className="flex items-center gap-4">
+                          <input
+                            type="text"
+                            value={skill.name}
+                            onChange={(e) =>
+                              changeSkill(skill.id, { name: e.target.value })
+                            }
+                            className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
+                          />
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={skill.level}
+                            onChange={(e) =>
+                              changeSkill(skill.id, {
+                                level: parseInt(e.target.value),
+                              })
+                            }
+                            className="w-20 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
+                          />
+                          <select
+                            value={skill.category}
+                            onChange={(e) =>
+                              changeSkill(skill.id, {
+                                category: e.target.value as Skill["category"],
+                              })
+                            }
+                            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
+                          >
+                            <option value="frontend">Frontend</option>
+                            <option value="backend">Backend</option>
+                            <option value="tools">Tools</option>
+                            <option value="database">Database</option>
+                            <option value="other">Other</option>
+                          </select>
+                          {isAdmin && (
+                            <button
+                              onClick={() => {
+                                const newSkills = data.skills.filter(
+                                  (s) => s.id !== skill.id
+                                );
+                                setData({ ...data, skills: newSkills });
+                              }}
+                              className="text-red-400 hover:text-red-300"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                        {(["name", "level", "category"] as const).map(
+                          (field) => (
+                            <FieldError
+                              key={field}
+                              message={skillErrors[`skills.${index}.${field}`]}
+                            />
+                          )
+                        )}
                       </div>
                     ))}
                     <button
                       onClick={() => {
                         const newSkill: Skill = {
+                          id: crypto.randomUUID(),
                           name: "",
                           level: 50,
                           category: "other",
@@ -746,6 +2169,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
                       <Plus className="w-4 h-4" />
                       Add Skill
                     </button>
+                    <FieldError message={skillErrors.skills} />
                     <button
                       onClick={() => updateSkills(data.skills)}
                       className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors"
@@ -756,8 +2180,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {data.skills.map((skill, index) => (
-                      <div key={index}>
+                    {data.skills.map((skill) => (
+                      <div key={skill.id}>
                         <div className="flex items-center justify-between mb-2">
                           <span className="text-white font-medium">
                             {skill.name}
@@ -781,13 +2205,18 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
               <div className="bg-gray-800 p-6 rounded-lg border border-gray-700">
                 <div className="flex items-center justify-between mb-4">
                   <h3 className="text-xl font-semibold">Currently Learning</h3>
-                  <button
-                    onClick={() => setEditingLearning(!editingLearning)}
-                    className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors"
-                  >
-                    <Edit3 className="w-4 h-4" />
-                    {editingLearning ? "Cancel" : "Edit"}
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => {
+                        setEditingLearning(!editingLearning);
+                        setLearningErrors({});
+                      }}
+                      className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors"
+                    >
+                      <Edit3 className="w-4 h-4" />
+                      {editingLearning ? "Cancel" : "Edit"}
+                    </button>
+                  )}
                 </div>
 
                 {editingLearning ? (
@@ -801,6 +2230,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
                       className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white h-32 resize-none"
                       placeholder="Enter each technology on a new line"
                     />
+                    <FieldError
+                      message={
+                        learningErrors.currentlyLearning ??
+                        Object.values(learningErrors)[0]
+                      }
+                    />
                     <button
                       onClick={() =>
                         updateLearning(
@@ -829,6 +2264,786 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBackToPortfolio }) => {
             </div>
           </div>
         )}
+
+        {/* Account Tab */}
+        {activeTab === "account" && (
+          <div>
+            <div className="flex items-center justify-between mb-8">
+              <h2 className="text-3xl font-bold">Account</h2>
+              {user && (
+                <span className="text-gray-400">
+                  Signed in as{" "}
+                  <span className="text-white font-medium">
+                    {user.username}
+                  </span>
+                </span>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <form
+                onSubmit={submitPasswordChange}
+                className="bg-gray-800 p-6 rounded-lg border border-gray-700 space-y-4"
+              >
+                <h3 className="text-xl font-semibold">Change Password</h3>
+                <div>
+                  <input
+                    type="password"
+                    placeholder="Current password"
+                    autoComplete="current-password"
+                    value={passwordForm.currentPassword}
+                    onChange={(e) =>
+                      setPasswordForm({
+                        ...passwordForm,
+                        currentPassword: e.target.value,
+                      })
+                    }
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                  />
+                  <FieldError message={passwordErrors.currentPassword} />
+                </div>
+                <div>
+                  <input
+                    type="password"
+                    placeholder="New password"
+                    autoComplete="new-password"
+                    value={passwordForm.newPassword}
+                    onChange={(e) =>
+                      setPasswordForm({
+                        ...passwordForm,
+                        newPassword: e.target.value,
+                      })
+                    }
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                  />
+                  <FieldError message={passwordErrors.newPassword} />
+                </div>
+                <div>
+                  <input
+                    type="password"
+                    placeholder="Confirm new password"
+                    autoComplete="new-password"
+                    value={passwordForm.confirmPassword}
+                    onChange={(e) =>
+                      setPasswordForm({
+                        ...passwordForm,
+                        confirmPassword: e.target.value,
+                      })
+                    }
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                  />
+                  <FieldError message={passwordErrors.confirmPassword} />
+                </div>
+                {passwordChanged && (
+                  <p className="text-green-400 text-sm">
+                    Password changed. Other sessions have been signed out.
+                  </p>
+                )}
+                <button
+                  type="submit"
+                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors"
+                >
+                  <Save className="w-4 h-4" />
+                  Change Password
+                </button>
+              </form>
+
+              <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-xl font-semibold">
+                    Two-Factor Authentication
+                  </h3>
+                  {user?.twoFactorEnabled && (
+                    <span className="px-2 py-1 bg-green-900 text-green-200 rounded text-sm">
+                      Enabled
+                    </span>
+                  )}
+                </div>
+
+                {recoveryCodes.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-gray-300 text-sm">
+                      Save these recovery codes somewhere safe. Each one signs
+                      you in once if you lose your authenticator. They won't be
+                      shown again.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-900 p-4 rounded-lg">
+                      {recoveryCodes.map((recoveryCode) => (
+                        <span key={recoveryCode}>{recoveryCode}</span>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => setRecoveryCodes([])}
+                      className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
+                    >
+                      I've saved them
+                    </button>
+                  </div>
+                )}
+
+                {user?.twoFactorEnabled ? (
+                  recoveryCodes.length === 0 && (
+                    <form onSubmit={disableTwoFactor} className="space-y-4">
+                      <p className="text-gray-400 text-sm">
+                        Enter your password to turn off two-factor login.
+                      </p>
+                      <div>
+                        <input
+                          type="password"
+                          placeholder="Password"
+                          autoComplete="current-password"
+                          value={twoFactorPassword}
+                          onChange={(e) => setTwoFactorPassword(e.target.value)}
+                          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                        />
+                        <FieldError message={twoFactorErrors.password} />
+                      </div>
+                      <button
+                        type="submit"
+                        className="flex items-center gap-2 bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                        Turn Off
+                      </button>
+                    </form>
+                  )
+                ) : twoFactorSetup ? (
+                  <form onSubmit={enableTwoFactor} className="space-y-4">
+                    <p className="text-gray-400 text-sm">
+                      Scan this code with your authenticator app, then enter the
+                      code it shows.
+                    </p>
+                    <div className="bg-white p-4 rounded-lg w-fit">
+                      <QRCodeSVG value={twoFactorSetup.otpauthUrl} size={160} />
+                    </div>
+                    <p className="text-gray-400 text-sm break-all">
+                      Or enter this key manually:{" "}
+                      <span className="font-mono text-gray-200">
+                        {twoFactorSetup.secret}
+                      </span>
+                    </p>
+                    <div>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        placeholder="123456"
+                        value={twoFactorCode}
+                        onChange={(e) => setTwoFactorCode(e.target.value)}
+                        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                      />
+                      <FieldError message={twoFactorErrors.code} />
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="submit"
+                        className="flex items-center gap-2 bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg transition-colors"
+                      >
+                        <Save className="w-4 h-4" />
+                        Confirm
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setTwoFactorSetup(null)}
+                        className="flex items-center gap-2 bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="space-y-4">
+                    <p className="text-gray-400 text-sm">
+                      Ask for a code from an authenticator app in addition to
+                      your password when signing in.
+                    </p>
+                    <button
+                      onClick={startTwoFactorSetup}
+                      className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors"
+                    >
+                      <ShieldCheck className="w-4 h-4" />
+                      Set Up
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Sessions Tab */}
+        {activeTab === "sessions" && (
+          <div>
+            <div className="flex items-center justify-between mb-8">
+              <h2 className="text-3xl font-bold">Sessions</h2>
+              <button
+                onClick={handleSignOutEverywhere}
+                className="flex items-center gap-2 bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+                Sign Out Everywhere
+              </button>
+            </div>
+
+            <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 space-y-3">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-4 p-3 bg-gray-700 rounded-lg"
+                >
+                  <div>
+                    <p className="font-medium flex items-center gap-2">
+                      {session.userAgent ?? "Unknown device"}
+                      {session.current && (
+                        <span className="px-2 py-0.5 bg-green-900 text-green-200 rounded text-xs">
+                          This session
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-400">
+                      Signed in {new Date(session.createdAt).toLocaleString()} ·
+                      Last used {new Date(session.lastUsedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <button
+                      onClick={() => revokeSession(session.id)}
+                      className="flex items-center gap-2 bg-red-600 hover:bg-red-700 px-3 py-1 rounded transition-colors text-sm"
+                    >
+                      <LogOut className="w-3 h-3" />
+                      Sign Out
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Users Tab */}
+        {activeTab === "users" && isAdmin && (
+          <div>
+            <h2 className="text-3xl font-bold mb-8">Users</h2>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="bg-gray-800 p-6 rounded-lg border border-gray-700">
+                <h3 className="text-xl font-semibold mb-4">Team</h3>
+                <div className="space-y-3">
+                  {users.map((account) => (
+                    <div
+                      key={account.id}
+                      className="flex items-center justify-between gap-4 p-3 bg-gray-700 rounded-lg"
+                    >
+                      <div>
+                        <p className="font-medium flex items-center gap-2">
+                          {account.username}
+                          {account.twoFactorEnabled && (
+                            <ShieldCheck className="w-4 h-4 text-green-400" />
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-400">
+                          Added{" "}
+                          {new Date(account.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <select
+                          value={account.role}
+                          onChange={(e) =>
+                            changeUserRole(account.id, e.target.value as Role)
+                          }
+                          className="bg-gray-600 border border-gray-500 rounded-lg px-3 py-1 text-white"
+                        >
+                          <option value="admin">Admin</option>
+                          <option value="editor">Editor</option>
+                          <option value="viewer">Viewer</option>
+                        </select>
+                        {account.id !== user?.id && (
+                          <button
+                            onClick={() => deleteUser(account.id)}
+                            className="text-red-400 hover:text-red-300"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <FieldError message={userActionError} />
+              </div>
+
+              <form
+                onSubmit={addUser}
+                className="bg-gray-800 p-6 rounded-lg border border-gray-700 space-y-4"
+              >
+                <h3 className="text-xl font-semibold">Add User</h3>
+                <div>
+                  <input
+                    type="text"
+                    placeholder="Username"
+                    value={newUser.username}
+                    onChange={(e) =>
+                      setNewUser({ ...newUser, username: e.target.value })
+                    }
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                  />
+                  <FieldError message={userErrors.username} />
+                </div>
+                <div>
+                  <input
+                    type="password"
+                    placeholder="Initial password"
+                    autoComplete="new-password"
+                    value={newUser.password}
+                    onChange={(e) =>
+                      setNewUser({ ...newUser, password: e.target.value })
+                    }
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                  />
+                  <FieldError message={userErrors.password} />
+                </div>
+                <select
+                  value={newUser.role}
+                  onChange={(e) =>
+                    setNewUser({ ...newUser, role: e.target.value as Role })
+                  }
+                  className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                >
+                  <option value="admin">Admin</option>
+                  <option value="editor">Editor</option>
+                  <option value="viewer">Viewer</option>
+                </select>
+                <button
+                  type="submit"
+                  className="flex items-center gap-2 bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add User
+                </button>
+              </form>
+            </div>
+
+            <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 mt-8">
+              <h3 className="text-xl font-semibold mb-4">Failed Sign-ins</h3>
+              {failedLogins.length === 0 ? (
+                <p className="text-gray-400">No failed sign-ins recorded.</p>
+              ) : (
+                <table className="w-full text-sm text-left">
+                  <thead className="text-gray-400">
+                    <tr>
+                      <th className="pb-2 font-medium">Time</th>
+                      <th className="pb-2 font-medium">Username</th>
+                      <th className="pb-2 font-medium">IP address</th>
+                      <th className="pb-2 font-medium">Device</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700">
+                    {failedLogins.map((attempt) => (
+                      <tr key={attempt.id}>
+                        <td className="py-2 text-gray-300">
+                          {new Date(attempt.createdAt).toLocaleString()}
+                        </td>
+                        <td className="py-2">
+                          {attempt.username}
+                          {attempt.lockedOut && (
+                            <span className="ml-2 px-2 py-0.5 bg-red-900 text-red-200 rounded text-xs">
+                              Locked out
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 text-gray-300">{attempt.ip}</td>
+                        <td className="py-2 text-gray-400 truncate max-w-xs">
+                          {attempt.userAgent ?? "Unknown"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Trash Tab */}
+        {activeTab === "trash" && (
+          <div>
+            <h2 className="text-3xl font-bold mb-8">Trash</h2>
+            {trash.length === 0 ? (
+              <p className="text-gray-400">The trash is empty.</p>
+            ) : (
+              <div className="space-y-4">
+                {trash.map((project) => (
+                  <div
+                    key={project.id}
+                    className="flex items-center justify-between gap-4 bg-gray-800 p-4 rounded-lg border border-gray-700"
+                  >
+                    <div>
+                      <h3 className="text-lg font-semibold">{project.title}</h3>
+                      <p className="text-sm text-gray-400">
+                        Deleted {new Date(project.deletedAt).toLocaleString()}
+                        {" · "}
+                        Removed for good on{" "}
+                        {new Date(project.purgeAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      {canEdit && (
+                        <button
+                          onClick={() => restoreProject(project.id)}
+                          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded transition-colors text-sm"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Restore
+                        </button>
+                      )}
+                      {isAdmin && (
+                        <button
+                          onClick={() => purgeProject(project)}
+                          className="flex items-center gap-2 bg-red-600 hover:bg-red-700 px-3 py-1 rounded transition-colors text-sm"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                          Delete Forever
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Technologies Tab */}
+        {activeTab === "techs" && (
+          <div>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-3xl font-bold">Technologies</h2>
+              {canEdit && (
+                <button
+                  onClick={saveTechs}
+                  className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors"
+                >
+                  <Save className="w-4 h-4" />
+                  Save Changes
+                </button>
+              )}
+            </div>
+            <p className="text-gray-400 mb-8">
+              Project tags matching a name or alias are saved under the name,
+              written exactly as it is here. Case, spaces and punctuation are
+              ignored when matching.
+            </p>
+            {techsSaved && (
+              <p className="text-green-400 mb-4">Technologies saved.</p>
+            )}
+
+            <div className="space-y-3">
+              {techDrafts.map((draft, i) => (
+                <div
+                  key={i}
+                  className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto_auto] items-start gap-4 bg-gray-800 p-4 rounded-lg border border-gray-700"
+                >
+                  <div>
+                    <input
+                      type="text"
+                      placeholder="Name, e.g. Node.js"
+                      value={draft.name}
+                      disabled={!canEdit}
+                      onChange={(e) =>
+                        updateTechDraft(i, { name: e.target.value })
+                      }
+                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                    />
+                    <FieldError message={techErrors[`techs.${i}.name`]} />
+                  </div>
+                  <div>
+                    <input
+                      type="text"
+                      placeholder="Aliases (comma-separated), e.g. node, nodejs"
+                      value={draft.aliases}
+                      disabled={!canEdit}
+                      onChange={(e) =>
+                        updateTechDraft(i, { aliases: e.target.value })
+                      }
+                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                    />
+                    <FieldError message={techErrors[`techs.${i}.aliases`]} />
+                  </div>
+                  <span className="py-2 text-sm text-gray-400 whitespace-nowrap">
+                    {techUsage.find(
+                      (usage) => techKey(usage.name) === techKey(draft.name)
+                    )?.count ?? 0}{" "}
+                    projects
+                  </span>
+                  {canEdit && (
+                    <button
+                      onClick={() => {
+                        setTechDrafts(techDrafts.filter((_, j) => j !== i));
+                        setTechsSaved(false);
+                      }}
+                      className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <FieldError message={techErrors.techs} />
+
+            {canEdit && (
+              <button
+                onClick={() => {
+                  setTechDrafts([...techDrafts, { name: "", aliases: "" }]);
+                  setTechsSaved(false);
+                }}
+                className="flex items-center gap-2 mt-4 border border-gray-600 hover:border-gray-500 px-4 py-2 rounded-lg transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add Technology
+              </button>
+            )}
+
+            {unknownTechs.length > 0 && (
+              <div className="mt-12">
+                <h3 className="text-xl font-semibold mb-4">
+                  Tags without an entry
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {unknownTechs.map((usage) => (
+                    <span
+                      key={usage.name}
+                      className="flex items-center gap-2 px-3 py-1 bg-gray-800 border border-gray-700 rounded-full text-sm"
+                    >
+                      {usage.name}
+                      <span className="text-gray-400">{usage.count}</span>
+                      {canEdit && (
+                        <button
+                          onClick={() => {
+                            setTechDrafts([
+                              ...techDrafts,
+                              { name: usage.name, aliases: "" },
+                            ]);
+                            setTechsSaved(false);
+                          }}
+                          className="text-blue-400 hover:text-blue-300"
+                          title="Add as a technology"
+                        >
+                          <Plus className="w-3 h-3" />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Inbox Tab */}
+        {activeTab === "inbox" && canEdit && (
+          <div>
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+              <h2 className="text-3xl font-bold">Inbox</h2>
+              <select
+                value={showArchived ? "archived" : "inbox"}
+                onChange={(e) =>
+                  changeShowArchived(e.target.value === "archived")
+                }
+                className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+              >
+                <option value="inbox">Inbox</option>
+                <option value="archived">Archived</option>
+              </select>
+            </div>
+
+            {contactMessages.length === 0 ? (
+              <p className="text-gray-400">
+                {showArchived ? "No archived messages." : "No messages."}
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {contactMessages.map((contactMessage) => (
+                  <div
+                    key={contactMessage.id}
+                    className={`bg-gray-800 p-4 rounded-lg border ${
+                      contactMessage.readAt
+                        ? "border-gray-700"
+                        : "border-blue-500"
+                    }`}
+                  >
+                    <div className="flex flex-wrap justify-between gap-2 mb-3">
+                      <div>
+                        <p>
+                          <span
+                            className={
+                              contactMessage.readAt ? "" : "font-semibold"
+                            }
+                          >
+                            {contactMessage.name}
+                          </span>{" "}
+                          <a
+                            href={`mailto:${contactMessage.email}`}
+                            className="text-blue-400 hover:underline text-sm"
+                          >
+                            {contactMessage.email}
+                          </a>
+                        </p>
+                        {contactMessage.subject && (
+                          <p className="text-gray-300">
+                            {contactMessage.subject}
+                          </p>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-400">
+                        {new Date(contactMessage.createdAt).toLocaleString()} ·{" "}
+                        {contactMessage.ip}
+                      </p>
+                    </div>
+                    <p className="text-gray-300 whitespace-pre-wrap mb-4">
+                      {contactMessage.message}
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() =>
+                          updateMessage(contactMessage, {
+                            read: !contactMessage.readAt,
+                          })
+                        }
+                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded transition-colors text-sm"
+                      >
+                        {contactMessage.readAt ? (
+                          <Mail className="w-3 h-3" />
+                        ) : (
+                          <MailOpen className="w-3 h-3" />
+                        )}
+                        {contactMessage.readAt
+                          ? "Mark as unread"
+                          : "Mark as read"}
+                      </button>
+                      <button
+                        onClick={() =>
+                          updateMessage(contactMessage, {
+                            archived: !contactMessage.archivedAt,
+                          })
+                        }
+                        className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded transition-colors text-sm"
+                      >
+                        <Archive className="w-3 h-3" />
+                        {contactMessage.archivedAt ? "Unarchive" : "Archive"}
+                      </button>
+                      {isAdmin && (
+                        <button
+                          onClick={() => deleteMessage(contactMessage)}
+                          className="flex items-center gap-2 bg-red-600 hover:bg-red-700 px-3 py-1 rounded transition-colors text-sm"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {messagesCursor && (
+              <button
+                onClick={() => fetchMessages(showArchived, messagesCursor)}
+                className="mt-6 bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg transition-colors"
+              >
+                Load more
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Activity Tab */}
+        {activeTab === "activity" && isAdmin && (
+          <div>
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+              <h2 className="text-3xl font-bold">Activity</h2>
+              <div className="flex gap-3">
+                <select
+                  value={activityFilters.resource}
+                  onChange={(e) =>
+                    changeActivityFilters({
+                      resource: e.target.value as ActivityFilters["resource"],
+                    })
+                  }
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                >
+                  <option value="">All changes</option>
+                  <option value="project">Projects</option>
+                  <option value="skill">Skills</option>
+                  <option value="learning">Currently learning</option>
+                  <option value="tech">Technologies</option>
+                </select>
+                <select
+                  value={activityFilters.userId}
+                  onChange={(e) =>
+                    changeActivityFilters({ userId: e.target.value })
+                  }
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white"
+                >
+                  <option value="">All users</option>
+                  {users.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.username}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {activity.length === 0 ? (
+              <p className="text-gray-400">No changes recorded.</p>
+            ) : (
+              <div className="space-y-4">
+                {activity.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="bg-gray-800 p-4 rounded-lg border border-gray-700"
+                  >
+                    <div className="flex flex-wrap justify-between gap-2 mb-3">
+                      <p>
+                        <span className="font-medium">{entry.username}</span>{" "}
+                        <span className="text-gray-400">
+                          {AUDIT_ACTION_LABELS[entry.action]}
+                        </span>{" "}
+                        <span className="px-2 py-0.5 bg-blue-900 text-blue-200 rounded text-xs">
+                          {entry.resource}
+                        </span>
+                        {entry.resourceId && (
+                          <span className="ml-2 text-gray-400 text-sm">
+                            #{entry.resourceId}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-400">
+                        {new Date(entry.createdAt).toLocaleString()} ·{" "}
+                        {entry.ip}
+                      </p>
+                    </div>
+                    <ChangesTable changes={entry.changes} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {activityCursor && (
+              <button
+                onClick={() => fetchActivity(activityFilters, activityCursor)}
+                className="mt-6 bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded-lg transition-colors"
+              >
+                Load more
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
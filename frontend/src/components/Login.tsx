@@ -1,6 +1,6 @@
 // frontend/src/components/Login.tsx
-import React, { useState } from "react";
-import { Lock, User, Eye, EyeOff } from "lucide-react";
+import React, { useState, useEffect } from "react";
+import { Lock, User, Eye, EyeOff, ShieldCheck } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
 
 interface LoginProps {
@@ -13,92 +13,163 @@ export const Login: React.FC<LoginProps> = ({ onSuccess }) => {
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  // Set while the server is refusing logins; counted down to zero
+  const [retryIn, setRetryIn] = useState(0);
+  // Second step, shown when the account has two-factor login enabled
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState("");
 
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
+
+  useEffect(() => {
+    if (retryIn <= 0) return;
+    const timer = setTimeout(() => setRetryIn(retryIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryIn]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError("");
 
-    const success = await login(username, password);
+    const result = needsCode
+      ? await verifyTwoFactor(code)
+      : await login(username, password);
 
-    if (success) {
+    if (result.success) {
       onSuccess();
     } else {
-      setError("Invalid username or password");
+      setNeedsCode(result.twoFactorRequired ?? false);
+      setCode("");
+      if (result.retryAfter) {
+        setRetryIn(result.retryAfter);
+      } else if (needsCode) {
+        setError(result.message ?? "Invalid code");
+      } else if (!result.twoFactorRequired) {
+        setError("Invalid username or password");
+      }
     }
 
     setLoading(false);
   };
 
+  const backToCredentials = () => {
+    setNeedsCode(false);
+    setCode("");
+    setError("");
+  };
+
+  const formatCountdown = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
   return (
     <div className="min-h-screen bg-gray-900 flex items-center justify-center px-4">
       <div className="max-w-md w-full">
         <div className="bg-gray-800 rounded-lg shadow-xl p-8">
           <div className="text-center mb-8">
-            <Lock className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+            {needsCode ? (
+              <ShieldCheck className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+            ) : (
+              <Lock className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+            )}
             <h2 className="text-2xl font-bold text-white mb-2">
               Dashboard Login
             </h2>
             <p className="text-gray-400">
-              Enter your credentials to access the dashboard
+              {needsCode
+                ? "Enter the code from your authenticator app, or a recovery code"
+                : "Enter your credentials to access the dashboard"}
             </p>
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label
-                htmlFor="username"
-                className="block text-sm font-medium text-gray-300 mb-2"
-              >
-                Username
-              </label>
-              <div className="relative">
-                <User className="w-5 h-5 text-gray-400 absolute left-3 top-3" />
-                <input
-                  type="text"
-                  id="username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                  placeholder="Enter username"
-                  required
-                />
-              </div>
-            </div>
-
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-gray-300 mb-2"
-              >
-                Password
-              </label>
-              <div className="relative">
-                <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-3" />
-                <input
-                  type={showPassword ? "text" : "password"}
-                  id="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full pl-10 pr-12 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                  placeholder="Enter password"
-                  required
-                />
+            {needsCode ? (
+              <div>
+                <label
+                  htmlFor="code"
+                  className="block text-sm font-medium text-gray-300 mb-2"
+                >
+                  Authentication code
+                </label>
+                <div className="relative">
+                  <ShieldCheck className="w-5 h-5 text-gray-400 absolute left-3 top-3" />
+                  <input
+                    type="text"
+                    id="code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="w-full pl-10 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                    placeholder="123456"
+                    required
+                  />
+                </div>
                 <button
                   type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-3 text-gray-400 hover:text-gray-300"
+                  onClick={backToCredentials}
+                  className="mt-2 text-sm text-gray-400 hover:text-gray-300"
                 >
-                  {showPassword ? (
-                    <EyeOff className="w-5 h-5" />
-                  ) : (
-                    <Eye className="w-5 h-5" />
-                  )}
+                  Back
                 </button>
               </div>
-            </div>
+            ) : (
+              <>
+                <div>
+                  <label
+                    htmlFor="username"
+                    className="block text-sm font-medium text-gray-300 mb-2"
+                  >
+                    Username
+                  </label>
+                  <div className="relative">
+                    <User className="w-5 h-5 text-gray-400 absolute left-3 top-3" />
+                    <input
+                      type="text"
+                      id="username"
+                      value={username}
+                      onChange={(e) => setUsername(e.target.value)}
+                      className="w-full pl-10 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                      placeholder="Enter username"
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-gray-300 mb-2"
+                  >
+                    Password
+                  </label>
+                  <div className="relative">
+                    <Lock className="w-5 h-5 text-gray-400 absolute left-3 top-3" />
+                    <input
+                      type={showPassword ? "text" : "password"}
+                      id="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="w-full pl-10 pr-12 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                      placeholder="Enter password"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-3 text-gray-400 hover:text-gray-300"
+                    >
+                      {showPassword ? (
+                        <EyeOff className="w-5 h-5" />
+                      ) : (
+                        <Eye className="w-5 h-5" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
 
             {error && (
               <div className="text-red-400 text-sm text-center bg-red-900/20 border border-red-900/30 rounded-lg p-3">
@@ -106,12 +177,19 @@ export const Login: React.FC<LoginProps> = ({ onSuccess }) => {
               </div>
             )}
 
+            {retryIn > 0 && (
+              <div className="text-yellow-300 text-sm text-center bg-yellow-900/20 border border-yellow-900/30 rounded-lg p-3">
+                Too many login attempts. Try again in {formatCountdown(retryIn)}
+                .
+              </div>
+            )}
+
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || retryIn > 0}
               className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors"
             >
-              {loading ? "Signing in..." : "Sign In"}
+              {loading ? "Signing in..." : needsCode ? "Verify" : "Sign In"}
             </button>
           </form>
 
@@ -0,0 +1,79 @@
+// frontend/src/components/MarkdownEditor.tsx
+import React, { useState, useEffect } from "react";
+import axios from "axios";
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  // Tailwind height class shared by the textarea and the preview
+  heightClass?: string;
+}
+
+// Wait for a pause in typing before asking the server to render
+const PREVIEW_DELAY_MS = 300;
+
+// Textarea with a live preview, rendered by the same code as the public site
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
+  value,
+  onChange,
+  placeholder,
+  heightClass = "h-40",
+}) => {
+  const [html, setHtml] = useState("");
+  const [previewFailed, setPreviewFailed] = useState(false);
+
+  useEffect(() => {
+    if (!value.trim()) {
+      setHtml("");
+      setPreviewFailed(false);
+      return;
+    }
+
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await axios.post("/api/dashboard/markdown/preview", {
+          source: value,
+        });
+        if (!isCancelled) {
+          setHtml(response.data.html);
+          setPreviewFailed(false);
+        }
+      } catch (error) {
+        console.error("Failed to render preview:", error);
+        if (!isCancelled) setPreviewFailed(true);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value]);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <textarea
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={`w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-white font-mono text-sm ${heightClass}`}
+      />
+      <div
+        className={`bg-gray-900 border border-gray-700 rounded-lg px-4 py-2 overflow-y-auto ${heightClass}`}
+      >
+        {previewFailed ? (
+          <p className="text-sm text-red-400">Preview unavailable</p>
+        ) : html ? (
+          <div
+            className="markdown text-gray-300"
+            dangerouslySetInnerHTML={{ __html: html }}
+          />
+        ) : (
+          <p className="text-sm text-gray-500">Markdown preview appears here</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+// frontend/src/components/Picture.tsx
+import React from "react";
+
+// An uploaded image as the API returns it
+export interface ProjectImage {
+  url: string;
+  webpUrl: string;
+  thumbnailUrl: string;
+  thumbnailWebpUrl: string;
+  width: number;
+  height: number;
+  alt: string | null;
+}
+
+interface PictureProps {
+  image: ProjectImage;
+  size: "thumbnail" | "full";
+  className?: string;
+}
+
+// WebP where the browser supports it, the JPEG or PNG fallback elsewhere
+export const Picture: React.FC<PictureProps> = ({ image, size, className }) => (
+  <picture>
+    <source
+      srcSet={size === "full" ? image.webpUrl : image.thumbnailWebpUrl}
+      type="image/webp"
+    />
+    <img
+      src={size === "full" ? image.url : image.thumbnailUrl}
+      alt={image.alt ?? ""}
+      width={image.width}
+      height={image.height}
+      loading="lazy"
+      className={className}
+    />
+  </picture>
+);
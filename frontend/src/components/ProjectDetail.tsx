@@ -0,0 +1,236 @@
+// frontend/src/components/ProjectDetail.tsx
+import React, { useState, useEffect, useRef } from "react";
+import { ArrowLeft, ExternalLink, Github, Clock, User } from "lucide-react";
+import axios from "axios";
+import { Picture } from "./Picture";
+import type { ProjectImage } from "./Picture";
+
+export interface ProjectDetails {
+  id: number;
+  slug: string;
+  title: string;
+  description: string | null;
+  descriptionHtml: string | null;
+  tech: string[];
+  demoUrl?: string | null;
+  sourceUrl?: string | null;
+  caseStudy: string | null;
+  caseStudyHtml: string | null;
+  role: string | null;
+  timeline: string | null;
+  challenges: string[];
+  outcomes: string[];
+  coverImage: ProjectImage | null;
+  gallery: ProjectImage[];
+}
+
+interface ProjectDetailProps {
+  slug: string;
+  // Already loaded with the page; null when the server found no project
+  initialProject?: ProjectDetails | null;
+  onBack: () => void;
+}
+
+export const ProjectDetail: React.FC<ProjectDetailProps> = ({
+  slug,
+  initialProject,
+  onBack,
+}) => {
+  const [project, setProject] = useState<ProjectDetails | null>(
+    initialProject ?? null
+  );
+  const [notFound, setNotFound] = useState(initialProject === null);
+  const isPreloaded = useRef(initialProject !== undefined);
+
+  useEffect(() => {
+    if (isPreloaded.current) {
+      isPreloaded.current = false;
+      return;
+    }
+
+    let isCancelled = false;
+    setProject(null);
+    setNotFound(false);
+
+    (async () => {
+      try {
+        const response = await axios.get(
+          `/api/projects/${encodeURIComponent(slug)}`
+        );
+        if (!isCancelled) setProject(response.data.project);
+      } catch (error) {
+        console.error("Failed to load project:", error);
+        if (!isCancelled) setNotFound(true);
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [slug]);
+
+  useEffect(() => {
+    if (project) document.title = `${project.title} | Isaksweb Home`;
+  }, [project]);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <nav className="sticky top-0 z-50 bg-gray-900/95 backdrop-blur-sm border-b border-gray-800">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <a
+            href="/#projects"
+            onClick={(e) => {
+              e.preventDefault();
+              onBack();
+            }}
+            className="inline-flex items-center gap-2 text-gray-300 hover:text-white transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            All projects
+          </a>
+        </div>
+      </nav>
+
+      <main className="max-w-4xl mx-auto px-4 py-16">
+        {notFound && (
+          <div className="text-center">
+            <h1 className="text-3xl font-bold mb-4">Project not found</h1>
+            <p className="text-gray-400">
+              It may have been renamed or taken down.
+            </p>
+          </div>
+        )}
+
+        {!project && !notFound && (
+          <p className="text-center text-gray-400">Loading...</p>
+        )}
+
+        {project && (
+          <article>
+            <header className="mb-12">
+              <h1 className="text-5xl font-bold mb-6">{project.title}</h1>
+              {project.descriptionHtml && (
+                <div
+                  className="markdown text-xl text-gray-400 mb-6"
+                  dangerouslySetInnerHTML={{ __html: project.descriptionHtml }}
+                />
+              )}
+              <div className="flex flex-wrap gap-6 text-gray-300 mb-6">
+                {project.role && (
+                  <span className="flex items-center gap-2">
+                    <User className="w-4 h-4 text-blue-400" />
+                    {project.role}
+                  </span>
+                )}
+                {project.timeline && (
+                  <span className="flex items-center gap-2">
+                    <Clock className="w-4 h-4 text-blue-400" />
+                    {project.timeline}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2 mb-6">
+                {project.tech.map((tech, i) => (
+                  <span
+                    key={i}
+                    className="px-2 py-1 bg-blue-900 text-blue-200 rounded text-sm"
+                  >
+                    {tech}
+                  </span>
+                ))}
+              </div>
+              <div className="flex gap-4">
+                {project.demoUrl && (
+                  <a
+                    href={project.demoUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 px-6 py-3 rounded-lg transition-colors"
+                  >
+                    <ExternalLink className="w-5 h-5" />
+                    Live Demo
+                  </a>
+                )}
+                {project.sourceUrl && (
+                  <a
+                    href={project.sourceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 border border-gray-600 hover:border-gray-500 px-6 py-3 rounded-lg transition-colors"
+                  >
+                    <Github className="w-5 h-5" />
+                    Source
+                  </a>
+                )}
+              </div>
+            </header>
+
+            {project.coverImage && (
+              <Picture
+                image={project.coverImage}
+                size="full"
+                className="w-full h-auto rounded-lg mb-12"
+              />
+            )}
+
+            {project.caseStudyHtml && (
+              <section
+                className="markdown mb-12 text-lg text-gray-300 leading-relaxed"
+                dangerouslySetInnerHTML={{ __html: project.caseStudyHtml }}
+              />
+            )}
+
+            <div className="grid md:grid-cols-2 gap-8">
+              {project.challenges.length > 0 && (
+                <section className="bg-gray-800 p-6 rounded-lg border border-gray-700">
+                  <h2 className="text-xl font-semibold mb-4 text-purple-400">
+                    Challenges
+                  </h2>
+                  <ul className="list-disc list-inside space-y-2 text-gray-300">
+                    {project.challenges.map((challenge, i) => (
+                      <li key={i}>{challenge}</li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+              {project.outcomes.length > 0 && (
+                <section className="bg-gray-800 p-6 rounded-lg border border-gray-700">
+                  <h2 className="text-xl font-semibold mb-4 text-green-400">
+                    Outcomes
+                  </h2>
+                  <ul className="list-disc list-inside space-y-2 text-gray-300">
+                    {project.outcomes.map((outcome, i) => (
+                      <li key={i}>{outcome}</li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+            </div>
+
+            {project.gallery.length > 0 && (
+              <section className="mt-12">
+                <h2 className="text-2xl font-semibold mb-6">Gallery</h2>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  {project.gallery.map((image) => (
+                    <a
+                      key={image.url}
+                      href={image.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      <Picture
+                        image={image}
+                        size="thumbnail"
+                        className="w-full h-40 object-cover rounded-lg border border-gray-700 hover:border-blue-400 transition-colors"
+                      />
+                    </a>
+                  ))}
+                </div>
+              </section>
+            )}
+          </article>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+// frontend/src/components/SiteSearch.tsx
+import React, { useState, useEffect } from "react";
+import type { ReactNode } from "react";
+import { Search, X } from "lucide-react";
+import axios from "axios";
+
+// Highlighted fields are HTML from the server: escaped text with the
+// matching words in <mark>
+interface ProjectResult {
+  project: { id: number; slug: string };
+  highlights: {
+    title: string;
+    description: string | null;
+    tech: string[];
+  };
+}
+
+interface SkillResult {
+  skill: { id: string; level: number };
+  highlights: { name: string };
+}
+
+interface SearchResults {
+  projects: ProjectResult[];
+  skills: SkillResult[];
+}
+
+interface SiteSearchProps {
+  onOpenProject: (slug: string) => void;
+  // Shown instead of the results while the search box is empty
+  children: ReactNode;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 250;
+
+export const SiteSearch: React.FC<SiteSearchProps> = ({
+  onOpenProject,
+  children,
+}) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [searching, setSearching] = useState(false);
+  const isActive = query.trim() !== "";
+
+  useEffect(() => {
+    if (!isActive) {
+      setResults(null);
+      setSearching(false);
+      return;
+    }
+
+    let isCancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await axios.get("/api/search", {
+          params: { q: query },
+        });
+        if (!isCancelled) setResults(response.data);
+      } catch (error) {
+        console.error("Search failed:", error);
+        if (!isCancelled) setResults({ projects: [], skills: [] });
+      } finally {
+        if (!isCancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, isActive]);
+
+  const hasResults =
+    results && (results.projects.length > 0 || results.skills.length > 0);
+
+  return (
+    <div>
+      <div className="relative max-w-xl mx-auto mb-8">
+        <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search projects and skills"
+          aria-label="Search projects and skills"
+          className="w-full bg-gray-800 border border-gray-700 focus:border-blue-500 rounded-lg pl-12 pr-12 py-3 text-white outline-none"
+        />
+        {isActive && (
+          <button
+            onClick={() => setQuery("")}
+            className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 hover:text-white"
+            aria-label="Clear search"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      {!isActive && children}
+
+      {isActive && !results && (
+        <p className="text-center text-gray-400">Searching...</p>
+      )}
+
+      {isActive && results && !hasResults && !searching && (
+        <div className="text-center py-12">
+          <p className="text-xl text-gray-300 mb-2">
+            No results for “{query.trim()}”
+          </p>
+          <p className="text-gray-400">
+            Try a different word, or a technology like React or Node.js.
+          </p>
+        </div>
+      )}
+
+      {isActive && results && hasResults && (
+        <div className="search-results space-y-8">
+          {results.projects.length > 0 && (
+            <div className="space-y-4">
+              {results.projects.map(({ project, highlights }) => (
+                <a
+                  key={project.id}
+                  href={`/projects/${encodeURIComponent(project.slug)}`}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    onOpenProject(project.slug);
+                  }}
+                  className="block bg-gray-800 rounded-lg p-6 border border-gray-700 hover:border-blue-500 transition-colors"
+                >
+                  <h3
+                    className="text-xl font-semibold text-white mb-2"
+                    dangerouslySetInnerHTML={{ __html: highlights.title }}
+                  />
+                  {highlights.description && (
+                    <p
+                      className="text-gray-300 mb-4"
+                      dangerouslySetInnerHTML={{
+                        __html: highlights.description,
+                      }}
+                    />
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {highlights.tech.map((tech, i) => (
+                      <span
+                        key={i}
+                        className="px-2 py-1 bg-blue-900 text-blue-200 rounded text-sm"
+                        dangerouslySetInnerHTML={{ __html: tech }}
+                      />
+                    ))}
+                  </div>
+                </a>
+              ))}
+            </div>
+          )}
+          {results.skills.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold text-gray-300 mb-4">
+                Skills
+              </h3>
+              <div className="flex flex-wrap gap-2">
+                {results.skills.map(({ skill, highlights }) => (
+                  <span
+                    key={skill.id}
+                    className="flex items-center gap-2 px-3 py-1 bg-gray-800 border border-gray-700 rounded-full"
+                  >
+                    <span
+                      dangerouslySetInnerHTML={{ __html: highlights.name }}
+                    />
+                    <span className="text-sm text-gray-400">
+                      {skill.level}%
+                    </span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
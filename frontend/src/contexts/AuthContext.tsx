@@ -1,16 +1,88 @@
 // frontend/src/contexts/AuthContext.tsx
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+} from "react";
 import type { ReactNode } from "react";
 import axios from "axios";
+import type { InternalAxiosRequestConfig } from "axios";
+
+export type Role = "admin" | "editor" | "viewer";
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: Role;
+  twoFactorEnabled: boolean;
+}
+
+// `retryAfter` is set, in seconds, when the server is throttling logins.
+// `twoFactorRequired` means the password was right and verifyTwoFactor must
+// be called with a code to finish signing in.
+export type LoginResult =
+  | { success: true }
+  | {
+      success: false;
+      retryAfter?: number;
+      twoFactorRequired?: boolean;
+      message?: string;
+    };
 
 interface AuthContextType {
   isAuthenticated: boolean;
   token: string | null;
-  login: (username: string, password: string) => Promise<boolean>;
+  user: AuthUser | null;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string) => Promise<LoginResult>;
+  // For responses that return the updated user, e.g. enabling 2FA
+  updateUser: (user: AuthUser) => void;
+  // Rejects with the API error so callers can show field messages
+  changePassword: (
+    currentPassword: string,
+    newPassword: string
+  ) => Promise<void>;
   logout: () => void;
+  // Revokes every session of the current user, this one included
+  signOutEverywhere: () => Promise<void>;
   loading: boolean;
 }
 
+interface SessionResponse {
+  token: string;
+  refreshToken?: string;
+  user: AuthUser;
+}
+
+// Requests that must not trigger a refresh when they come back 401
+const NO_REFRESH_URLS = [
+  "/api/auth/login",
+  "/api/auth/2fa/verify",
+  "/api/auth/refresh",
+  "/api/auth/logout",
+];
+
+const toFailedLogin = (
+  error: unknown
+): Extract<LoginResult, { success: false }> => {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return { success: false };
+  }
+  if (error.response.status === 429) {
+    return {
+      success: false,
+      retryAfter: Number(error.response.headers["retry-after"]) || 1,
+    };
+  }
+  return {
+    success: false,
+    message: error.response.data?.errors?.code ?? error.response.data?.message,
+  };
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 interface AuthProviderProps {
@@ -20,92 +92,184 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [token, setToken] = useState<string | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
+  // Read by the axios interceptor, so kept outside of React state
+  // There is no sessionStorage while rendering on the server
+  const refreshTokenRef = useRef<string | null>(
+    typeof sessionStorage === "undefined"
+      ? null
+      : sessionStorage.getItem("refreshToken")
+  );
+  const pendingRefresh = useRef<Promise<string | null> | null>(null);
+  // Proof of a correct password while waiting for the two-factor code
+  const challengeToken = useRef<string | null>(null);
 
-  useEffect(() => {
-    // Check for existing token in memory
-    const savedToken = sessionStorage.getItem("authToken");
-    if (savedToken) {
-      verifyToken(savedToken);
-    } else {
-      setLoading(false);
+  const storeSession = useCallback((session: SessionResponse) => {
+    setToken(session.token);
+    setUser(session.user);
+    setIsAuthenticated(true);
+    sessionStorage.setItem("authToken", session.token);
+    axios.defaults.headers.common["Authorization"] = `Bearer ${session.token}`;
+    if (session.refreshToken) {
+      refreshTokenRef.current = session.refreshToken;
+      sessionStorage.setItem("refreshToken", session.refreshToken);
     }
   }, []);
 
-  const verifyToken = async (tokenToVerify: string) => {
-    try {
-      const response = await axios.get("/api/auth/verify", {
-        headers: {
-          Authorization: `Bearer ${tokenToVerify}`,
-        },
+  const clearSession = useCallback(() => {
+    setToken(null);
+    setUser(null);
+    setIsAuthenticated(false);
+    refreshTokenRef.current = null;
+    sessionStorage.removeItem("authToken");
+    sessionStorage.removeItem("refreshToken");
+    delete axios.defaults.headers.common["Authorization"];
+  }, []);
+
+  // Resolves to a new access token, or null when the session has ended.
+  // Concurrent callers share one request because each refresh token can only
+  // be used once.
+  const refreshSession = useCallback((): Promise<string | null> => {
+    const refreshToken = refreshTokenRef.current;
+    if (!refreshToken) return Promise.resolve(null);
+
+    pendingRefresh.current ??= axios
+      .post("/api/auth/refresh", { refreshToken })
+      .then((response) => {
+        storeSession(response.data);
+        return response.data.token as string;
+      })
+      .catch((error) => {
+        console.error("Session refresh failed:", error);
+        clearSession();
+        return null;
+      })
+      .finally(() => {
+        pendingRefresh.current = null;
       });
+    return pendingRefresh.current;
+  }, [storeSession, clearSession]);
 
-      if (response.data.valid) {
-        setToken(tokenToVerify);
-        setIsAuthenticated(true);
-        axios.defaults.headers.common[
-          "Authorization"
-        ] = `Bearer ${tokenToVerify}`;
-      } else {
-        sessionStorage.removeItem("authToken");
-        setToken(null);
-        setIsAuthenticated(false);
-      }
-    } catch (error) {
-      console.error("Token verification failed:", error);
-      sessionStorage.removeItem("authToken");
-      setToken(null);
-      setIsAuthenticated(false);
-    } finally {
+  useEffect(() => {
+    // Resume the session saved for this tab, if any
+    if (refreshTokenRef.current) {
+      refreshSession().finally(() => setLoading(false));
+    } else {
       setLoading(false);
     }
-  };
+  }, [refreshSession]);
+
+  useEffect(() => {
+    // Access tokens are short-lived: renew once on a 401, then retry
+    const interceptor = axios.interceptors.response.use(
+      undefined,
+      async (error) => {
+        const request = error.config as
+          | (InternalAxiosRequestConfig & { retried?: boolean })
+          | undefined;
+        if (
+          error.response?.status !== 401 ||
+          !request ||
+          request.retried ||
+          NO_REFRESH_URLS.includes(request.url ?? "")
+        ) {
+          throw error;
+        }
+
+        const newToken = await refreshSession();
+        if (!newToken) throw error;
+
+        request.retried = true;
+        request.headers.Authorization = `Bearer ${newToken}`;
+        return axios(request);
+      }
+    );
+    return () => axios.interceptors.response.eject(interceptor);
+  }, [refreshSession]);
 
   const login = async (
     username: string,
     password: string
-  ): Promise<boolean> => {
+  ): Promise<LoginResult> => {
     try {
       const response = await axios.post("/api/auth/login", {
         username,
         password,
       });
 
+      if (response.data.twoFactorRequired) {
+        challengeToken.current = response.data.challengeToken;
+        return { success: false, twoFactorRequired: true };
+      }
       if (response.data.success && response.data.token) {
-        const newToken = response.data.token;
-        setToken(newToken);
-        setIsAuthenticated(true);
-        sessionStorage.setItem("authToken", newToken);
-        axios.defaults.headers.common["Authorization"] = `Bearer ${newToken}`;
-        return true;
+        storeSession(response.data);
+        return { success: true };
       }
-      return false;
+      return { success: false };
     } catch (error) {
       console.error("Login failed:", error);
-      return false;
+      return toFailedLogin(error);
     }
   };
 
+  const verifyTwoFactor = async (code: string): Promise<LoginResult> => {
+    try {
+      const response = await axios.post("/api/auth/2fa/verify", {
+        challengeToken: challengeToken.current,
+        code,
+      });
+      challengeToken.current = null;
+      storeSession(response.data);
+      return { success: true };
+    } catch (error) {
+      console.error("Two-factor verification failed:", error);
+      const result = toFailedLogin(error);
+      // A wrong code can be retried; anything else means starting over
+      if (
+        axios.isAxiosError(error) &&
+        (error.response?.status === 400 || error.response?.status === 429)
+      ) {
+        return { ...result, twoFactorRequired: true };
+      }
+      challengeToken.current = null;
+      return result;
+    }
+  };
+
+  const updateUser = (updated: AuthUser) => setUser(updated);
+
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string
+  ) => {
+    const response = await axios.post("/api/auth/change-password", {
+      currentPassword,
+      newPassword,
+    });
+    // The old token stops working once the password changes
+    storeSession(response.data);
+  };
+
   const logout = async () => {
     try {
-      if (token) {
-        await axios.post(
-          "/api/auth/logout",
-          {},
-          {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          }
-        );
+      if (refreshTokenRef.current) {
+        await axios.post("/api/auth/logout", {
+          refreshToken: refreshTokenRef.current,
+        });
       }
     } catch (error) {
       console.error("Logout error:", error);
     } finally {
-      setToken(null);
-      setIsAuthenticated(false);
-      sessionStorage.removeItem("authToken");
-      delete axios.defaults.headers.common["Authorization"];
+      clearSession();
+    }
+  };
+
+  const signOutEverywhere = async () => {
+    try {
+      await axios.post("/api/auth/sessions/revoke-all");
+    } finally {
+      clearSession();
     }
   };
 
@@ -114,8 +278,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       value={{
         isAuthenticated,
         token,
+        user,
         login,
+        verifyTwoFactor,
+        updateUser,
+        changePassword,
         logout,
+        signOutEverywhere,
         loading,
       }}
     >
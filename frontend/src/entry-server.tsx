@@ -0,0 +1,18 @@
+// frontend/src/entry-server.tsx
+// Built with `vite build --ssr` into the server, which renders each page
+// with the same data it then embeds for the client to hydrate from
+import { StrictMode } from "react";
+import { renderToString } from "react-dom/server";
+import App from "./App.tsx";
+import type { InitialData } from "./App.tsx";
+import { AuthProvider } from "./contexts/AuthContext.tsx";
+
+export function render(path: string, initialData: InitialData): string {
+  return renderToString(
+    <StrictMode>
+      <AuthProvider>
+        <App initialData={initialData} path={path} />
+      </AuthProvider>
+    </StrictMode>
+  );
+}
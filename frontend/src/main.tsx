@@ -1,13 +1,25 @@
 import { StrictMode } from "react";
-import { createRoot } from "react-dom/client";
+import { createRoot, hydrateRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import type { InitialData } from "./App.tsx";
 import { AuthProvider } from "./contexts/AuthContext.tsx";
 
-createRoot(document.getElementById("root")!).render(
+// Set by the server when it rendered the page; absent in the Vite dev server
+const embedded = document.getElementById("initial-data")?.textContent;
+const initialData: InitialData | null = embedded ? JSON.parse(embedded) : null;
+
+const root = document.getElementById("root")!;
+const app = (
   <StrictMode>
     <AuthProvider>
-      <App />
+      <App initialData={initialData} />
     </AuthProvider>
   </StrictMode>
 );
+
+if (initialData) {
+  hydrateRoot(root, app);
+} else {
+  createRoot(root).render(app);
+}
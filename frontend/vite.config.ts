@@ -2,7 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
   server: {
     proxy: {
@@ -10,6 +10,10 @@ export default defineConfig({
         changeOrigin: true,
         target: "http://localhost:3000",
       },
+      "/media": {
+        changeOrigin: true,
+        target: "http://localhost:3000",
+      },
     },
     headers: {
       // Set some headers to avoid cache issues in browsers
@@ -18,8 +22,22 @@ export default defineConfig({
       Expires: "0",
     },
   },
-  build: {
-    outDir: "../server/frontend",
-    emptyOutDir: true,
+  // The server is CommonJS and has none of the frontend's dependencies, so
+  // the SSR bundle includes them and is emitted as CommonJS
+  ssr: {
+    noExternal: true,
   },
-});
+  build: isSsrBuild
+    ? {
+        outDir: "../server/ssr",
+        copyPublicDir: false,
+        emptyOutDir: true,
+        rollupOptions: {
+          output: { format: "cjs", entryFileNames: "[name].cjs" },
+        },
+      }
+    : {
+        outDir: "../server/frontend",
+        emptyOutDir: true,
+      },
+}));
@@ -0,0 +1,32 @@
+import { FieldChange } from "./storage";
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// The fields that differ between two versions of a record. Pass null as
+// `before` for a creation and as `after` for a deletion. Ids are left out
+// since audit entries carry them separately, and so is updatedAt, which
+// every change touches.
+export function diffRecords(
+  before: object | null,
+  after: object | null
+): Record<string, FieldChange> {
+  const beforeFields = (before ?? {}) as Record<string, unknown>;
+  const afterFields = (after ?? {}) as Record<string, unknown>;
+  const changes: Record<string, FieldChange> = {};
+
+  const keys = new Set([
+    ...Object.keys(beforeFields),
+    ...Object.keys(afterFields),
+  ]);
+  for (const key of keys) {
+    if (key === "id" || key === "updatedAt") continue;
+    const previous = beforeFields[key] ?? null;
+    const next = afterFields[key] ?? null;
+    if (!isEqual(previous, next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
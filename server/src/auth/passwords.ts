@@ -0,0 +1,75 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+// scrypt cost parameters; stored alongside each hash so they can be raised
+// later without invalidating existing passwords
+const COST = 2 ** 15;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const MAX_MEMORY = 64 * 1024 * 1024;
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  cost: number,
+  blockSize: number,
+  parallelization: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      KEY_LENGTH,
+      { N: cost, r: blockSize, p: parallelization, maxmem: MAX_MEMORY },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+// Hashes a password with a random salt. The result looks like
+// `scrypt$N$r$p$salt$hash` with salt and hash in base64.
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(
+    password,
+    salt,
+    COST,
+    BLOCK_SIZE,
+    PARALLELIZATION
+  );
+  return [
+    "scrypt",
+    COST,
+    BLOCK_SIZE,
+    PARALLELIZATION,
+    salt.toString("base64"),
+    key.toString("base64"),
+  ].join("$");
+}
+
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [algorithm, cost, blockSize, parallelization, salt, hash] =
+    storedHash.split("$");
+  if (algorithm !== "scrypt" || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64");
+  const actual = await deriveKey(
+    password,
+    Buffer.from(salt, "base64"),
+    Number(cost),
+    Number(blockSize),
+    Number(parallelization)
+  );
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// A valid hash of a random password, checked against when a username does
+// not exist so that a failed login takes the same time either way
+let dummyHash: Promise<string> | undefined;
+export function getDummyHash(): Promise<string> {
+  dummyHash ??= hashPassword(randomBytes(16).toString("hex"));
+  return dummyHash;
+}
@@ -0,0 +1,119 @@
+// Tracks failed logins per key (an IP address or a username) in memory.
+// After `freeAttempts` failures each further attempt has to wait twice as
+// long as the one before, and after `lockoutAfter` failures the key is locked
+// out entirely. Counters are forgotten once a key has been quiet for
+// `resetAfterMs`. Attempts still being checked count as failures until they
+// finish, so a burst of parallel guesses can't all get in before the first
+// one is recorded.
+
+export interface ThrottleOptions {
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  lockoutAfter: number;
+  lockoutMs: number;
+  resetAfterMs: number;
+}
+
+interface Entry {
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number;
+}
+
+// Above this many keys, stale entries are swept on the next failure
+const SWEEP_THRESHOLD = 10000;
+
+export interface LoginThrottle {
+  // Milliseconds until `key` may try again; 0 when it may try now
+  retryAfterMs(key: string): number;
+  // Marks an attempt as under way; call the returned function once it has
+  // been recorded as a failure or reset
+  begin(key: string): () => void;
+  // Returns true when this failure locked the key out
+  recordFailure(key: string): boolean;
+  reset(key: string): void;
+}
+
+export function createLoginThrottle(options: ThrottleOptions): LoginThrottle {
+  const entries = new Map<string, Entry>();
+  // Attempts under way per key
+  const pending = new Map<string, number>();
+
+  const isStale = (entry: Entry, now: number) =>
+    entry.blockedUntil <= now &&
+    now - entry.lastFailureAt > options.resetAfterMs;
+
+  function getEntry(key: string, now: number): Entry | undefined {
+    const entry = entries.get(key);
+    if (entry && isStale(entry, now)) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  function sweep(now: number) {
+    for (const [key, entry] of entries) {
+      if (isStale(entry, now)) entries.delete(key);
+    }
+  }
+
+  return {
+    retryAfterMs(key) {
+      const now = Date.now();
+      const entry = getEntry(key, now);
+      const blockedMs = entry ? Math.max(0, entry.blockedUntil - now) : 0;
+      if (blockedMs > 0) return blockedMs;
+
+      // Pending attempts may all still fail; if that would use up the free
+      // ones, the next has to wait for them
+      const inFlight = pending.get(key) ?? 0;
+      const failures = (entry?.failures ?? 0) + inFlight;
+      return inFlight > 0 && failures >= options.freeAttempts
+        ? options.baseDelayMs
+        : 0;
+    },
+
+    begin(key) {
+      pending.set(key, (pending.get(key) ?? 0) + 1);
+      let isDone = false;
+      return () => {
+        if (isDone) return;
+        isDone = true;
+        const count = (pending.get(key) ?? 1) - 1;
+        if (count > 0) pending.set(key, count);
+        else pending.delete(key);
+      };
+    },
+
+    recordFailure(key) {
+      const now = Date.now();
+      if (entries.size > SWEEP_THRESHOLD) sweep(now);
+
+      const entry = getEntry(key, now) ?? {
+        failures: 0,
+        lastFailureAt: now,
+        blockedUntil: 0,
+      };
+      entry.failures++;
+      entry.lastFailureAt = now;
+      entries.set(key, entry);
+
+      if (entry.failures >= options.lockoutAfter) {
+        entry.blockedUntil = now + options.lockoutMs;
+        return true;
+      }
+      if (entry.failures >= options.freeAttempts) {
+        const delay =
+          options.baseDelayMs * 2 ** (entry.failures - options.freeAttempts);
+        entry.blockedUntil = now + Math.min(delay, options.maxDelayMs);
+      }
+      return false;
+    },
+
+    reset(key) {
+      entries.delete(key);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { createHash, randomBytes } from "crypto";
+
+// Refresh tokens look like `<session id>.<secret>`. Only a hash of the secret
+// is stored, so a leaked database can't be used to resume sessions.
+
+export function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export function createRefreshSecret(): { secret: string; hash: string } {
+  const secret = randomBytes(32).toString("base64url");
+  return { secret, hash: hashSecret(secret) };
+}
+
+export function formatRefreshToken(sessionId: string, secret: string): string {
+  return `${sessionId}.${secret}`;
+}
+
+// Resolves to null when the token isn't shaped like one we issued
+export function parseRefreshToken(
+  token: string
+): { sessionId: string; hash: string } | null {
+  const [sessionId, secret, ...rest] = token.split(".");
+  if (!sessionId || !secret || rest.length > 0) return null;
+  return { sessionId, hash: hashSecret(secret) };
+}
@@ -0,0 +1,92 @@
+import { createHash } from "crypto";
+
+// Keeps serialized public responses in memory until the data behind them
+// changes. Entries are rendered on first use, shared by concurrent requests
+// and thrown away on invalidate() or once they expire.
+
+export interface CachedResponse {
+  body: string;
+  // Strong: a hash of the exact bytes of `body`
+  etag: string;
+  lastModified: Date;
+}
+
+export interface RenderedResponse {
+  body: unknown;
+  // Epoch milliseconds; sooner than the cache's TTL, e.g. when a scheduled
+  // project is due to appear
+  expiresAt?: number | null;
+}
+
+interface Entry extends CachedResponse {
+  expiresAt: number;
+  stale: boolean;
+}
+
+export interface ResponseCache {
+  get(
+    key: string,
+    render: () => Promise<RenderedResponse>
+  ): Promise<CachedResponse>;
+  // Call after any write that may change what the public sees
+  invalidate(): void;
+}
+
+export function createResponseCache(options: { ttlMs: number }): ResponseCache {
+  const entries = new Map<string, Entry>();
+  const pending = new Map<string, Promise<CachedResponse>>();
+  // Bumped on invalidate so renders that started before it aren't kept
+  let generation = 0;
+
+  async function refresh(
+    key: string,
+    render: () => Promise<RenderedResponse>
+  ): Promise<CachedResponse> {
+    const startedIn = generation;
+    const rendered = await render();
+    const body = JSON.stringify(rendered.body);
+    const etag = `"${createHash("sha256").update(body).digest("base64url")}"`;
+
+    // Unchanged content keeps its date, so If-Modified-Since still matches
+    const previous = entries.get(key);
+    const entry: Entry = {
+      body,
+      etag,
+      lastModified:
+        previous?.etag === etag ? previous.lastModified : new Date(),
+      expiresAt: Math.min(
+        Date.now() + options.ttlMs,
+        rendered.expiresAt ?? Infinity
+      ),
+      stale: false,
+    };
+    if (startedIn === generation) entries.set(key, entry);
+    return entry;
+  }
+
+  return {
+    get(key, render) {
+      const entry = entries.get(key);
+      if (entry && !entry.stale && entry.expiresAt > Date.now()) {
+        return Promise.resolve(entry);
+      }
+
+      const inFlight = pending.get(key);
+      if (inFlight) return inFlight;
+
+      const result: Promise<CachedResponse> = refresh(key, render).finally(
+        () => {
+          if (pending.get(key) === result) pending.delete(key);
+        }
+      );
+      pending.set(key, result);
+      return result;
+    },
+
+    invalidate() {
+      generation++;
+      pending.clear();
+      for (const entry of entries.values()) entry.stale = true;
+    },
+  };
+}
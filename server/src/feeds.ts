@@ -0,0 +1,152 @@
+import { escapeHtml } from "./highlight";
+
+// Discovery documents for search engines and feed readers: a sitemap, and
+// the same list of projects as RSS 2.0, Atom and JSON Feed.
+
+export interface SitemapEntry {
+  // Absolute
+  url: string;
+  // ISO timestamp; left out when unknown
+  lastModified: string | null;
+}
+
+export interface FeedItem {
+  url: string;
+  title: string;
+  // Plain text
+  summary: string;
+  contentHtml: string | null;
+  image: string | null;
+  tags: string[];
+  // ISO timestamps
+  published: string;
+  updated: string;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  author: string;
+  siteUrl: string;
+  // ISO timestamp of the newest change to any item
+  updated: string;
+  // Newest first
+  items: FeedItem[];
+}
+
+// The HTML entities are all valid in XML too
+const xml = escapeHtml;
+
+export function renderSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) =>
+    [
+      "  <url>",
+      `    <loc>${xml(entry.url)}</loc>`,
+      ...(entry.lastModified
+        ? [`    <lastmod>${xml(entry.lastModified)}</lastmod>`]
+        : []),
+      "  </url>",
+    ].join("\n")
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+// RSS dates are RFC 822
+const rssDate = (iso: string) => new Date(iso).toUTCString();
+
+export function renderRss(feed: Feed, feedUrl: string): string {
+  const items = feed.items.map((item) =>
+    [
+      "    <item>",
+      `      <title>${xml(item.title)}</title>`,
+      `      <link>${xml(item.url)}</link>`,
+      `      <guid isPermaLink="true">${xml(item.url)}</guid>`,
+      `      <pubDate>${rssDate(item.published)}</pubDate>`,
+      `      <description>${xml(
+        item.contentHtml ?? item.summary
+      )}</description>`,
+      ...item.tags.map((tag) => `      <category>${xml(tag)}</category>`),
+      "    </item>",
+    ].join("\n")
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "  <channel>",
+    `    <title>${xml(feed.title)}</title>`,
+    `    <link>${xml(feed.siteUrl)}</link>`,
+    `    <description>${xml(feed.description)}</description>`,
+    `    <atom:link href="${xml(
+      feedUrl
+    )}" rel="self" type="application/rss+xml" />`,
+    `    <lastBuildDate>${rssDate(feed.updated)}</lastBuildDate>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+export function renderAtom(feed: Feed, feedUrl: string): string {
+  const entries = feed.items.map((item) =>
+    [
+      "  <entry>",
+      `    <title>${xml(item.title)}</title>`,
+      `    <link href="${xml(item.url)}" />`,
+      `    <id>${xml(item.url)}</id>`,
+      `    <published>${xml(item.published)}</published>`,
+      `    <updated>${xml(item.updated)}</updated>`,
+      `    <summary type="text">${xml(item.summary)}</summary>`,
+      ...(item.contentHtml
+        ? [`    <content type="html">${xml(item.contentHtml)}</content>`]
+        : []),
+      ...item.tags.map((tag) => `    <category term="${xml(tag)}" />`),
+      "  </entry>",
+    ].join("\n")
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${xml(feed.title)}</title>`,
+    `  <subtitle>${xml(feed.description)}</subtitle>`,
+    `  <link href="${xml(feed.siteUrl)}" />`,
+    `  <link href="${xml(feedUrl)}" rel="self" />`,
+    `  <id>${xml(feed.siteUrl)}</id>`,
+    `  <updated>${xml(feed.updated)}</updated>`,
+    `  <author><name>${xml(feed.author)}</name></author>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+// JSON Feed 1.1, https://www.jsonfeed.org/version/1.1/
+export function renderJsonFeed(feed: Feed, feedUrl: string) {
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: feed.siteUrl,
+    feed_url: feedUrl,
+    description: feed.description,
+    authors: [{ name: feed.author }],
+    items: feed.items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      ...(item.contentHtml
+        ? { content_html: item.contentHtml }
+        : { content_text: item.summary }),
+      ...(item.image ? { image: item.image } : {}),
+      tags: item.tags,
+      date_published: item.published,
+      date_modified: item.updated,
+    })),
+  };
+}
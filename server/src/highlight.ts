@@ -0,0 +1,58 @@
+// Marks the words a search matched. Output is HTML: the text is escaped and
+// every word starting with one of the search terms is wrapped in <mark>,
+// the same way the storage backends match words.
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+const isMatch = (word: string, terms: string[]) =>
+  terms.some((term) => word.toLowerCase().startsWith(term));
+
+export function highlight(text: string, terms: string[]): string {
+  // Splitting on a capture group leaves the words at the odd indexes
+  return text
+    .split(/([\p{L}\p{N}]+)/u)
+    .map((part, i) =>
+      i % 2 === 1 && isMatch(part, terms)
+        ? `<mark>${escapeHtml(part)}</mark>`
+        : escapeHtml(part)
+    )
+    .join("");
+}
+
+// About `length` characters of `text` starting a little before the first
+// match, highlighted. Cut-off ends are marked with an ellipsis.
+export function highlightSnippet(
+  text: string,
+  terms: string[],
+  length = 160
+): string {
+  const words = [...text.matchAll(/[\p{L}\p{N}]+/gu)];
+  const first = words.find((word) => isMatch(word[0], terms));
+  let start = Math.max(0, (first?.index ?? 0) - 40);
+  // Don't start halfway through a word
+  if (start > 0) {
+    const nextWord = words.find((word) => (word.index ?? 0) >= start);
+    start = nextWord?.index ?? start;
+  }
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) {
+    const lastSpace = text.lastIndexOf(" ", end);
+    if (lastSpace > start) end = lastSpace;
+  }
+
+  return (
+    (start > 0 ? "…" : "") +
+    highlight(text.slice(start, end), terms) +
+    (end < text.length ? "…" : "")
+  );
+}
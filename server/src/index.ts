@@ -1,90 +1,202 @@
 console.time("Total startup time");
-import express, { Request, Response } from "express";
+import express, { Request, Response, NextFunction } from "express";
 import path from "path";
-import mongoose from "mongoose";
+import { randomUUID } from "crypto";
 import jwt from "jsonwebtoken";
 import dotenv from "dotenv";
+import {
+  validateBody,
+  validateIdParam,
+  validateNumberParam,
+  validateQuery,
+  projectQuery,
+  skillQuery,
+  searchQuery,
+  revisionDiffQuery,
+  activityQuery,
+  projectBody,
+  projectOrderBody,
+  skillBody,
+  skillsBody,
+  skillOrderBody,
+  techTaxonomyBody,
+  learningBody,
+  loginBody,
+  markdownPreviewBody,
+  changePasswordBody,
+  contactBody,
+  contactMessageQuery,
+  contactMessageStatusBody,
+  refreshTokenBody,
+  passwordBody,
+  twoFactorCodeBody,
+  twoFactorLoginBody,
+  userBody,
+  userRoleBody,
+} from "./validation";
+import { hashPassword, verifyPassword, getDummyHash } from "./auth/passwords";
+import {
+  createRefreshSecret,
+  formatRefreshToken,
+  hashSecret,
+  parseRefreshToken,
+} from "./auth/tokens";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  totpUri,
+  verifyTotp,
+} from "./auth/totp";
+import { createLoginThrottle } from "./auth/throttle";
+import { diffRecords } from "./audit";
+import { createResponseCache, RenderedResponse } from "./cache";
+import {
+  markdownToText,
+  renderMarkdown,
+  renderOptionalMarkdown,
+} from "./markdown";
+import { highlight, highlightSnippet } from "./highlight";
+import {
+  Feed,
+  renderAtom,
+  renderJsonFeed,
+  renderRss,
+  renderSitemap,
+} from "./feeds";
+import { createPageRenderer, PageMeta, summarize } from "./pages";
+import { paginate, SortDirection, SortKey } from "./pagination";
+import {
+  buildTechIndex,
+  countTechs,
+  findTaxonomyConflicts,
+  normalizeTechs,
+  techKey,
+  TechEntry,
+  TechIndex,
+} from "./taxonomy";
+import {
+  createLocalMediaStore,
+  IMAGE_CONTENT_TYPES,
+  imageKeys,
+  MEDIA_KEY_PATTERN,
+  storeImage,
+} from "./media";
+import {
+  AuditAction,
+  AuditResource,
+  ContactMessageChanges,
+  createStorage,
+  FieldChange,
+  DuplicateValueError,
+  Project,
+  ProjectImage,
+  Role,
+  ROLES,
+  searchTerms,
+  Session,
+  Skill,
+  SkillInput,
+  StorageBackend,
+  TrashedProject,
+  User,
+} from "./storage";
 
 // Load environment variables
 dotenv.config();
 
 // ---------------- Configuration variables ----------------
-let isReady = false;
+let defaultDataInitialized = false;
+let isShuttingDown = false;
 
-// ---------------- MongoDB Connection ----------------
+const RETRY_AFTER_SECONDS = 5;
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS || 10000);
 
-const MONGODB_URI =
-  process.env.MONGO_URI || "mongodb://localhost:27017/portfolio";
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-
-console.time("MongoDB connection");
-mongoose
-  .connect(MONGODB_URI)
-  .then(() => {
-    console.log("Connected to MongoDB");
-    console.timeEnd("MongoDB connection");
-  })
-  .catch((error) => console.error("MongoDB connection error:", error));
-
-// ---------------- Mongoose Schemas ----------------
-
-const projectSchema = new mongoose.Schema(
-  {
-    id: { type: Number, unique: true, required: true },
-    title: { type: String, required: true },
-    description: { type: String, default: null },
-    tech: [{ type: String }],
-    demoUrl: { type: String },
-    sourceUrl: { type: String },
-    featured: { type: Boolean, default: false },
-  },
-  { timestamps: true }
-);
-
-const skillSchema = new mongoose.Schema(
-  {
-    name: { type: String, required: true },
-    level: { type: Number, required: true, min: 0, max: 100 },
-    category: {
-      type: String,
-      required: true,
-      enum: ["frontend", "backend", "tools", "database", "other"],
-    },
-  },
-  { timestamps: true }
+// Access tokens are short-lived; clients renew them with a refresh token
+const ACCESS_TOKEN_TTL_SECONDS = Number(
+  process.env.ACCESS_TOKEN_TTL_SECONDS || 900
 );
-
-const settingsSchema = new mongoose.Schema(
-  {
-    key: { type: String, required: true, unique: true },
-    value: { type: mongoose.Schema.Types.Mixed, required: true },
-  },
-  { timestamps: true }
+// A session ends after this many days without a refresh
+const SESSION_TTL_DAYS = Number(process.env.SESSION_TTL_DAYS || 30);
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+// How long a username or IP address stays locked out after repeated failures
+const LOGIN_LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15);
+const FAILED_LOGIN_RETENTION_DAYS = Number(
+  process.env.FAILED_LOGIN_RETENTION_DAYS || 30
+);
+// Deleted projects stay in the trash this long before being purged
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS || 30);
+// Shown next to the account name in authenticator apps
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "isaksweb";
+// Time allowed between the password and the two-factor code
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+// Set when running behind a reverse proxy so req.ip is the client's address;
+// a number of hops or any value Express accepts for "trust proxy"
+const TRUST_PROXY = process.env.TRUST_PROXY;
+
+// Public data is cached in memory until a dashboard write, or for at most
+// this long in case another instance changed the database
+const PUBLIC_CACHE_TTL_SECONDS = Number(
+  process.env.PUBLIC_CACHE_TTL_SECONDS || 300
 );
+// Sent with public API responses. The default lets browsers and CDNs keep
+// a copy but check back every time, which costs a 304 when nothing changed.
+const PUBLIC_CACHE_CONTROL =
+  process.env.PUBLIC_CACHE_CONTROL || "public, no-cache";
+
+// Public address of the site, e.g. https://example.com, for canonical URLs
+// and link previews. Defaults to the host each request was made to.
+const SITE_URL = process.env.SITE_URL;
+const SITE_NAME = "Isaksweb Home";
+const SITE_DESCRIPTION =
+  "Full-stack developer crafting modern web experiences with type-safe code and cutting-edge technologies.";
+const SITE_AUTHOR = "Isak Grönlund";
+
+// Paths crawlers are asked to skip, comma-separated. ROBOTS_ALLOW_INDEXING
+// set to "false" asks them to skip the whole site, e.g. on a staging copy.
+const ROBOTS_DISALLOW = (process.env.ROBOTS_DISALLOW ?? "/api/")
+  .split(",")
+  .map((path) => path.trim())
+  .filter(Boolean);
+const ROBOTS_ALLOW_INDEXING = process.env.ROBOTS_ALLOW_INDEXING !== "false";
+// Projects in each feed, most recently published first
+const FEED_SIZE = 20;
+
+// Contact form posts sooner than this after the form was loaded are taken
+// to be from bots. Forms older than the TTL have to be reloaded.
+const CONTACT_MIN_FILL_SECONDS = Number(
+  process.env.CONTACT_MIN_FILL_SECONDS || 3
+);
+const CONTACT_FORM_TTL_SECONDS = 60 * 60;
 
-// Models
-const Project = mongoose.model("Project", projectSchema);
-const Skill = mongoose.model("Skill", skillSchema);
-const Settings = mongoose.model("Settings", settingsSchema);
+// Uploaded images are kept here and may be at most this large
+const MEDIA_DIR = process.env.MEDIA_DIR || "uploads";
+const MAX_UPLOAD_MB = Number(process.env.MAX_UPLOAD_MB || 10);
 
-// ---------------- Interfaces ----------------
+// ---------------- Storage ----------------
 
-interface Project {
-  id: number;
-  title: string;
-  description: string | null;
-  tech: string[];
-  demoUrl?: string;
-  sourceUrl?: string;
-  featured: boolean;
-}
+// "mongo" (default), "memory" or "file"
+const storage = createStorage({
+  backend: (process.env.STORAGE_BACKEND || "mongo") as StorageBackend,
+  mongoUri: process.env.MONGO_URI || "mongodb://localhost:27017/portfolio",
+  filePath: process.env.STORAGE_FILE || "data/portfolio.json",
+});
 
-interface Skill {
-  name: string;
-  level: number;
-  category: "frontend" | "backend" | "tools" | "database" | "other";
+const media = createLocalMediaStore(MEDIA_DIR);
+
+// Handlers that change what visitors see invalidate it as soon as their
+// write has been stored
+const publicCache = createResponseCache({
+  ttlMs: PUBLIC_CACHE_TTL_SECONDS * 1000,
+});
+
+function isReady(): boolean {
+  return !isShuttingDown && defaultDataInitialized && storage.isConnected();
 }
 
+// ---------------- Interfaces ----------------
+
 interface LoginRequest {
   username: string;
   password: string;
@@ -93,63 +205,363 @@ interface LoginRequest {
 interface AuthResponse {
   success: boolean;
   token?: string;
+  refreshToken?: string;
+  // Set instead of tokens when the user still has to enter a TOTP code
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  user?: AuthUser;
   message?: string;
 }
 
+// The signed-in user, as exposed to clients and route handlers
+interface AuthUser {
+  id: string;
+  username: string;
+  role: Role;
+  twoFactorEnabled: boolean;
+}
+
+interface TokenPayload {
+  sub: string;
+  role: Role;
+  // Session the token was issued for
+  sid: string;
+  iat: number;
+}
+
+// Issued after a correct password when two-factor login is on. It names the
+// user but has no session, so verifyToken never accepts it.
+interface ChallengePayload {
+  sub: string;
+  purpose: "two-factor";
+}
+
+// Handed to the contact form when it loads; `iat` shows how long it took
+// to fill in, and `jti` lets each form be sent only once
+interface ContactFormPayload {
+  purpose: "contact";
+  jti: string;
+  iat: number;
+  exp: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      sessionId?: string;
+    }
+  }
+}
+
 // ---------------- Database Helpers ----------------
 
 async function initializeDefaultData() {
+  // Create the first user from the environment. Once any user exists the
+  // ADMIN_* variables are no longer read.
+  if ((await storage.users.count()) === 0) {
+    const username = process.env.ADMIN_USERNAME || "admin";
+    const password = process.env.ADMIN_PASSWORD || "password";
+    await storage.users.create({
+      username,
+      passwordHash: await hashPassword(password),
+      role: "admin",
+    });
+    console.log(`Initial user "${username}" created`);
+    if (!process.env.ADMIN_PASSWORD) {
+      console.warn(
+        "Initial user has the default password, change it from the Dashboard"
+      );
+    }
+  }
+
+  // Initialize default skills if none exist
+  const existingSkills = await storage.skills.list();
+  if (existingSkills.length === 0) {
+    const defaultSkills = [
+      { name: "TypeScript", level: 95, category: "frontend" as const },
+      { name: "React", level: 90, category: "frontend" as const },
+      { name: "Node.js", level: 85, category: "backend" as const },
+      { name: "MongoDB", level: 80, category: "database" as const },
+      { name: "TailwindCSS", level: 88, category: "frontend" as const },
+      { name: "Express.js", level: 95, category: "backend" as const },
+    ];
+    await storage.skills.replaceAll(defaultSkills);
+    console.log("Default skills created");
+  }
+
+  // Initialize currently learning if not set
+  const currentlyLearning = await storage.settings.get("currentlyLearning");
+  if (currentlyLearning === undefined) {
+    await storage.settings.set("currentlyLearning", [
+      "Typescript",
+      "React",
+      "TailwindCSS",
+    ]);
+    console.log("Currently learning initialized");
+  }
+
+  // Initialize the tech taxonomy with the usual spellings of common tags
+  const techTaxonomy = await storage.settings.get("techTaxonomy");
+  if (techTaxonomy === undefined) {
+    const defaultTaxonomy: TechEntry[] = [
+      { name: "JavaScript", aliases: ["js"] },
+      { name: "TypeScript", aliases: ["ts"] },
+      { name: "React", aliases: ["reactjs"] },
+      { name: "Node.js", aliases: ["node"] },
+      { name: "Express.js", aliases: ["express"] },
+      { name: "MongoDB", aliases: ["mongo"] },
+      { name: "TailwindCSS", aliases: ["tailwind"] },
+    ];
+    await storage.settings.set("techTaxonomy", defaultTaxonomy);
+    console.log("Tech taxonomy initialized");
+  }
+}
+
+// Connect, then seed defaults, retrying until both succeed
+async function startStorage() {
+  for (let attempt = 1; !isShuttingDown; attempt++) {
+    try {
+      await storage.connect();
+      if (isShuttingDown) return;
+      await initializeDefaultData();
+      defaultDataInitialized = true;
+      console.log(`Server ready with ${storage.name} storage`);
+      return;
+    } catch (error) {
+      const delay = Math.min(30000, 1000 * 2 ** (attempt - 1));
+      console.error(
+        `Error initializing storage, retrying in ${delay}ms:`,
+        error
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Appends to the audit log. A failure here is logged rather than reported,
+// since the change itself has already been saved.
+async function recordAudit(
+  req: Request,
+  action: AuditAction,
+  resource: AuditResource,
+  resourceId: string | number | null,
+  changes: Record<string, FieldChange>
+) {
+  if (Object.keys(changes).length === 0) return;
   try {
-    // Initialize default skills if none exist
-    const skillCount = await Skill.countDocuments();
-    if (skillCount === 0) {
-      const defaultSkills = [
-        { name: "TypeScript", level: 95, category: "frontend" as const },
-        { name: "React", level: 90, category: "frontend" as const },
-        { name: "Node.js", level: 85, category: "backend" as const },
-        { name: "MongoDB", level: 80, category: "database" as const },
-        { name: "TailwindCSS", level: 88, category: "frontend" as const },
-        { name: "Express.js", level: 95, category: "backend" as const },
-      ];
-      await Skill.insertMany(defaultSkills);
-      console.log("Default skills created");
-    }
-
-    // Initialize currently learning if not set
-    const currentlyLearning = await Settings.findOne({
-      key: "currentlyLearning",
+    await storage.audit.append({
+      userId: req.user!.id,
+      username: req.user!.username,
+      action,
+      resource,
+      resourceId: resourceId === null ? null : String(resourceId),
+      ip: req.ip ?? "unknown",
+      changes,
     });
-    if (!currentlyLearning) {
-      await Settings.create({
-        key: "currentlyLearning",
-        value: ["Typescript", "React", "TailwindCSS"],
+  } catch (error) {
+    console.error("Error writing audit entry:", error);
+  }
+}
+
+// Saves the project as it is now to its revision history. `previous` is the
+// version before this change; it is saved first if the project has no
+// history yet, so the first edit of an older project can still be undone.
+// Failures are logged like in recordAudit.
+async function recordRevision(
+  req: Request,
+  project: Project,
+  previous: Project | null = null
+) {
+  try {
+    if (
+      previous &&
+      (await storage.projectRevisions.list(project.id)).length === 0
+    ) {
+      await storage.projectRevisions.append({
+        project: previous,
+        userId: null,
+        username: null,
       });
-      console.log("Currently learning initialized");
     }
+    await storage.projectRevisions.append({
+      project,
+      userId: req.user!.id,
+      username: req.user!.username,
+    });
   } catch (error) {
-    console.error("Error initializing default data:", error);
+    console.error("Error saving project revision:", error);
   }
 }
 
-// Get next project ID
-async function getNextProjectId(): Promise<number> {
-  const lastProject = await Project.findOne().sort({ id: -1 });
-  return lastProject ? lastProject.id + 1 : 1;
+function duplicateValueResponse(error: DuplicateValueError) {
+  return {
+    success: false,
+    message: "Validation failed",
+    errors: { [error.field]: "Already in use" },
+  };
 }
 
 // ---------------- Authentication ----------------
 
-function generateToken(): string {
-  return jwt.sign({ authenticated: true }, JWT_SECRET, { expiresIn: "24h" });
+function toAuthUser(user: User): AuthUser {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    twoFactorEnabled: user.totpSecret !== null,
+  };
+}
+
+function generateToken(user: User, sessionId: string): string {
+  return jwt.sign(
+    { sub: user.id, role: user.role, sid: sessionId },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+}
+
+function sessionExpiry(): string {
+  return new Date(
+    Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+}
+
+function isSessionActive(session: Session | null): session is Session {
+  return (
+    session !== null &&
+    session.revokedAt === null &&
+    new Date(session.expiresAt).getTime() > Date.now()
+  );
+}
+
+// Usernames get a few free attempts; IP addresses are allowed more since
+// several people may share one
+const usernameThrottle = createLoginThrottle({
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutAfter: 10,
+  lockoutMs: LOGIN_LOCKOUT_MINUTES * 60 * 1000,
+  resetAfterMs: 60 * 60 * 1000,
+});
+const ipThrottle = createLoginThrottle({
+  freeAttempts: 10,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutAfter: 50,
+  lockoutMs: LOGIN_LOCKOUT_MINUTES * 60 * 1000,
+  resetAfterMs: 60 * 60 * 1000,
+});
+
+// Milliseconds until a login from this IP address for this throttle key may
+// be tried again
+function loginRetryAfterMs(ip: string, key: string): number {
+  return Math.max(
+    ipThrottle.retryAfterMs(ip),
+    usernameThrottle.retryAfterMs(key)
+  );
+}
+
+// Holds the attempt's place in both throttles until the returned function
+// is called, which must happen after any failure has been recorded
+function beginLoginAttempt(ip: string, key: string): () => void {
+  const finishIp = ipThrottle.begin(ip);
+  const finishKey = usernameThrottle.begin(key);
+  return () => {
+    finishIp();
+    finishKey();
+  };
+}
+
+function tooManyAttempts(
+  res: Response,
+  retryAfterMs: number,
+  message = "Too many login attempts"
+) {
+  const retryAfter = Math.ceil(retryAfterMs / 1000);
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({ success: false, message, retryAfter });
+}
+
+// Counts a failed password or code against the IP address and throttle key
+// and keeps a record of it for admins
+async function recordLoginFailure(req: Request, username: string, key: string) {
+  const ip = req.ip ?? "unknown";
+  const ipLockedOut = ipThrottle.recordFailure(ip);
+  const keyLockedOut = usernameThrottle.recordFailure(key);
+  await storage.failedLogins.record({
+    username,
+    ip,
+    userAgent: req.get("user-agent")?.slice(0, 300) ?? null,
+    lockedOut: ipLockedOut || keyLockedOut,
+  });
+}
+
+function generateChallengeToken(user: User): string {
+  return jwt.sign({ sub: user.id, purpose: "two-factor" }, JWT_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  });
+}
+
+// Accepts a current TOTP code that hasn't been used yet, or an unused
+// recovery code, which is then spent
+async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  const step = verifyTotp(user.totpSecret!, code);
+  if (step !== null) {
+    return storage.users.claimTotpStep(user.id, step);
+  }
+  return storage.users.useRecoveryCode(
+    user.id,
+    hashSecret(normalizeRecoveryCode(code))
+  );
+}
+
+// Opens a session for a successful login and returns its first token pair
+async function startSession(user: User, req: Request) {
+  const { secret, hash } = createRefreshSecret();
+  const session = await storage.sessions.create({
+    userId: user.id,
+    refreshTokenHash: hash,
+    userAgent: req.get("user-agent")?.slice(0, 300) ?? null,
+    expiresAt: sessionExpiry(),
+  });
+  return {
+    token: generateToken(user, session.id),
+    refreshToken: formatRefreshToken(session.id, secret),
+  };
 }
 
-async function verifyToken(token: string): Promise<boolean> {
+// Resolves to the token's user and session, or null when the token is
+// invalid, its session was revoked or expired, the user is gone, their role
+// changed, or the password changed after the token was issued
+async function verifyToken(
+  token: string
+): Promise<{ user: User; sessionId: string } | null> {
+  let payload: TokenPayload;
   try {
-    jwt.verify(token, JWT_SECRET);
-    return true;
+    payload = jwt.verify(token, JWT_SECRET) as TokenPayload;
   } catch (error) {
-    return false;
+    return null;
   }
+
+  if (typeof payload.sub !== "string" || typeof payload.sid !== "string") {
+    return null;
+  }
+
+  const [user, session] = await Promise.all([
+    storage.users.findById(payload.sub),
+    storage.sessions.findById(payload.sid),
+  ]);
+  if (!user || user.role !== payload.role) return null;
+  if (!isSessionActive(session) || session.userId !== user.id) return null;
+
+  const passwordChangedAt = Math.floor(
+    new Date(user.passwordChangedAt).getTime() / 1000
+  );
+  if (payload.iat < passwordChangedAt) return null;
+
+  return { user, sessionId: session.id };
 }
 
 // Middleware to check authentication
@@ -162,191 +574,315 @@ async function requireAuth(req: Request, res: Response, next: Function) {
       .json({ success: false, message: "No token provided" });
   }
 
-  const isValid = await verifyToken(token);
-  if (!isValid) {
+  const verified = await verifyToken(token);
+  if (!verified) {
     return res.status(401).json({ success: false, message: "Invalid token" });
   }
 
+  req.user = toAuthUser(verified.user);
+  req.sessionId = verified.sessionId;
   next();
 }
 
+// Roles are ordered, so an admin passes every editor check
+function hasRole(req: Request, minimum: Role): boolean {
+  return ROLES.indexOf(req.user!.role) >= ROLES.indexOf(minimum);
+}
+
+function forbidden(res: Response) {
+  return res
+    .status(403)
+    .json({ success: false, message: "Insufficient permissions" });
+}
+
+// Middleware to check the signed-in user's role; use after requireAuth
+function requireRole(minimum: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasRole(req, minimum)) {
+      return forbidden(res);
+    }
+    next();
+  };
+}
+
 // ---------------- Express ----------------
 
 const app = express();
 const PORT = Number(process.env.PORT || 3000);
 
+// Hashes of the exact response bytes rather than Express's weak default
+app.set("etag", "strong");
+
+if (TRUST_PROXY) {
+  app.set(
+    "trust proxy",
+    /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY
+  );
+}
+
 app.get("/favicon.ico", (req: Request, res: Response) => {
   res.sendFile(path.join(process.cwd(), "frontend", "favicon.jpg"));
 });
 
-app.use((req, res, next) => {
-  if (!isReady) {
-    res.setHeader("Retry-After", "10"); // Suggest client to retry after 10 seconds
-    return res.status(503).json({
-      success: false,
-      message: "Server is initializing, please try again later.",
-    });
+// ---------------- Health Routes ----------------
+
+// Liveness: the process is up, whatever the state of the database
+app.get("/healthz", async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    status: "ok",
+    uptimeSeconds: Math.round(process.uptime()),
+    database: await storage.check(),
+  });
+});
+
+// Readiness: the server can take traffic
+app.get("/readyz", async (req: Request, res: Response) => {
+  const database = await storage.check();
+  const ready = isReady() && database.latencyMs !== null;
+
+  if (!ready) {
+    res.setHeader("Retry-After", String(RETRY_AFTER_SECONDS));
+  }
+  res.status(ready ? 200 : 503).json({
+    success: ready,
+    status: ready ? "ready" : "unavailable",
+    database,
+  });
+});
+
+app.use((req: Request, res: Response, next: NextFunction) => {
+  if (!isReady()) {
+    let message = "Server is initializing, please try again later.";
+    if (isShuttingDown) {
+      message = "Server is shutting down, please try again later.";
+      res.setHeader("Connection", "close");
+    } else if (defaultDataInitialized) {
+      message = "Database is unavailable, please try again later.";
+    }
+
+    res.setHeader("Retry-After", String(RETRY_AFTER_SECONDS));
+    return res.status(503).json({ success: false, message });
   }
   next();
 });
 
 // Middleware
 app.use(express.json());
-app.use(express.static(path.join(process.cwd(), "frontend")));
-
-// ---------------- Auth Routes ----------------
 
-app.post("/api/auth/login", async (req: Request, res: Response) => {
-  try {
-    const { username, password } = req.body as LoginRequest;
+// "/" is left to the page routes, which render index.html on the server
+app.use(express.static(path.join(process.cwd(), "frontend"), { index: false }));
 
-    const adminUsername = process.env.ADMIN_USERNAME || "admin";
-    const adminPassword = process.env.ADMIN_PASSWORD || "password";
+// ---------------- Media Routes ----------------
 
-    if (username === adminUsername && password === adminPassword) {
-      const token = generateToken();
-      res.json({ success: true, token } as AuthResponse);
-    } else {
-      res.status(401).json({
-        success: false,
-        message: "Invalid credentials",
-      } as AuthResponse);
+// Deletes the files of images shown by purged projects and their saved
+// versions, unless another project shows them too. Replaced images are kept
+// until then, since restoring an older version brings them back.
+async function removeProjectImages(versions: Project[]) {
+  try {
+    const imagesOf = (project: Partial<Project>): ProjectImage[] => [
+      ...(project.coverImage ? [project.coverImage] : []),
+      ...(project.gallery ?? []),
+    ];
+    const [current, trashed] = await Promise.all([
+      storage.projects.list(),
+      storage.projects.listTrashed(),
+    ]);
+    const inUse = new Set(
+      [...current, ...trashed].flatMap(imagesOf).flatMap(imageKeys)
+    );
+    const keys = new Set(versions.flatMap(imagesOf).flatMap(imageKeys));
+    for (const key of keys) {
+      if (!inUse.has(key)) await media.remove(key);
     }
   } catch (error) {
-    console.error("Login error:", error);
-    res.status(500).json({
-      success: false,
-      message: "Internal server error",
-    } as AuthResponse);
-  }
-});
-
-app.post("/api/auth/logout", (req: Request, res: Response) => {
-  // With JWT, logout is handled client-side by removing the token
-  res.json({ success: true });
-});
-
-app.get("/api/auth/verify", async (req: Request, res: Response) => {
-  const token = req.headers.authorization?.replace("Bearer ", "");
-
-  if (!token) {
-    return res.json({ success: true, valid: false });
+    console.error("Error removing media files:", error);
   }
+}
 
-  const isValid = await verifyToken(token);
-  res.json({ success: true, valid: isValid });
+const parseImageBody = express.raw({
+  type: Object.values(IMAGE_CONTENT_TYPES),
+  limit: MAX_UPLOAD_MB * 1024 * 1024,
 });
 
-// ---------------- Public API Routes ----------------
+// The raw image as a Buffer in req.body, with JSON errors for bad uploads
+function imageBody(req: Request, res: Response, next: NextFunction) {
+  parseImageBody(req, res, (error?: unknown) => {
+    if (!error) return next();
+    const status = (error as { status?: number }).status;
+    if (status === 413) {
+      return res.status(413).json({
+        success: false,
+        message: `Images must be at most ${MAX_UPLOAD_MB} MB`,
+      });
+    }
+    res.status(400).json({ success: false, message: "Invalid upload" });
+  });
+}
 
-app.get("/api/data", async (req: Request, res: Response) => {
+// Files never change once written, so they can be cached for good
+app.get("/media/:key", async (req: Request, res: Response) => {
   try {
-    const [projects, skills, currentlyLearningSetting] = await Promise.all([
-      Project.find().select("-_id -__v -createdAt -updatedAt"),
-      Skill.find().select("-_id -__v -createdAt -updatedAt"),
-      Settings.findOne({ key: "currentlyLearning" }),
-    ]);
-
-    const techs = ["all"]; // You might want to generate this dynamically from projects
-    const currentlyLearning = currentlyLearningSetting?.value || [];
+    const key = req.params.key;
+    const file = MEDIA_KEY_PATTERN.test(key) ? await media.open(key) : null;
+    if (!file) {
+      return res.status(404).json({ success: false, message: "Not found" });
+    }
 
-    const JsonResponse = {
-      currentlyLearning,
-      projects,
-      skills,
-      techs,
-    };
-    res.json(JsonResponse);
+    res.setHeader(
+      "Content-Type",
+      IMAGE_CONTENT_TYPES[path.extname(key).slice(1)]
+    );
+    res.setHeader("Content-Length", String(file.size));
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    file.stream.on("error", (error) => {
+      console.error("Error reading media file:", error);
+      res.destroy();
+    });
+    file.stream.pipe(res);
   } catch (error) {
-    console.error("Error fetching public data:", error);
-    res.status(500).json({ error: "Internal server error" });
+    console.error("Error serving media:", error);
+    res.status(500).json({ success: false, message: "Internal server error" });
   }
 });
 
-// ---------------- Dashboard API Routes ----------------
-
-// Get dashboard data (protected)
-app.get(
-  "/api/dashboard/data",
+// Upload an image; the body is the file itself (protected)
+app.post(
+  "/api/dashboard/media",
   requireAuth,
+  requireRole("editor"),
+  imageBody,
   async (req: Request, res: Response) => {
     try {
-      const [projects, skills, currentlyLearningSetting] = await Promise.all([
-        Project.find().select("-_id -__v -createdAt -updatedAt"),
-        Skill.find().select("-_id -__v -createdAt -updatedAt"),
-        Settings.findOne({ key: "currentlyLearning" }),
-      ]);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(415).json({
+          success: false,
+          message: "Upload a JPEG, PNG or WebP image",
+        });
+      }
 
-      const currentlyLearning = currentlyLearningSetting?.value || [];
+      const image = await storeImage(media, req.body);
+      if (!image) {
+        return res.status(415).json({
+          success: false,
+          message: "Upload a JPEG, PNG or WebP image",
+        });
+      }
 
-      res.json({
-        projects,
-        skills,
-        currentlyLearning,
-        stats: {
-          totalProjects: projects.length,
-          featuredProjects: projects.filter((p: any) => p.featured).length,
-          totalSkills: skills.length,
-        },
-      });
+      res.json({ success: true, image });
     } catch (error) {
-      console.error("Error fetching dashboard data:", error);
-      res.status(500).json({ error: "Internal server error" });
+      console.error("Error uploading image:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
     }
   }
 );
 
-// Update project (protected)
-app.put(
-  "/api/dashboard/projects/:id",
-  requireAuth,
+// ---------------- Auth Routes ----------------
+
+app.post(
+  "/api/auth/login",
+  validateBody(loginBody),
   async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const updatedProject = await Project.findOneAndUpdate(
-        { id },
-        { ...req.body },
-        { new: true, runValidators: true }
-      ).select("-_id -__v -createdAt -updatedAt");
-
-      if (!updatedProject) {
-        return res
-          .status(404)
-          .json({ success: false, message: "Project not found" });
+      const { username, password } = req.body as LoginRequest;
+      const ip = req.ip ?? "unknown";
+      const usernameKey = username.toLowerCase();
+
+      // Refuse before checking the password, so a locked-out attacker
+      // learns nothing from further guesses
+      const retryAfterMs = loginRetryAfterMs(ip, usernameKey);
+      if (retryAfterMs > 0) {
+        return tooManyAttempts(res, retryAfterMs);
       }
 
-      res.json({ success: true, project: updatedProject });
+      const finishAttempt = beginLoginAttempt(ip, usernameKey);
+      try {
+        // Unknown usernames still cost a hash check so they can't be told
+        // apart by response time
+        const user = await storage.users.findByUsername(username);
+        const isValid = await verifyPassword(
+          password,
+          user?.passwordHash ?? (await getDummyHash())
+        );
+
+        if (!user || !isValid) {
+          await recordLoginFailure(req, username, usernameKey);
+          return res.status(401).json({
+            success: false,
+            message: "Invalid credentials",
+          } as AuthResponse);
+        }
+
+        // Only the username is cleared; the IP counter decays on its own so
+        // one good account can't be used to reset it
+        usernameThrottle.reset(usernameKey);
+
+        // The session only starts once the second factor checks out
+        if (user.totpSecret) {
+          return res.json({
+            success: true,
+            twoFactorRequired: true,
+            challengeToken: generateChallengeToken(user),
+          } as AuthResponse);
+        }
+
+        const tokens = await startSession(user, req);
+        res.json({
+          success: true,
+          ...tokens,
+          user: toAuthUser(user),
+        } as AuthResponse);
+      } finally {
+        finishAttempt();
+      }
     } catch (error) {
-      console.error("Error updating project:", error);
-      res
-        .status(500)
-        .json({ success: false, message: "Internal server error" });
+      console.error("Login error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      } as AuthResponse);
     }
   }
 );
 
-// Add new project (protected)
 app.post(
-  "/api/dashboard/projects",
+  "/api/auth/change-password",
   requireAuth,
+  validateBody(changePasswordBody),
   async (req: Request, res: Response) => {
     try {
-      const nextId = await getNextProjectId();
-      const newProject = new Project({
-        id: nextId,
-        ...req.body,
-      });
-
-      await newProject.save();
+      const { currentPassword, newPassword } = req.body;
+
+      const user = await storage.users.findById(req.user!.id);
+      if (
+        !user ||
+        !(await verifyPassword(currentPassword, user.passwordHash))
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: "Validation failed",
+          errors: { currentPassword: "Incorrect password" },
+        });
+      }
 
-      // Fetch the saved project with selected fields only
-      const savedProject = await Project.findOne({ id: nextId }).select(
-        "-_id -__v -createdAt -updatedAt"
+      // Access tokens issued before this point stop working and every other
+      // session is signed out; this one gets a fresh access token
+      const updatedUser = await storage.users.setPassword(
+        user.id,
+        await hashPassword(newPassword)
       );
+      await storage.sessions.revokeAll(user.id, req.sessionId);
 
-      res.json({ success: true, project: savedProject });
+      res.json({
+        success: true,
+        token: generateToken(updatedUser!, req.sessionId!),
+        user: toAuthUser(updatedUser!),
+      } as AuthResponse);
     } catch (error) {
-      console.error("Error creating project:", error);
+      console.error("Error changing password:", error);
       res
         .status(500)
         .json({ success: false, message: "Internal server error" });
@@ -354,24 +890,74 @@ app.post(
   }
 );
 
-// Delete project (protected)
-app.delete(
-  "/api/dashboard/projects/:id",
-  requireAuth,
+// Trade a refresh token for a new access token. The refresh token is rotated;
+// presenting one that was already used revokes the whole session, since it
+// means someone else holds a copy.
+app.post(
+  "/api/auth/refresh",
+  validateBody(refreshTokenBody),
   async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const deletedProject = await Project.findOneAndDelete({ id });
+      const invalid = () =>
+        res
+          .status(401)
+          .json({ success: false, message: "Invalid refresh token" });
+
+      const parsed = parseRefreshToken(req.body.refreshToken);
+      if (!parsed) return invalid();
+
+      const session = await storage.sessions.findById(parsed.sessionId);
+      if (!isSessionActive(session)) return invalid();
+
+      const { secret, hash } = createRefreshSecret();
+      const rotated = await storage.sessions.rotate(
+        session.id,
+        parsed.hash,
+        hash,
+        sessionExpiry()
+      );
+      if (!rotated) {
+        console.warn(`Refresh token reused, revoking session ${session.id}`);
+        await storage.sessions.revoke(session.id);
+        return invalid();
+      }
 
-      if (!deletedProject) {
-        return res
-          .status(404)
-          .json({ success: false, message: "Project not found" });
+      const user = await storage.users.findById(rotated.userId);
+      if (!user) return invalid();
+
+      res.json({
+        success: true,
+        token: generateToken(user, rotated.id),
+        refreshToken: formatRefreshToken(rotated.id, secret),
+        user: toAuthUser(user),
+      } as AuthResponse);
+    } catch (error) {
+      console.error("Refresh error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      } as AuthResponse);
+    }
+  }
+);
+
+// Ends the session the refresh token belongs to. Works after the access token
+// has expired, so signing out never leaves a usable session behind.
+app.post(
+  "/api/auth/logout",
+  validateBody(refreshTokenBody),
+  async (req: Request, res: Response) => {
+    try {
+      const parsed = parseRefreshToken(req.body.refreshToken);
+      const session =
+        parsed && (await storage.sessions.findById(parsed.sessionId));
+      if (session && session.refreshTokenHash === parsed.hash) {
+        await storage.sessions.revoke(session.id);
       }
 
       res.json({ success: true });
     } catch (error) {
-      console.error("Error deleting project:", error);
+      console.error("Logout error:", error);
       res
         .status(500)
         .json({ success: false, message: "Internal server error" });
@@ -379,47 +965,112 @@ app.delete(
   }
 );
 
-// Update skills (protected)
-app.put(
-  "/api/dashboard/skills",
-  requireAuth,
+app.get("/api/auth/verify", async (req: Request, res: Response) => {
+  const token = req.headers.authorization?.replace("Bearer ", "");
+
+  if (!token) {
+    return res.json({ success: true, valid: false });
+  }
+
+  const verified = await verifyToken(token);
+  res.json({
+    success: true,
+    valid: verified !== null,
+    user: verified ? toAuthUser(verified.user) : undefined,
+  });
+});
+
+// Second login step when two-factor login is on: trade the challenge token
+// and a TOTP or recovery code for a session
+app.post(
+  "/api/auth/2fa/verify",
+  validateBody(twoFactorLoginBody),
   async (req: Request, res: Response) => {
     try {
-      // Clear existing skills and insert new ones
-      await Skill.deleteMany({});
-      await Skill.insertMany(req.body.skills);
+      const { challengeToken, code } = req.body;
+      const invalidChallenge = () =>
+        res.status(401).json({
+          success: false,
+          message: "Login expired, sign in again",
+        });
+
+      let payload: ChallengePayload;
+      try {
+        payload = jwt.verify(challengeToken, JWT_SECRET) as ChallengePayload;
+      } catch (error) {
+        return invalidChallenge();
+      }
+      if (payload.purpose !== "two-factor") return invalidChallenge();
 
-      const updatedSkills = await Skill.find().select(
-        "-_id -__v -createdAt -updatedAt"
-      );
-      res.json({ success: true, skills: updatedSkills });
+      const user = await storage.users.findById(payload.sub);
+      if (!user || !user.totpSecret) return invalidChallenge();
+
+      // Codes are throttled per account, separately from passwords
+      const ip = req.ip ?? "unknown";
+      const throttleKey = `2fa:${user.id}`;
+      const retryAfterMs = loginRetryAfterMs(ip, throttleKey);
+      if (retryAfterMs > 0) {
+        return tooManyAttempts(res, retryAfterMs);
+      }
+
+      const finishAttempt = beginLoginAttempt(ip, throttleKey);
+      try {
+        if (!(await verifySecondFactor(user, code))) {
+          await recordLoginFailure(req, user.username, throttleKey);
+          return res.status(400).json({
+            success: false,
+            message: "Validation failed",
+            errors: { code: "Invalid code" },
+          });
+        }
+        usernameThrottle.reset(throttleKey);
+      } finally {
+        finishAttempt();
+      }
+
+      const tokens = await startSession(user, req);
+      res.json({
+        success: true,
+        ...tokens,
+        user: toAuthUser(user),
+      } as AuthResponse);
     } catch (error) {
-      console.error("Error updating skills:", error);
-      res
-        .status(500)
-        .json({ success: false, message: "Internal server error" });
+      console.error("Two-factor login error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      } as AuthResponse);
     }
   }
 );
 
-// Update currently learning (protected)
-app.put(
-  "/api/dashboard/learning",
+// ---------------- Two-Factor Enrollment Routes ----------------
+
+// Start enrollment: hand out a new key for the authenticator app. Nothing
+// changes for logins until a code from it is confirmed.
+app.post(
+  "/api/auth/2fa/setup",
   requireAuth,
   async (req: Request, res: Response) => {
     try {
-      await Settings.findOneAndUpdate(
-        { key: "currentlyLearning" },
-        { value: req.body.currentlyLearning },
-        { upsert: true }
-      );
+      const user = await storage.users.findById(req.user!.id);
+      if (user?.totpSecret) {
+        return res.status(409).json({
+          success: false,
+          message: "Two-factor authentication is already enabled",
+        });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.users.update(req.user!.id, { pendingTotpSecret: secret });
 
       res.json({
         success: true,
-        currentlyLearning: req.body.currentlyLearning,
+        secret,
+        otpauthUrl: totpUri(secret, req.user!.username, TOTP_ISSUER),
       });
     } catch (error) {
-      console.error("Error updating currently learning:", error);
+      console.error("Error starting two-factor setup:", error);
       res
         .status(500)
         .json({ success: false, message: "Internal server error" });
@@ -427,25 +1078,1997 @@ app.put(
   }
 );
 
-// ---------------- Catch-all route ----------------
-
-app.use((req: Request, res: Response) => {
-  res.sendFile(path.join(process.cwd(), "frontend", "index.html"));
-});
-
+// Finish enrollment with a code from the new key. The recovery codes are only
+// ever shown in this response.
+app.post(
+  "/api/auth/2fa/enable",
+  requireAuth,
+  validateBody(twoFactorCodeBody),
+  async (req: Request, res: Response) => {
+    try {
+      const user = await storage.users.findById(req.user!.id);
+      if (!user?.pendingTotpSecret) {
+        return res.status(409).json({
+          success: false,
+          message: "Start two-factor setup first",
+        });
+      }
+
+      const step = verifyTotp(user.pendingTotpSecret, req.body.code);
+      if (step === null) {
+        return res.status(400).json({
+          success: false,
+          message: "Validation failed",
+          errors: { code: "Invalid code" },
+        });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const updatedUser = await storage.users.update(user.id, {
+        totpSecret: user.pendingTotpSecret,
+        pendingTotpSecret: null,
+        recoveryCodeHashes: recoveryCodes.map((code) =>
+          hashSecret(normalizeRecoveryCode(code))
+        ),
+      });
+      await storage.users.claimTotpStep(user.id, step);
+
+      res.json({
+        success: true,
+        recoveryCodes,
+        user: toAuthUser(updatedUser!),
+      });
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Turn two-factor login off; asks for the password again
+app.post(
+  "/api/auth/2fa/disable",
+  requireAuth,
+  validateBody(passwordBody),
+  async (req: Request, res: Response) => {
+    try {
+      const user = await storage.users.findById(req.user!.id);
+      if (
+        !user ||
+        !(await verifyPassword(req.body.password, user.passwordHash))
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: "Validation failed",
+          errors: { password: "Incorrect password" },
+        });
+      }
+
+      const updatedUser = await storage.users.update(user.id, {
+        totpSecret: null,
+        pendingTotpSecret: null,
+        recoveryCodeHashes: [],
+      });
+
+      res.json({ success: true, user: toAuthUser(updatedUser!) });
+    } catch (error) {
+      console.error("Error disabling two-factor authentication:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// ---------------- Session Routes ----------------
+
+// List the signed-in user's active sessions
+app.get(
+  "/api/auth/sessions",
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const sessions = await storage.sessions.listActive(req.user!.id);
+
+      res.json({
+        success: true,
+        sessions: sessions.map((session) => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          current: session.id === req.sessionId,
+        })),
+      });
+    } catch (error) {
+      console.error("Error listing sessions:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Sign out every session of the signed-in user, this one included
+app.post(
+  "/api/auth/sessions/revoke-all",
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const revoked = await storage.sessions.revokeAll(req.user!.id);
+      res.json({ success: true, revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Sign out one of the signed-in user's sessions
+app.delete(
+  "/api/auth/sessions/:sessionId",
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const session = await storage.sessions.findById(req.params.sessionId);
+      if (!isSessionActive(session) || session.userId !== req.user!.id) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Session not found" });
+      }
+
+      await storage.sessions.revoke(session.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// ---------------- Public API Routes ----------------
+
+// Whether visitors may see a project: published, and due if scheduled
+function isPublic(project: Project, now = Date.now()): boolean {
+  return (
+    project.status === "published" &&
+    (project.publishAt === null || Date.parse(project.publishAt) <= now)
+  );
+}
+
+// Project tags are saved under the canonical names of the tech taxonomy
+async function loadTechIndex(): Promise<TechIndex> {
+  const taxonomy = await storage.settings.get<TechEntry[]>("techTaxonomy");
+  return buildTechIndex(taxonomy ?? []);
+}
+
+// Tags saved before the taxonomy knew them are shown normalized too
+function withNormalizedTechs(project: Project, techIndex: TechIndex): Project {
+  return { ...project, tech: normalizeTechs(project.tech, techIndex) };
+}
+
+// Markdown fields go out both as written and rendered to safe HTML
+function withRenderedMarkdown(project: Project) {
+  return {
+    ...project,
+    descriptionHtml: renderOptionalMarkdown(project.description),
+    caseStudyHtml: renderOptionalMarkdown(project.caseStudy),
+  };
+}
+
+// Lets a public response be reused until the data changes; ETags let
+// clients check. Only for successful responses, so errors are never kept;
+// Express turns them into a 304 with the same headers when nothing changed.
+function cacheable(res: Response): Response {
+  return res.setHeader("Cache-Control", PUBLIC_CACHE_CONTROL);
+}
+
+// Everything the portfolio page shows, in one payload
+async function renderPublicData(): Promise<RenderedResponse> {
+  const [allProjects, skills, currentlyLearningSetting, techIndex] =
+    await Promise.all([
+      storage.projects.list(),
+      storage.skills.list(),
+      storage.settings.get<string[]>("currentlyLearning"),
+      loadTechIndex(),
+    ]);
+
+  const projects = allProjects
+    .filter((project) => isPublic(project))
+    .map((project) =>
+      withRenderedMarkdown(withNormalizedTechs(project, techIndex))
+    );
+  const techs = countTechs(projects, techIndex);
+  const currentlyLearning = currentlyLearningSetting || [];
+
+  // Scheduled projects appear without a write, so refresh when one is due
+  const now = Date.now();
+  const nextPublishAt = Math.min(
+    ...allProjects
+      .filter((project) => project.status === "published")
+      .map((project) => Date.parse(project.publishAt ?? ""))
+      .filter((time) => time > now)
+  );
+
+  const JsonResponse = {
+    currentlyLearning,
+    projects,
+    skills,
+    techs,
+  };
+  return {
+    body: JsonResponse,
+    expiresAt: Number.isFinite(nextPublishAt) ? nextPublishAt : null,
+  };
+}
+
+type PublicProject = ReturnType<typeof withRenderedMarkdown>;
+
+// The cached /api/data payload, for pages that show the same projects
+async function loadPublicData(): Promise<{ projects: PublicProject[] }> {
+  const cached = await publicCache.get("data", renderPublicData);
+  return JSON.parse(cached.body);
+}
+
+app.get("/api/data", async (req: Request, res: Response) => {
+  try {
+    const cached = await publicCache.get("data", renderPublicData);
+    // Express answers with a 304 when the client's copy is still current
+    res.setHeader("ETag", cached.etag);
+    res.setHeader("Last-Modified", cached.lastModified.toUTCString());
+    cacheable(res).type("json").send(cached.body);
+  } catch (error) {
+    console.error("Error fetching public data:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Sends one page of `items` under `name`, or a 400 for a bad cursor. Items
+// are only passed through `toResponse` once they are on the page.
+function sendPage<T>(
+  res: Response,
+  name: string,
+  items: T[],
+  keyOf: (item: T) => SortKey,
+  defaultDirection: SortDirection,
+  toResponse: (item: T) => unknown = (item) => item
+) {
+  const query = res.locals.query;
+  if (query.page && query.cursor) {
+    return res.status(400).json({
+      success: false,
+      message: "Validation failed",
+      errors: { cursor: "Can't be combined with page" },
+    });
+  }
+
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const page = paginate(items, keyOf, {
+    direction: query.direction ?? defaultDirection,
+    limit,
+    page: query.page ?? undefined,
+    cursor: query.cursor ?? undefined,
+  });
+  if (!page) {
+    return res.status(400).json({
+      success: false,
+      message: "Validation failed",
+      errors: { cursor: "Is not valid" },
+    });
+  }
+
+  cacheable(res).json({
+    success: true,
+    [name]: page.items.map(toResponse),
+    total: page.total,
+    page: page.page,
+    limit,
+    nextCursor: page.nextCursor,
+  });
+}
+
+// Case-insensitive substring match against any of `fields`
+function matchesText(q: string, fields: (string | null | undefined)[]) {
+  const needle = q.toLowerCase();
+  return fields.some((field) => field?.toLowerCase().includes(needle));
+}
+
+const PROJECT_SORT_KEYS: Record<string, (project: Project) => SortKey> = {
+  order: (project) => [project.order, project.id],
+  title: (project) => [project.title.toLowerCase(), project.id],
+  created: (project) => [project.id, project.id],
+};
+
+// List public projects with filters, sorting and paging
+app.get(
+  "/api/projects",
+  validateQuery(projectQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const { tech, featured, q, sort } = res.locals.query;
+      const [allProjects, techIndex] = await Promise.all([
+        storage.projects.list(),
+        loadTechIndex(),
+      ]);
+
+      // Filters take any spelling the taxonomy knows
+      const techKeyWanted = tech
+        ? techKey(normalizeTechs([tech], techIndex)[0] ?? tech)
+        : null;
+      const projects = allProjects
+        .filter((project) => isPublic(project))
+        .map((project) => withNormalizedTechs(project, techIndex))
+        .filter(
+          (project) =>
+            (techKeyWanted === null ||
+              project.tech.some((name) => techKey(name) === techKeyWanted)) &&
+            (featured == null || project.featured === featured) &&
+            (!q ||
+              matchesText(q, [
+                project.title,
+                project.description,
+                ...project.tech,
+              ]))
+        );
+
+      // "created" is newest first unless asked otherwise
+      sendPage(
+        res,
+        "projects",
+        projects,
+        PROJECT_SORT_KEYS[sort ?? "order"],
+        sort === "created" ? "desc" : "asc",
+        withRenderedMarkdown
+      );
+    } catch (error) {
+      console.error("Error listing projects:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// List skills with filters, sorting and paging
+app.get(
+  "/api/skills",
+  validateQuery(skillQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const { category, q, sort } = res.locals.query;
+      const skills = (await storage.skills.list()).filter(
+        (skill) =>
+          (!category || skill.category === category) &&
+          (!q || matchesText(q, [skill.name]))
+      );
+
+      // "level" is strongest first unless asked otherwise
+      const keys: Record<string, (skill: Skill) => SortKey> = {
+        order: (skill) => [skill.order, skill.id],
+        name: (skill) => [skill.name.toLowerCase(), skill.id],
+        level: (skill) => [skill.level, skill.id],
+      };
+      sendPage(
+        res,
+        "skills",
+        skills,
+        keys[sort ?? "order"],
+        sort === "level" ? "desc" : "asc"
+      );
+    } catch (error) {
+      console.error("Error listing skills:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+// Search public projects and skills, best matches first, with the matching
+// words highlighted
+app.get(
+  "/api/search",
+  validateQuery(searchQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const { q } = res.locals.query;
+      const limit = res.locals.query.limit ?? DEFAULT_SEARCH_LIMIT;
+      const terms = searchTerms(q);
+      if (terms.length === 0) {
+        return cacheable(res).json({ success: true, projects: [], skills: [] });
+      }
+
+      const [projectHits, skillHits, techIndex] = await Promise.all([
+        storage.projects.search(q),
+        storage.skills.search(q),
+        loadTechIndex(),
+      ]);
+
+      const projects = projectHits
+        .filter((hit) => isPublic(hit.item))
+        .slice(0, limit)
+        .map(({ item, score }) => {
+          const project = withNormalizedTechs(item, techIndex);
+          return {
+            project: withRenderedMarkdown(project),
+            score,
+            highlights: {
+              title: highlight(project.title, terms),
+              description: project.description
+                ? highlightSnippet(markdownToText(project.description), terms)
+                : null,
+              tech: project.tech.map((tech) => highlight(tech, terms)),
+            },
+          };
+        });
+      const skills = skillHits.slice(0, limit).map(({ item, score }) => ({
+        skill: item,
+        score,
+        highlights: { name: highlight(item.name, terms) },
+      }));
+
+      cacheable(res).json({ success: true, projects, skills });
+    } catch (error) {
+      console.error("Error searching:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+app.get("/api/projects/:slug", async (req: Request, res: Response) => {
+  try {
+    const project = await storage.projects.findBySlug(req.params.slug);
+
+    if (!project || !isPublic(project)) {
+      return res
+        .status(404)
+        .json({ success: false, message: "Project not found" });
+    }
+
+    const techIndex = await loadTechIndex();
+    cacheable(res).json({
+      success: true,
+      project: withRenderedMarkdown(withNormalizedTechs(project, techIndex)),
+    });
+  } catch (error) {
+    console.error("Error fetching project:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ---------------- Contact Routes ----------------
+
+// Every message counts against the sender's IP address the way a failed
+// login would: a few go through freely, then they have to wait longer
+const contactThrottle = createLoginThrottle({
+  freeAttempts: 3,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 15 * 60 * 1000,
+  lockoutAfter: 10,
+  lockoutMs: 60 * 60 * 1000,
+  resetAfterMs: 60 * 60 * 1000,
+});
+
+// Ids of form tokens already sent, with when they expire in epoch seconds;
+// expired ones are swept on the next post
+const usedFormTokens = new Map<string, number>();
+
+function spendFormToken(payload: ContactFormPayload): boolean {
+  const now = Date.now() / 1000;
+  for (const [jti, exp] of usedFormTokens) {
+    if (exp <= now) usedFormTokens.delete(jti);
+  }
+  if (usedFormTokens.has(payload.jti)) return false;
+  usedFormTokens.set(payload.jti, payload.exp);
+  return true;
+}
+
+// Checked before the spam checks, so dropped posts count too and a bot
+// can't keep posting just because nothing it sends gets through
+function limitContactPosts(req: Request, res: Response, next: NextFunction) {
+  const retryAfterMs = contactThrottle.retryAfterMs(req.ip ?? "unknown");
+  if (retryAfterMs > 0) {
+    return tooManyAttempts(res, retryAfterMs, "Too many messages");
+  }
+  next();
+}
+
+// Bots fill in the hidden "website" field. Any value, whatever its type or
+// length, is accepted and dropped before validation could point it out.
+function dropHoneypotPosts(req: Request, res: Response, next: NextFunction) {
+  const { website, ...body } = req.body ?? {};
+  if (website != null && String(website).trim() !== "") {
+    contactThrottle.recordFailure(req.ip ?? "unknown");
+    return res.json({ success: true });
+  }
+  req.body = body;
+  next();
+}
+
+// A token for one contact form, fetched when the form is shown
+app.get("/api/contact/form", (req: Request, res: Response) => {
+  const formToken = jwt.sign({ purpose: "contact" }, JWT_SECRET, {
+    expiresIn: CONTACT_FORM_TTL_SECONDS,
+    jwtid: randomUUID(),
+  });
+  res.set("Cache-Control", "no-store");
+  res.json({ success: true, formToken });
+});
+
+// Send a message to the inbox. Posts that look automated get the same
+// answer as real ones but are dropped, so bots can't tell what gave them away.
+app.post(
+  "/api/contact",
+  limitContactPosts,
+  dropHoneypotPosts,
+  validateBody(contactBody),
+  async (req: Request, res: Response) => {
+    try {
+      const { name, email, subject, message, formToken } = req.body;
+      const ip = req.ip ?? "unknown";
+
+      const expiredForm = () =>
+        res.status(400).json({
+          success: false,
+          message: "Validation failed",
+          errors: { formToken: "The form has expired, reload the page" },
+        });
+
+      let payload: ContactFormPayload;
+      try {
+        payload = jwt.verify(formToken, JWT_SECRET) as ContactFormPayload;
+      } catch (error) {
+        return expiredForm();
+      }
+      if (payload.purpose !== "contact" || !spendFormToken(payload)) {
+        return expiredForm();
+      }
+
+      contactThrottle.recordFailure(ip);
+      const fillSeconds = Date.now() / 1000 - payload.iat;
+      if (fillSeconds < CONTACT_MIN_FILL_SECONDS) {
+        return res.json({ success: true });
+      }
+
+      await storage.contactMessages.create({
+        name,
+        email,
+        subject: subject ?? null,
+        message,
+        ip,
+        userAgent: req.get("user-agent")?.slice(0, 300) ?? null,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error saving contact message:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// ---------------- Dashboard API Routes ----------------
+
+// Get dashboard data (protected)
+app.get(
+  "/api/dashboard/data",
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const [projects, skills, currentlyLearningSetting] = await Promise.all([
+        storage.projects.list(),
+        storage.skills.list(),
+        storage.settings.get<string[]>("currentlyLearning"),
+      ]);
+
+      const currentlyLearning = currentlyLearningSetting || [];
+
+      res.json({
+        projects,
+        skills,
+        currentlyLearning,
+        stats: {
+          totalProjects: projects.length,
+          featuredProjects: projects.filter((p) => p.featured).length,
+          publishedProjects: projects.filter((p) => isPublic(p)).length,
+          totalSkills: skills.length,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching dashboard data:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+// Render Markdown for the editor's preview pane (protected)
+app.post(
+  "/api/dashboard/markdown/preview",
+  requireAuth,
+  validateBody(markdownPreviewBody),
+  (req: Request, res: Response) => {
+    res.json({ success: true, html: renderMarkdown(req.body.source ?? "") });
+  }
+);
+
+// Detail page fields of a project without a case study
+const EMPTY_CASE_STUDY: Pick<
+  Project,
+  "caseStudy" | "role" | "timeline" | "challenges" | "outcomes"
+> = {
+  caseStudy: null,
+  role: null,
+  timeline: null,
+  challenges: [],
+  outcomes: [],
+};
+
+// Image fields of a project without any uploads
+const NO_IMAGES: Pick<Project, "coverImage" | "gallery"> = {
+  coverImage: null,
+  gallery: [],
+};
+
+// Reorder projects (protected)
+app.put(
+  "/api/dashboard/projects/order",
+  requireAuth,
+  requireRole("editor"),
+  validateBody(projectOrderBody),
+  async (req: Request, res: Response) => {
+    try {
+      const ids: number[] = req.body.ids;
+
+      if (new Set(ids).size !== ids.length) {
+        return res.status(400).json({
+          success: false,
+          message: "Validation failed",
+          errors: { ids: "Must not contain duplicates" },
+        });
+      }
+
+      // A partial list would leave the others with clashing positions
+      const previous = await storage.projects.list();
+      if (previous.some((p) => !ids.includes(p.id))) {
+        return res.status(400).json({
+          success: false,
+          message: "Validation failed",
+          errors: { ids: "Must list every project" },
+        });
+      }
+
+      const projects = await storage.projects.reorder(ids);
+      if (!projects) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Project not found" });
+      }
+
+      publicCache.invalidate();
+      await recordAudit(req, "reorder", "project", null, {
+        order: {
+          before: previous.map((p) => p.title),
+          after: projects.map((p) => p.title),
+        },
+      });
+
+      res.json({ success: true, projects });
+    } catch (error) {
+      console.error("Error reordering projects:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Update project (protected)
+app.put(
+  "/api/dashboard/projects/:id",
+  requireAuth,
+  requireRole("editor"),
+  validateIdParam,
+  validateBody(projectBody, { partial: true }),
+  async (req: Request, res: Response) => {
+    try {
+      const id = res.locals.params.id;
+      const previous = await storage.projects.findById(id);
+      const changes = { ...req.body };
+      if (changes.tech) {
+        changes.tech = normalizeTechs(changes.tech, await loadTechIndex());
+      }
+      const updatedProject = await storage.projects.update(id, changes);
+
+      if (!updatedProject) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Project not found" });
+      }
+
+      publicCache.invalidate();
+      await recordRevision(req, updatedProject, previous);
+      await recordAudit(
+        req,
+        "update",
+        "project",
+        id,
+        diffRecords(previous, updatedProject)
+      );
+      res.json({ success: true, project: updatedProject });
+    } catch (error) {
+      if (error instanceof DuplicateValueError) {
+        return res.status(400).json(duplicateValueResponse(error));
+      }
+      console.error("Error updating project:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Add new project (protected)
+app.post(
+  "/api/dashboard/projects",
+  requireAuth,
+  requireRole("editor"),
+  validateBody(projectBody),
+  async (req: Request, res: Response) => {
+    try {
+      const savedProject = await storage.projects.create({
+        featured: false,
+        description: null,
+        status: "draft",
+        publishAt: null,
+        ...EMPTY_CASE_STUDY,
+        ...NO_IMAGES,
+        ...req.body,
+        tech: normalizeTechs(req.body.tech ?? [], await loadTechIndex()),
+      });
+
+      publicCache.invalidate();
+      await recordRevision(req, savedProject);
+      await recordAudit(
+        req,
+        "create",
+        "project",
+        savedProject.id,
+        diffRecords(null, savedProject)
+      );
+      res.json({ success: true, project: savedProject });
+    } catch (error) {
+      if (error instanceof DuplicateValueError) {
+        return res.status(400).json(duplicateValueResponse(error));
+      }
+      console.error("Error creating project:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Move project to the trash (protected)
+app.delete(
+  "/api/dashboard/projects/:id",
+  requireAuth,
+  requireRole("admin"),
+  validateIdParam,
+  async (req: Request, res: Response) => {
+    try {
+      const id = res.locals.params.id;
+      const trashed = await storage.projects.trash(id);
+
+      if (!trashed) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Project not found" });
+      }
+
+      publicCache.invalidate();
+      await recordAudit(req, "delete", "project", id, {
+        deletedAt: { before: null, after: trashed.deletedAt },
+      });
+      res.json({ success: true, purgeAt: purgeDate(trashed) });
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// ---------------- Trash Routes ----------------
+
+// When a trashed project will be purged automatically
+function purgeDate(project: TrashedProject): string {
+  const deletedAt = new Date(project.deletedAt).getTime();
+  return new Date(
+    deletedAt + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+}
+
+// List deleted projects, most recent first (protected)
+app.get(
+  "/api/dashboard/trash",
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const projects = await storage.projects.listTrashed();
+      res.json({
+        success: true,
+        projects: projects.map((project) => ({
+          ...project,
+          purgeAt: purgeDate(project),
+        })),
+      });
+    } catch (error) {
+      console.error("Error listing trash:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Take a project back out of the trash (protected)
+app.post(
+  "/api/dashboard/trash/:id/restore",
+  requireAuth,
+  requireRole("editor"),
+  validateIdParam,
+  async (req: Request, res: Response) => {
+    try {
+      const id = res.locals.params.id;
+      const trashed = (await storage.projects.listTrashed()).find(
+        (p) => p.id === id
+      );
+      const project = await storage.projects.restore(id);
+
+      if (!project) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Project not found in trash" });
+      }
+
+      publicCache.invalidate();
+      await recordAudit(req, "restore", "project", id, {
+        deletedAt: { before: trashed?.deletedAt ?? null, after: null },
+      });
+      res.json({ success: true, project });
+    } catch (error) {
+      console.error("Error restoring project:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Delete a trashed project for good (admin only)
+app.delete(
+  "/api/dashboard/trash/:id",
+  requireAuth,
+  requireRole("admin"),
+  validateIdParam,
+  async (req: Request, res: Response) => {
+    try {
+      const id = res.locals.params.id;
+      const revisions = await storage.projectRevisions.list(id);
+      const purged = await storage.projects.purge(id);
+
+      if (!purged) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Project not found in trash" });
+      }
+
+      await removeProjectImages([
+        purged,
+        ...revisions.map((revision) => revision.project),
+      ]);
+      await recordAudit(req, "purge", "project", id, diffRecords(purged, null));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error purging project:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// List a project's saved versions, newest first (protected)
+app.get(
+  "/api/dashboard/projects/:id/revisions",
+  requireAuth,
+  validateIdParam,
+  async (req: Request, res: Response) => {
+    try {
+      const revisions = await storage.projectRevisions.list(
+        res.locals.params.id
+      );
+      res.json({ success: true, revisions });
+    } catch (error) {
+      console.error("Error listing project revisions:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Compare two saved versions of a project, ?from=<number>&to=<number>
+// (protected)
+app.get(
+  "/api/dashboard/projects/:id/revisions/diff",
+  requireAuth,
+  validateIdParam,
+  validateQuery(revisionDiffQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const id = res.locals.params.id;
+      const query = res.locals.query;
+      const [from, to] = await Promise.all([
+        storage.projectRevisions.find(id, query.from),
+        storage.projectRevisions.find(id, query.to),
+      ]);
+      if (!from || !to) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Revision not found" });
+      }
+
+      res.json({
+        success: true,
+        from: from.number,
+        to: to.number,
+        changes: diffRecords(from.project, to.project),
+      });
+    } catch (error) {
+      console.error("Error comparing project revisions:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Put a project back the way it was in a saved version (protected)
+app.post(
+  "/api/dashboard/projects/:id/revisions/:number/restore",
+  requireAuth,
+  requireRole("editor"),
+  validateIdParam,
+  validateNumberParam("number"),
+  async (req: Request, res: Response) => {
+    try {
+      const id = res.locals.params.id;
+      const revision = await storage.projectRevisions.find(
+        id,
+        res.locals.params.number
+      );
+      if (!revision) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Revision not found" });
+      }
+
+      const previous = await storage.projects.findById(id);
+      if (!previous) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Project not found" });
+      }
+
+      // Optional fields missing from the snapshot were unset at the time,
+      // and snapshots from before drafts existed were of public projects.
+      // The position is kept; only reordering changes it, and the
+      // timestamps are the storage backend's.
+      const {
+        id: _id,
+        order: _order,
+        updatedAt: _updatedAt,
+        publishedAt: _publishedAt,
+        ...fields
+      } = revision.project as Partial<Project>;
+      const restored = await storage.projects.update(id, {
+        demoUrl: null,
+        sourceUrl: null,
+        status: "published",
+        publishAt: null,
+        ...EMPTY_CASE_STUDY,
+        ...NO_IMAGES,
+        ...fields,
+        tech: normalizeTechs(fields.tech ?? [], await loadTechIndex()),
+      });
+      if (!restored) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Project not found" });
+      }
+
+      publicCache.invalidate();
+      await recordRevision(req, restored, previous);
+      await recordAudit(
+        req,
+        "update",
+        "project",
+        id,
+        diffRecords(previous, restored)
+      );
+      res.json({ success: true, project: restored });
+    } catch (error) {
+      if (error instanceof DuplicateValueError) {
+        return res.status(400).json(duplicateValueResponse(error));
+      }
+      console.error("Error restoring project revision:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Add a skill (protected)
+app.post(
+  "/api/dashboard/skills",
+  requireAuth,
+  requireRole("editor"),
+  validateBody(skillBody),
+  async (req: Request, res: Response) => {
+    try {
+      const savedSkill = await storage.skills.create(req.body);
+      publicCache.invalidate();
+      await recordAudit(
+        req,
+        "create",
+        "skill",
+        savedSkill.id,
+        diffRecords(null, savedSkill)
+      );
+
+      res.json({ success: true, skill: savedSkill });
+    } catch (error) {
+      console.error("Error creating skill:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Reorder skills (protected)
+app.put(
+  "/api/dashboard/skills/order",
+  requireAuth,
+  requireRole("editor"),
+  validateBody(skillOrderBody),
+  async (req: Request, res: Response) => {
+    try {
+      const ids: string[] = req.body.ids;
+
+      if (new Set(ids).size !== ids.length) {
+        return res.status(400).json({
+          success: false,
+          message: "Validation failed",
+          errors: { ids: "Must not contain duplicates" },
+        });
+      }
+
+      const previous = await storage.skills.list();
+      const skills = await storage.skills.reorder(ids);
+      if (!skills) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Skill not found" });
+      }
+
+      publicCache.invalidate();
+      await recordAudit(req, "reorder", "skill", null, {
+        order: {
+          before: previous.map((s) => s.name),
+          after: skills.map((s) => s.name),
+        },
+      });
+
+      res.json({ success: true, skills });
+    } catch (error) {
+      console.error("Error reordering skills:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Update a skill (protected)
+app.put(
+  "/api/dashboard/skills/:skillId",
+  requireAuth,
+  requireRole("editor"),
+  validateBody(skillBody, { partial: true }),
+  async (req: Request, res: Response) => {
+    try {
+      const previous = (await storage.skills.list()).find(
+        (s) => s.id === req.params.skillId
+      );
+      const updatedSkill = await storage.skills.update(
+        req.params.skillId,
+        req.body
+      );
+
+      if (!updatedSkill) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Skill not found" });
+      }
+
+      publicCache.invalidate();
+      await recordAudit(
+        req,
+        "update",
+        "skill",
+        updatedSkill.id,
+        diffRecords(previous ?? null, updatedSkill)
+      );
+
+      res.json({ success: true, skill: updatedSkill });
+    } catch (error) {
+      console.error("Error updating skill:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Delete a skill (protected)
+app.delete(
+  "/api/dashboard/skills/:skillId",
+  requireAuth,
+  requireRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const previous = (await storage.skills.list()).find(
+        (s) => s.id === req.params.skillId
+      );
+      const deleted = await storage.skills.delete(req.params.skillId);
+
+      if (!deleted) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Skill not found" });
+      }
+
+      publicCache.invalidate();
+      await recordAudit(
+        req,
+        "delete",
+        "skill",
+        req.params.skillId,
+        diffRecords(previous ?? null, null)
+      );
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting skill:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Replace all skills (protected)
+app.put(
+  "/api/dashboard/skills",
+  requireAuth,
+  requireRole("editor"),
+  validateBody(skillsBody),
+  async (req: Request, res: Response) => {
+    try {
+      const skills: (SkillInput & { id?: string })[] = req.body.skills;
+
+      const seenIds = new Set<string>();
+      const duplicateErrors: Record<string, string> = {};
+      skills.forEach((skill, index) => {
+        if (!skill.id) return;
+        if (seenIds.has(skill.id)) {
+          duplicateErrors[`skills.${index}.id`] = "Duplicate id";
+        }
+        seenIds.add(skill.id);
+      });
+      if (Object.keys(duplicateErrors).length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: "Validation failed",
+          errors: duplicateErrors,
+        });
+      }
+
+      // Leaving a skill out deletes it, which only admins may do
+      const existingSkills = await storage.skills.list();
+      if (
+        !hasRole(req, "admin") &&
+        existingSkills.some((s) => !seenIds.has(s.id))
+      ) {
+        return forbidden(res);
+      }
+
+      // Entries without an id are new; existing ones keep theirs
+      const updatedSkills = await storage.skills.replaceAll(skills);
+      publicCache.invalidate();
+
+      // One audit entry per skill that was added, changed or removed
+      const previousById = new Map(existingSkills.map((s) => [s.id, s]));
+      const updatedIds = new Set(updatedSkills.map((s) => s.id));
+      for (const skill of updatedSkills) {
+        const previous = previousById.get(skill.id);
+        await recordAudit(
+          req,
+          previous ? "update" : "create",
+          "skill",
+          skill.id,
+          diffRecords(previous ?? null, skill)
+        );
+      }
+      for (const previous of existingSkills) {
+        if (updatedIds.has(previous.id)) continue;
+        await recordAudit(
+          req,
+          "delete",
+          "skill",
+          previous.id,
+          diffRecords(previous, null)
+        );
+      }
+
+      res.json({ success: true, skills: updatedSkills });
+    } catch (error) {
+      console.error("Error updating skills:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Update currently learning (protected)
+app.put(
+  "/api/dashboard/learning",
+  requireAuth,
+  requireRole("editor"),
+  validateBody(learningBody),
+  async (req: Request, res: Response) => {
+    try {
+      const previous =
+        (await storage.settings.get<string[]>("currentlyLearning")) ?? [];
+      await storage.settings.set(
+        "currentlyLearning",
+        req.body.currentlyLearning
+      );
+      publicCache.invalidate();
+
+      await recordAudit(
+        req,
+        "update",
+        "learning",
+        null,
+        diffRecords(
+          { currentlyLearning: previous },
+          { currentlyLearning: req.body.currentlyLearning }
+        )
+      );
+
+      res.json({
+        success: true,
+        currentlyLearning: req.body.currentlyLearning,
+      });
+    } catch (error) {
+      console.error("Error updating currently learning:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Get the tech taxonomy with how often each tag is used (protected)
+app.get(
+  "/api/dashboard/techs",
+  requireAuth,
+  async (req: Request, res: Response) => {
+    try {
+      const [taxonomy, projects] = await Promise.all([
+        storage.settings.get<TechEntry[]>("techTaxonomy"),
+        storage.projects.list(),
+      ]);
+      const techs = taxonomy ?? [];
+
+      res.json({
+        success: true,
+        techs,
+        // Across all projects, drafts included
+        usage: countTechs(projects, buildTechIndex(techs)),
+      });
+    } catch (error) {
+      console.error("Error fetching tech taxonomy:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Replace the tech taxonomy (protected)
+app.put(
+  "/api/dashboard/techs",
+  requireAuth,
+  requireRole("editor"),
+  validateBody(techTaxonomyBody),
+  async (req: Request, res: Response) => {
+    try {
+      const techs: TechEntry[] = req.body.techs.map(
+        (entry: { name: string; aliases?: string[] }) => ({
+          name: entry.name,
+          aliases: entry.aliases ?? [],
+        })
+      );
+
+      const errors = findTaxonomyConflicts(techs);
+      if (Object.keys(errors).length > 0) {
+        return res
+          .status(400)
+          .json({ success: false, message: "Validation failed", errors });
+      }
+
+      const previous =
+        (await storage.settings.get<TechEntry[]>("techTaxonomy")) ?? [];
+      await storage.settings.set("techTaxonomy", techs);
+      publicCache.invalidate();
+
+      await recordAudit(
+        req,
+        "update",
+        "tech",
+        null,
+        diffRecords({ techs: previous }, { techs })
+      );
+
+      res.json({ success: true, techs });
+    } catch (error) {
+      console.error("Error updating tech taxonomy:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// ---------------- Inbox Routes ----------------
+
+const INBOX_PAGE_SIZE = 50;
+
+// Messages from the contact form, newest first, with the inbox and the
+// archive listed separately. Pass the previous page's nextCursor as
+// ?before= for the next page.
+app.get(
+  "/api/dashboard/messages",
+  requireAuth,
+  requireRole("editor"),
+  validateQuery(contactMessageQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const { archived, before } = res.locals.query;
+      const [contactMessages, unread] = await Promise.all([
+        storage.contactMessages.list({
+          archived: archived ?? false,
+          before: before ?? undefined,
+          limit: INBOX_PAGE_SIZE,
+        }),
+        storage.contactMessages.countUnread(),
+      ]);
+
+      res.json({
+        success: true,
+        contactMessages,
+        unread,
+        nextCursor:
+          contactMessages.length === INBOX_PAGE_SIZE
+            ? contactMessages[contactMessages.length - 1].createdAt
+            : null,
+      });
+    } catch (error) {
+      console.error("Error listing messages:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Mark a message read or unread, and archive or unarchive it (protected)
+app.put(
+  "/api/dashboard/messages/:messageId",
+  requireAuth,
+  requireRole("editor"),
+  validateBody(contactMessageStatusBody),
+  async (req: Request, res: Response) => {
+    try {
+      const { read, archived } = req.body;
+      const now = new Date().toISOString();
+      const changes: ContactMessageChanges = {};
+      if (read != null) changes.readAt = read ? now : null;
+      if (archived != null) changes.archivedAt = archived ? now : null;
+
+      const contactMessage = await storage.contactMessages.update(
+        req.params.messageId,
+        changes
+      );
+      if (!contactMessage) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Message not found" });
+      }
+      res.json({ success: true, contactMessage });
+    } catch (error) {
+      console.error("Error updating message:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Delete a message for good (protected)
+app.delete(
+  "/api/dashboard/messages/:messageId",
+  requireAuth,
+  requireRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.contactMessages.delete(
+        req.params.messageId
+      );
+      if (!deleted) {
+        return res
+          .status(404)
+          .json({ success: false, message: "Message not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// ---------------- Activity Routes ----------------
+
+const ACTIVITY_PAGE_SIZE = 50;
+
+// Audit log, newest first (admin only). Filter with ?resource= and ?userId=;
+// pass the previous page's nextCursor as ?before= for the next page.
+app.get(
+  "/api/dashboard/activity",
+  requireAuth,
+  requireRole("admin"),
+  validateQuery(activityQuery),
+  async (req: Request, res: Response) => {
+    try {
+      const { resource, userId, before } = res.locals.query;
+      const entries = await storage.audit.list({
+        resource,
+        userId,
+        before,
+        limit: ACTIVITY_PAGE_SIZE,
+      });
+
+      res.json({
+        success: true,
+        entries,
+        nextCursor:
+          entries.length === ACTIVITY_PAGE_SIZE
+            ? entries[entries.length - 1].createdAt
+            : null,
+      });
+    } catch (error) {
+      console.error("Error listing activity:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// ---------------- User Management Routes ----------------
+
+// The fields of a user that are safe to send to clients
+function toUserResponse(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    twoFactorEnabled: user.totpSecret !== null,
+    createdAt: user.createdAt,
+  };
+}
+
+// Rejects changes that would leave nobody able to manage users
+async function isLastAdmin(user: User): Promise<boolean> {
+  if (user.role !== "admin") return false;
+  const allUsers = await storage.users.list();
+  return allUsers.filter((u) => u.role === "admin").length === 1;
+}
+
+// List users (admin only)
+app.get(
+  "/api/dashboard/users",
+  requireAuth,
+  requireRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const users = await storage.users.list();
+      res.json({ success: true, users: users.map(toUserResponse) });
+    } catch (error) {
+      console.error("Error listing users:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Create a user (admin only)
+app.post(
+  "/api/dashboard/users",
+  requireAuth,
+  requireRole("admin"),
+  validateBody(userBody),
+  async (req: Request, res: Response) => {
+    try {
+      const user = await storage.users.create({
+        username: req.body.username,
+        passwordHash: await hashPassword(req.body.password),
+        role: req.body.role,
+      });
+
+      res.json({ success: true, user: toUserResponse(user) });
+    } catch (error) {
+      if (error instanceof DuplicateValueError) {
+        return res.status(400).json(duplicateValueResponse(error));
+      }
+      console.error("Error creating user:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Change a user's role (admin only)
+app.put(
+  "/api/dashboard/users/:userId",
+  requireAuth,
+  requireRole("admin"),
+  validateBody(userRoleBody),
+  async (req: Request, res: Response) => {
+    try {
+      const user = await storage.users.findById(req.params.userId);
+      if (!user) {
+        return res
+          .status(404)
+          .json({ success: false, message: "User not found" });
+      }
+
+      if (req.body.role !== "admin" && (await isLastAdmin(user))) {
+        return res.status(409).json({
+          success: false,
+          message: "At least one admin is required",
+        });
+      }
+
+      const updatedUser = await storage.users.update(user.id, {
+        role: req.body.role,
+      });
+
+      res.json({ success: true, user: toUserResponse(updatedUser!) });
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Delete a user (admin only)
+app.delete(
+  "/api/dashboard/users/:userId",
+  requireAuth,
+  requireRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      if (req.params.userId === req.user!.id) {
+        return res.status(409).json({
+          success: false,
+          message: "You can't delete your own account",
+        });
+      }
+
+      const deleted = await storage.users.delete(req.params.userId);
+
+      if (!deleted) {
+        return res
+          .status(404)
+          .json({ success: false, message: "User not found" });
+      }
+
+      await storage.sessions.revokeAll(req.params.userId);
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// Recent failed logins (admin only)
+app.get(
+  "/api/dashboard/failed-logins",
+  requireAuth,
+  requireRole("admin"),
+  async (req: Request, res: Response) => {
+    try {
+      const failedLogins = await storage.failedLogins.list(100);
+      res.json({ success: true, failedLogins });
+    } catch (error) {
+      console.error("Error listing failed logins:", error);
+      res
+        .status(500)
+        .json({ success: false, message: "Internal server error" });
+    }
+  }
+);
+
+// ---------------- Discovery routes ----------------
+
+function siteUrl(req: Request): string {
+  return (SITE_URL || `${req.protocol}://${req.get("host")}`).replace(
+    /\/+$/,
+    ""
+  );
+}
+
+// The latest of `dates`, skipping nulls; at least one must be set
+function latest(...dates: (string | null)[]): string {
+  const times = dates
+    .filter((date): date is string => date !== null)
+    .map((date) => Date.parse(date));
+  return new Date(Math.max(...times)).toISOString();
+}
+
+// When a project appeared on the site: when it was published, or later if
+// it was scheduled
+function publicSince(project: Project): string {
+  return latest(project.publishedAt ?? project.updatedAt, project.publishAt);
+}
+
+app.get("/robots.txt", (req: Request, res: Response) => {
+  const rules = ROBOTS_ALLOW_INDEXING
+    ? ROBOTS_DISALLOW.map((path) => `Disallow: ${path}`)
+    : ["Disallow: /"];
+  cacheable(res)
+    .type("text/plain")
+    .send(
+      [
+        "User-agent: *",
+        ...(rules.length > 0 ? rules : ["Allow: /"]),
+        "",
+        `Sitemap: ${siteUrl(req)}/sitemap.xml`,
+        "",
+      ].join("\n")
+    );
+});
+
+// The portfolio and every public project page
+app.get("/sitemap.xml", async (req: Request, res: Response) => {
+  try {
+    const { projects } = await loadPublicData();
+    const site = siteUrl(req);
+    cacheable(res)
+      .type("application/xml")
+      .send(
+        renderSitemap([
+          { url: `${site}/`, lastModified: null },
+          ...projects.map((project) => ({
+            url: `${site}/projects/${encodeURIComponent(project.slug)}`,
+            // A scheduled project changes when it appears
+            lastModified: latest(project.updatedAt, project.publishAt),
+          })),
+        ])
+      );
+  } catch (error) {
+    console.error("Error rendering sitemap:", error);
+    res.status(500).type("text/plain").send("Internal server error");
+  }
+});
+
+// The most recently published projects, the same for every feed format
+async function loadFeed(req: Request): Promise<Feed> {
+  const { projects } = await loadPublicData();
+  const site = siteUrl(req);
+  const items = projects
+    .map((project) => ({ project, published: publicSince(project) }))
+    .sort((a, b) => b.published.localeCompare(a.published))
+    .slice(0, FEED_SIZE)
+    .map(({ project, published }) => ({
+      url: `${site}/projects/${encodeURIComponent(project.slug)}`,
+      title: project.title,
+      summary: project.description
+        ? summarize(markdownToText(project.description))
+        : project.title,
+      contentHtml:
+        [project.descriptionHtml, project.caseStudyHtml]
+          .filter(Boolean)
+          .join("\n") || null,
+      image: project.coverImage && `${site}${project.coverImage.url}`,
+      tags: project.tech,
+      published,
+      updated: latest(published, project.updatedAt),
+    }));
+
+  return {
+    title: `${SITE_NAME} projects`,
+    description: SITE_DESCRIPTION,
+    author: SITE_AUTHOR,
+    siteUrl: `${site}/`,
+    updated: items.length
+      ? latest(...items.map((item) => item.updated))
+      : new Date(0).toISOString(),
+    items,
+  };
+}
+
+app.get("/feed.xml", async (req: Request, res: Response) => {
+  try {
+    const feed = await loadFeed(req);
+    cacheable(res)
+      .type("application/rss+xml")
+      .send(renderRss(feed, `${siteUrl(req)}/feed.xml`));
+  } catch (error) {
+    console.error("Error rendering RSS feed:", error);
+    res.status(500).type("text/plain").send("Internal server error");
+  }
+});
+
+app.get("/atom.xml", async (req: Request, res: Response) => {
+  try {
+    const feed = await loadFeed(req);
+    cacheable(res)
+      .type("application/atom+xml")
+      .send(renderAtom(feed, `${siteUrl(req)}/atom.xml`));
+  } catch (error) {
+    console.error("Error rendering Atom feed:", error);
+    res.status(500).type("text/plain").send("Internal server error");
+  }
+});
+
+app.get("/feed.json", async (req: Request, res: Response) => {
+  try {
+    const feed = await loadFeed(req);
+    cacheable(res)
+      .type("application/feed+json")
+      .send(JSON.stringify(renderJsonFeed(feed, `${siteUrl(req)}/feed.json`)));
+  } catch (error) {
+    console.error("Error rendering JSON feed:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ---------------- Catch-all route ----------------
+
+const indexPath = path.join(process.cwd(), "frontend", "index.html");
+
+const pages = createPageRenderer({
+  templatePath: indexPath,
+  bundlePath: path.join(process.cwd(), "ssr", "entry-server.cjs"),
+});
+
+// The portfolio's first page of projects; matches its page size
+const PORTFOLIO_PAGE_SIZE = 12;
+
+// What the portfolio fetches on load: the /api/data payload and the first
+// page of /api/projects
+async function loadPortfolioData() {
+  const data = await loadPublicData();
+  // Only a cursor can make paginate fail
+  const page = paginate(data.projects, PROJECT_SORT_KEYS.order, {
+    direction: "asc",
+    limit: PORTFOLIO_PAGE_SIZE,
+  })!;
+  return {
+    data,
+    projectPage: {
+      projects: page.items,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    },
+  };
+}
+
+// Project pages are rendered with the project in the initial data, and a
+// project visitors can't see gets a real 404 status
+app.get("/projects/:slug", async (req: Request, res: Response) => {
+  try {
+    const [portfolio, found, techIndex] = await Promise.all([
+      loadPortfolioData(),
+      storage.projects.findBySlug(req.params.slug),
+      loadTechIndex(),
+    ]);
+    const project =
+      found && isPublic(found)
+        ? withRenderedMarkdown(withNormalizedTechs(found, techIndex))
+        : null;
+
+    const site = siteUrl(req);
+    const meta: PageMeta = project
+      ? {
+          title: `${project.title} | ${SITE_NAME}`,
+          description: project.description
+            ? summarize(markdownToText(project.description))
+            : SITE_DESCRIPTION,
+          url: `${site}/projects/${encodeURIComponent(project.slug)}`,
+          image: project.coverImage && `${site}${project.coverImage.url}`,
+          type: "article",
+        }
+      : {
+          title: `Project not found | ${SITE_NAME}`,
+          description: SITE_DESCRIPTION,
+          url: `${site}${req.path}`,
+          image: null,
+          type: "website",
+        };
+
+    const html = await pages.render({
+      path: req.path,
+      meta,
+      initialData: { ...portfolio, project },
+    });
+    res.status(project ? 200 : 404).send(html);
+  } catch (error) {
+    console.error("Error rendering project page:", error);
+    res.sendFile(indexPath);
+  }
+});
+
+// Every other page is the portfolio, which the frontend routes within
+app.use(async (req: Request, res: Response) => {
+  try {
+    const html = await pages.render({
+      path: req.path,
+      meta: {
+        title: SITE_NAME,
+        description: SITE_DESCRIPTION,
+        url: `${siteUrl(req)}/`,
+        image: null,
+        type: "website",
+      },
+      initialData: await loadPortfolioData(),
+    });
+    res.send(html);
+  } catch (error) {
+    console.error("Error rendering page:", error);
+    res.sendFile(indexPath);
+  }
+});
+
 // ---------------- Start ----------------
 
-app.listen(PORT, async () => {
+const server = app.listen(PORT, () => {
   console.log(`Express app listening on port ${PORT}`);
 
   console.timeEnd("Total startup time");
+});
+
+startStorage();
 
-  // Wait a moment to ensure MongoDB connection is established
-  await new Promise((resolve) => setTimeout(resolve, 10000));
+// Drop sessions past their expiry so the revocation list doesn't grow forever,
+// failed logins older than the retention period and projects that have been
+// in the trash for too long
+const cleanup = setInterval(async () => {
+  if (!isReady()) return;
+  try {
+    const removedSessions = await storage.sessions.deleteExpired();
+    if (removedSessions > 0) {
+      console.log(`Removed ${removedSessions} expired sessions`);
+    }
 
-  // Initialize default data
-  await initializeDefaultData();
+    const cutoff = new Date(
+      Date.now() - FAILED_LOGIN_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    );
+    const removedLogins = await storage.failedLogins.deleteOlderThan(
+      cutoff.toISOString()
+    );
+    if (removedLogins > 0) {
+      console.log(`Removed ${removedLogins} old failed login records`);
+    }
 
-  console.log("Server ready with MongoDB integration");
-  isReady = true;
-});
+    const trashCutoff = new Date(
+      Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    );
+    // Their saved versions go with them, so collect those first
+    const expired = (await storage.projects.listTrashed()).filter(
+      (project) => project.deletedAt < trashCutoff.toISOString()
+    );
+    const revisions = await Promise.all(
+      expired.map((project) => storage.projectRevisions.list(project.id))
+    );
+    const purgedProjects = await storage.projects.purgeTrashedBefore(
+      trashCutoff.toISOString()
+    );
+    if (purgedProjects.length > 0) {
+      const purgedIds = new Set(purgedProjects.map((project) => project.id));
+      await removeProjectImages([
+        ...purgedProjects,
+        ...revisions
+          .flat()
+          .filter((revision) => purgedIds.has(revision.projectId))
+          .map((revision) => revision.project),
+      ]);
+      console.log(`Purged ${purgedProjects.length} projects from the trash`);
+    }
+  } catch (error) {
+    console.error("Error during cleanup:", error);
+  }
+}, CLEANUP_INTERVAL_MS);
+cleanup.unref();
+
+// Stop accepting connections, let in-flight requests finish, then close the
+// storage backend. Gives up after SHUTDOWN_TIMEOUT_MS.
+function shutdown(signal: string) {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+  clearInterval(cleanup);
+  console.log(`${signal} received, draining in-flight requests`);
+
+  setTimeout(() => {
+    console.error("Graceful shutdown timed out, forcing exit");
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  server.close(async (error) => {
+    try {
+      await storage.close();
+      console.log("Shutdown complete");
+      process.exit(error ? 1 : 0);
+    } catch (closeError) {
+      console.error("Error closing storage:", closeError);
+      process.exit(1);
+    }
+  });
+  server.closeIdleConnections();
+}
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
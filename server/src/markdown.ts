@@ -0,0 +1,80 @@
+import { Marked } from "marked";
+import sanitizeHtml from "sanitize-html";
+
+// Long-form fields are written in GitHub-flavored Markdown. Raw HTML in the
+// source is passed through marked and then cut down to the tags below, so
+// nothing a visitor's browser would run survives rendering.
+
+const markdown = new Marked({ gfm: true, async: false });
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "p",
+    "br",
+    "hr",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "strong",
+    "em",
+    "del",
+    "code",
+    "pre",
+    "blockquote",
+    "ul",
+    "ol",
+    "li",
+    "a",
+    "table",
+    "thead",
+    "tbody",
+    "tr",
+    "th",
+    "td",
+  ],
+  allowedAttributes: {
+    a: ["href", "title", "rel"],
+    ol: ["start"],
+    th: ["align"],
+    td: ["align"],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  allowProtocolRelative: false,
+  transformTags: {
+    // Authored links point away from the site
+    a: sanitizeHtml.simpleTransform("a", {
+      rel: "nofollow noopener noreferrer",
+    }),
+  },
+};
+
+export function renderMarkdown(source: string): string {
+  const html = markdown.parse(source) as string;
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+}
+
+// For optional fields: no source, no HTML
+export function renderOptionalMarkdown(source: string | null): string | null {
+  return source ? renderMarkdown(source) : null;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+};
+
+// The words of a Markdown document without any markup, for snippets
+export function markdownToText(source: string): string {
+  const html = markdown.parse(source) as string;
+  return html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(amp|lt|gt|quot|#39);/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,104 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import sharp, { Metadata, Sharp } from "sharp";
+import { ProjectImage } from "../storage";
+import { MediaStore } from "./types";
+
+// Every upload is re-encoded into a full-size image and a thumbnail, each as
+// WebP and as a JPEG or PNG fallback. Re-encoding drops EXIF and all other
+// metadata, after the orientation it records has been applied.
+
+export const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+// Formats accepted for upload
+const INPUT_FORMATS = ["jpeg", "png", "webp"];
+
+const FULL_WIDTH = 1920;
+const THUMBNAIL_WIDTH = 480;
+
+// `<uuid>.jpg`, `<uuid>-thumb.webp` and so on
+export const MEDIA_KEY_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(-thumb)?\.(jpg|png|webp)$/;
+
+export function mediaUrl(key: string): string {
+  return `/media/${key}`;
+}
+
+// The keys of the files behind each variant of `image`
+export function imageKeys(image: ProjectImage): string[] {
+  return [
+    image.url,
+    image.webpUrl,
+    image.thumbnailUrl,
+    image.thumbnailWebpUrl,
+  ].map((url) => path.posix.basename(url));
+}
+
+async function encode(
+  image: Sharp,
+  width: number,
+  format: "jpg" | "png" | "webp"
+) {
+  const resized = image.clone().resize({ width, withoutEnlargement: true });
+  const encoded =
+    format === "webp"
+      ? resized.webp({ quality: 80 })
+      : format === "png"
+      ? resized.png()
+      : resized.jpeg({ quality: 82, mozjpeg: true });
+  return encoded.toBuffer({ resolveWithObject: true });
+}
+
+// Resolves to null when `input` is not an image in a supported format
+export async function storeImage(
+  store: MediaStore,
+  input: Buffer
+): Promise<ProjectImage | null> {
+  const image = sharp(input).rotate();
+  let metadata: Metadata;
+  try {
+    metadata = await image.metadata();
+  } catch {
+    return null;
+  }
+  if (!metadata.format || !INPUT_FORMATS.includes(metadata.format)) {
+    return null;
+  }
+
+  // PNG keeps transparency; everything else falls back to JPEG
+  const fallback = metadata.hasAlpha ? "png" : "jpg";
+  const id = randomUUID();
+  const [full, fullWebp, thumbnail, thumbnailWebp] = await Promise.all([
+    encode(image, FULL_WIDTH, fallback),
+    encode(image, FULL_WIDTH, "webp"),
+    encode(image, THUMBNAIL_WIDTH, fallback),
+    encode(image, THUMBNAIL_WIDTH, "webp"),
+  ]);
+
+  const keys = {
+    url: `${id}.${fallback}`,
+    webpUrl: `${id}.webp`,
+    thumbnailUrl: `${id}-thumb.${fallback}`,
+    thumbnailWebpUrl: `${id}-thumb.webp`,
+  };
+  await Promise.all([
+    store.save(keys.url, full.data),
+    store.save(keys.webpUrl, fullWebp.data),
+    store.save(keys.thumbnailUrl, thumbnail.data),
+    store.save(keys.thumbnailWebpUrl, thumbnailWebp.data),
+  ]);
+
+  return {
+    url: mediaUrl(keys.url),
+    webpUrl: mediaUrl(keys.webpUrl),
+    thumbnailUrl: mediaUrl(keys.thumbnailUrl),
+    thumbnailWebpUrl: mediaUrl(keys.thumbnailWebpUrl),
+    width: full.info.width,
+    height: full.info.height,
+    alt: null,
+  };
+}
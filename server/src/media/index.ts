@@ -0,0 +1,9 @@
+export * from "./types";
+export { createLocalMediaStore } from "./local";
+export {
+  IMAGE_CONTENT_TYPES,
+  imageKeys,
+  MEDIA_KEY_PATTERN,
+  mediaUrl,
+  storeImage,
+} from "./images";
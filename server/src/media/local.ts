@@ -0,0 +1,38 @@
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { MediaStore } from "./types";
+
+// Keeps uploads as plain files in one directory on the local disk. Like the
+// JSON-file storage backend, writes go to a temporary file first so readers
+// never see half a file.
+export function createLocalMediaStore(directory: string): MediaStore {
+  const root = path.resolve(directory);
+  const pathOf = (key: string) => path.join(root, path.basename(key));
+
+  return {
+    async save(key, data) {
+      await fs.mkdir(root, { recursive: true });
+      const filePath = pathOf(key);
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    },
+
+    async open(key) {
+      const filePath = pathOf(key);
+      try {
+        const stats = await fs.stat(filePath);
+        if (!stats.isFile()) return null;
+        return { stream: createReadStream(filePath), size: stats.size };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async remove(key) {
+      await fs.rm(pathOf(key), { force: true });
+    },
+  };
+}
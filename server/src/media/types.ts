@@ -0,0 +1,16 @@
+import { Readable } from "stream";
+
+export interface StoredFile {
+  stream: Readable;
+  // In bytes
+  size: number;
+}
+
+// Where uploaded files live. Keys are flat file names such as
+// `<uuid>-thumb.webp`; callers make sure they are safe to use as paths.
+export interface MediaStore {
+  save(key: string, data: Buffer): Promise<void>;
+  // Null when there is no file under `key`
+  open(key: string): Promise<StoredFile | null>;
+  remove(key: string): Promise<void>;
+}
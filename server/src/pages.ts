@@ -0,0 +1,110 @@
+import fs from "fs";
+import { escapeHtml } from "./highlight";
+
+// Server-side rendering of the frontend's pages. The markup comes from the
+// frontend's SSR bundle (`vite build --ssr`); the data it was rendered with
+// is embedded in the page so the client hydrates from the same state.
+// Without the bundle, e.g. before the first full build, pages still get
+// their head tags and the client renders everything itself.
+
+// Plain text; escaped when the tags are written
+export interface PageMeta {
+  title: string;
+  description: string;
+  // Absolute URLs
+  url: string;
+  image: string | null;
+  type: "website" | "article";
+}
+
+export interface PageRenderer {
+  render(page: {
+    path: string;
+    meta: PageMeta;
+    initialData: unknown;
+  }): Promise<string>;
+}
+
+type RenderApp = (path: string, initialData: unknown) => string;
+
+// About `length` characters of `text`, cut at a space
+export function summarize(text: string, length = 160): string {
+  if (text.length <= length) return text;
+  const lastSpace = text.lastIndexOf(" ", length - 1);
+  return `${text.slice(0, lastSpace > 0 ? lastSpace : length - 1)}…`;
+}
+
+function headTags(meta: PageMeta): string {
+  const attribute = (value: string) => `"${escapeHtml(value)}"`;
+  const tags = [
+    `<meta name="description" content=${attribute(meta.description)} />`,
+    `<link rel="canonical" href=${attribute(meta.url)} />`,
+    `<meta property="og:type" content=${attribute(meta.type)} />`,
+    `<meta property="og:title" content=${attribute(meta.title)} />`,
+    `<meta property="og:description" content=${attribute(meta.description)} />`,
+    `<meta property="og:url" content=${attribute(meta.url)} />`,
+    `<meta name="twitter:card" content="${
+      meta.image ? "summary_large_image" : "summary"
+    }" />`,
+    `<meta name="twitter:title" content=${attribute(meta.title)} />`,
+    `<meta name="twitter:description" content=${attribute(
+      meta.description
+    )} />`,
+  ];
+  if (meta.image) {
+    tags.push(
+      `<meta property="og:image" content=${attribute(meta.image)} />`,
+      `<meta name="twitter:image" content=${attribute(meta.image)} />`
+    );
+  }
+  return tags.join("\n    ");
+}
+
+// "<" is escaped so no string in the data can close the script element
+function dataScript(initialData: unknown): string {
+  const json = JSON.stringify(initialData).replace(/</g, "\\u003c");
+  return `<script id="initial-data" type="application/json">${json}</script>`;
+}
+
+export function createPageRenderer(options: {
+  // The built index.html, with <!--app-head--> and <!--app-html--> in it
+  templatePath: string;
+  bundlePath: string;
+}): PageRenderer {
+  // Loaded on first use; rebuilding the bundle needs a restart
+  let renderApp: RenderApp | null | undefined;
+
+  function loadApp(): RenderApp | null {
+    if (renderApp === undefined) {
+      renderApp = fs.existsSync(options.bundlePath)
+        ? require(options.bundlePath).render
+        : null;
+      if (!renderApp) {
+        console.warn(
+          `No SSR bundle at ${options.bundlePath}, pages will render in the browser only`
+        );
+      }
+    }
+    return renderApp ?? null;
+  }
+
+  return {
+    async render({ path, meta, initialData }) {
+      const template = await fs.promises.readFile(options.templatePath, "utf8");
+      const app = loadApp();
+      const head = [
+        headTags(meta),
+        ...(app ? [dataScript(initialData)] : []),
+      ].join("\n    ");
+
+      // Replacer functions, so "$" in the content is taken literally
+      return template
+        .replace(
+          /<title>[\s\S]*?<\/title>/,
+          () => `<title>${escapeHtml(meta.title)}</title>`
+        )
+        .replace("<!--app-head-->", () => head)
+        .replace("<!--app-html-->", () => (app ? app(path, initialData) : ""));
+    },
+  };
+}
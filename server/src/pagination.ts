@@ -0,0 +1,92 @@
+// Sorting and paging for public list endpoints. Pages are picked either by
+// number or with the opaque cursor the previous page returned; cursors hold
+// the sort key of the last item, so they keep working when items are added
+// or removed in between requests.
+
+export type SortDirection = "asc" | "desc";
+
+// The value sorted on, then the item's id to break ties
+export type SortKey = [string | number, string | number];
+
+export interface PageOptions {
+  direction: SortDirection;
+  limit: number;
+  // 1-based; ignored when a cursor is given
+  page?: number;
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Matching items across all pages
+  total: number;
+  // Null when the page was picked by cursor
+  page: number | null;
+  // Null on the last page
+  nextCursor: string | null;
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === "string" && typeof b === "string") {
+    return a.localeCompare(b);
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareKeys(a: SortKey, b: SortKey, direction: SortDirection) {
+  const result = compareValues(a[0], b[0]) || compareValues(a[1], b[1]);
+  return direction === "asc" ? result : -result;
+}
+
+function encodeCursor(key: SortKey): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+// Null when `cursor` wasn't made by encodeCursor
+function decodeCursor(cursor: string): SortKey | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    const isPart = (part: unknown) =>
+      typeof part === "string" || typeof part === "number";
+    return Array.isArray(key) && key.length === 2 && key.every(isPart)
+      ? (key as SortKey)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Resolves to null when the cursor is invalid
+export function paginate<T>(
+  items: T[],
+  keyOf: (item: T) => SortKey,
+  options: PageOptions
+): Page<T> | null {
+  const sorted = items
+    .map((item) => ({ item, key: keyOf(item) }))
+    .sort((a, b) => compareKeys(a.key, b.key, options.direction));
+
+  let start = 0;
+  if (options.cursor !== undefined) {
+    const after = decodeCursor(options.cursor);
+    if (!after) return null;
+    start = sorted.findIndex(
+      ({ key }) => compareKeys(key, after, options.direction) > 0
+    );
+    if (start === -1) start = sorted.length;
+  } else if (options.page !== undefined) {
+    start = (options.page - 1) * options.limit;
+  }
+
+  const slice = sorted.slice(start, start + options.limit);
+  const hasMore = start + slice.length < sorted.length;
+  return {
+    items: slice.map(({ item }) => item),
+    total: sorted.length,
+    page: options.cursor === undefined ? options.page ?? 1 : null,
+    nextCursor:
+      hasMore && slice.length > 0
+        ? encodeCursor(slice[slice.length - 1].key)
+        : null,
+  };
+}
@@ -0,0 +1,111 @@
+import fs from "fs/promises";
+import path from "path";
+import { createMemoryStorage, emptyState, StorageState } from "./memory";
+import { AuditEntry, Storage } from "./types";
+
+// Keeps everything in memory and mirrors each write to JSON files next to
+// `filePath`. Sessions and failed logins change on every login, so they get
+// files of their own, and the audit log, which only grows, is appended to one
+// entry per line. A file is only written when its part of the state changed.
+// Whole files are written to a temporary file that is renamed over the old
+// one, so a crash mid-write never leaves a truncated file behind.
+export function createFileStorage(filePath: string): Storage {
+  const resolvedPath = path.resolve(filePath);
+  // `data/portfolio.json` puts sessions in `data/portfolio.sessions.json`
+  const { dir, name } = path.parse(resolvedPath);
+  const sessionsPath = path.join(dir, `${name}.sessions.json`);
+  const failedLoginsPath = path.join(dir, `${name}.failed-logins.json`);
+  const auditPath = path.join(dir, `${name}.audit.jsonl`);
+
+  // What is on disk, to tell which files a write needs to touch
+  const written = { main: "", sessions: "", failedLogins: "", auditCount: 0 };
+
+  async function readIfExists(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async function load(): Promise<StorageState> {
+    const contents = await readIfExists(resolvedPath);
+    if (contents === null) {
+      console.log(`No data file at ${resolvedPath}, starting empty`);
+    }
+    const state: StorageState = {
+      ...emptyState(),
+      ...(contents === null ? {} : JSON.parse(contents)),
+    };
+
+    const sessionsFile = await readIfExists(sessionsPath);
+    if (sessionsFile !== null) state.sessions = JSON.parse(sessionsFile);
+    const failedLoginsFile = await readIfExists(failedLoginsPath);
+    if (failedLoginsFile !== null) {
+      state.failedLogins = JSON.parse(failedLoginsFile);
+    }
+    // A crash mid-append can leave the last line cut short. Its write never
+    // took effect, so it is dropped.
+    const lines = (await readIfExists(auditPath))?.split("\n") ?? [];
+    for (const line of lines) {
+      try {
+        if (line) state.audit.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        break;
+      }
+    }
+
+    const { audit, sessions, failedLogins, ...main } = state;
+    written.main = serialize(main);
+    written.sessions = serialize(sessions);
+    written.failedLogins = serialize(failedLogins);
+    written.auditCount = audit.length;
+    // Rewrites the log without a cut-short line, so appends start clean
+    if (lines.filter(Boolean).length !== audit.length) {
+      await replaceFile(auditPath, audit.map(toLine).join(""));
+    }
+    return state;
+  }
+
+  async function persist(state: StorageState) {
+    const { audit, sessions, failedLogins, ...main } = state;
+    await fs.mkdir(dir, { recursive: true });
+
+    const files = [
+      { part: "main", path: resolvedPath, value: main },
+      { part: "sessions", path: sessionsPath, value: sessions },
+      { part: "failedLogins", path: failedLoginsPath, value: failedLogins },
+    ] as const;
+    for (const file of files) {
+      const contents = serialize(file.value);
+      if (contents === written[file.part]) continue;
+      await replaceFile(file.path, contents);
+      written[file.part] = contents;
+    }
+
+    if (audit.length > written.auditCount) {
+      await fs.appendFile(
+        auditPath,
+        audit.slice(written.auditCount).map(toLine).join("")
+      );
+      written.auditCount = audit.length;
+    }
+  }
+
+  return createMemoryStorage({ name: "file", load, persist });
+}
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+function toLine(entry: AuditEntry): string {
+  return `${JSON.stringify(entry)}\n`;
+}
+
+async function replaceFile(filePath: string, contents: string) {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, contents);
+  await fs.rename(tempPath, filePath);
+}
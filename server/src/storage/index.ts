@@ -0,0 +1,28 @@
+import { createFileStorage } from "./file";
+import { createMemoryStorage } from "./memory";
+import { createMongoStorage } from "./mongo";
+import { Storage } from "./types";
+
+export * from "./types";
+export { searchTerms } from "./search";
+
+export type StorageBackend = "mongo" | "memory" | "file";
+
+interface StorageConfig {
+  backend: StorageBackend;
+  mongoUri: string;
+  filePath: string;
+}
+
+export function createStorage(config: StorageConfig): Storage {
+  switch (config.backend) {
+    case "mongo":
+      return createMongoStorage(config.mongoUri);
+    case "memory":
+      return createMemoryStorage();
+    case "file":
+      return createFileStorage(config.filePath);
+    default:
+      throw new Error(`Unknown storage backend: ${config.backend}`);
+  }
+}
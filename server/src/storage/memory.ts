@@ -0,0 +1,691 @@
+import { randomUUID } from "crypto";
+import {
+  PROJECT_SEARCH_WEIGHTS,
+  scoreText,
+  searchTerms,
+  SKILL_SEARCH_WEIGHTS,
+} from "./search";
+import { generateUniqueSlug } from "./slug";
+import {
+  AuditEntry,
+  AuditRepository,
+  ContactMessage,
+  ContactMessageRepository,
+  DuplicateValueError,
+  FailedLogin,
+  FailedLoginRepository,
+  Project,
+  ProjectRepository,
+  ProjectRevision,
+  ProjectRevisionRepository,
+  Session,
+  SessionRepository,
+  SettingsRepository,
+  Skill,
+  SkillRepository,
+  Storage,
+  TrashedProject,
+  User,
+  UserRepository,
+} from "./types";
+
+// Everything a memory-backed store holds; also the JSON file layout
+export interface StorageState {
+  nextProjectId: number;
+  projects: Project[];
+  trashedProjects: TrashedProject[];
+  projectRevisions: ProjectRevision[];
+  skills: Skill[];
+  settings: Record<string, unknown>;
+  users: User[];
+  sessions: Session[];
+  failedLogins: FailedLogin[];
+  audit: AuditEntry[];
+  contactMessages: ContactMessage[];
+}
+
+export function emptyState(): StorageState {
+  return {
+    nextProjectId: 1,
+    projects: [],
+    trashedProjects: [],
+    projectRevisions: [],
+    skills: [],
+    settings: {},
+    users: [],
+    sessions: [],
+    failedLogins: [],
+    audit: [],
+    contactMessages: [],
+  };
+}
+
+interface MemoryStorageOptions {
+  name?: string;
+  // Loads the initial state when connecting
+  load?: () => Promise<StorageState>;
+  // Called with the new state before a write is applied; if it throws, the
+  // write is abandoned and the previous state kept
+  persist?: (state: StorageState) => Promise<void>;
+}
+
+// Trashed projects keep their slugs, so they count as taken too
+function slugIsTaken(state: StorageState, excludeId?: number) {
+  return (slug: string) =>
+    [...state.projects, ...state.trashedProjects].some(
+      (p) => p.slug === slug && p.id !== excludeId
+    );
+}
+
+// Removes a project from the trash along with its revisions
+function purgeProject(draft: StorageState, project: TrashedProject) {
+  draft.trashedProjects = draft.trashedProjects.filter(
+    (p) => p.id !== project.id
+  );
+  draft.projectRevisions = draft.projectRevisions.filter(
+    (r) => r.projectId !== project.id
+  );
+}
+
+function sortProjects(projects: Project[]): Project[] {
+  return [...projects].sort((a, b) => a.order - b.order || a.id - b.id);
+}
+
+function sortSkills(skills: Skill[]): Skill[] {
+  return [...skills].sort((a, b) => a.order - b.order);
+}
+
+export function createMemoryStorage(
+  options: MemoryStorageOptions = {}
+): Storage {
+  let state = emptyState();
+  let connected = false;
+  // Writes run one at a time so none of them works on a stale state
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  // Copies keep callers from mutating stored records
+  const copy = <T>(value: T): T => structuredClone(value);
+
+  // Applies `change` to a copy of the state and swaps it in once persisted
+  function write<T>(change: (draft: StorageState) => T | Promise<T>) {
+    const result = writeQueue.then(async () => {
+      const draft = copy(state);
+      const value = await change(draft);
+      await options.persist?.(draft);
+      state = draft;
+      return copy(value);
+    });
+    writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  const projects: ProjectRepository = {
+    async list() {
+      return copy(sortProjects(state.projects));
+    },
+
+    async findById(id) {
+      return copy(state.projects.find((p) => p.id === id) ?? null);
+    },
+
+    async findBySlug(slug) {
+      return copy(state.projects.find((p) => p.slug === slug) ?? null);
+    },
+
+    async search(text) {
+      const terms = searchTerms(text);
+      const weights = PROJECT_SEARCH_WEIGHTS;
+      const hits = sortProjects(state.projects)
+        .map((project) => ({
+          item: project,
+          score:
+            scoreText(terms, project.title, weights.title) +
+            scoreText(terms, project.tech.join(" "), weights.tech) +
+            scoreText(terms, project.description, weights.description),
+        }))
+        .filter((hit) => hit.score > 0);
+      return copy(hits.sort((a, b) => b.score - a.score));
+    },
+
+    create(input) {
+      return write(async (draft) => {
+        const isTaken = slugIsTaken(draft);
+
+        if (input.slug && isTaken(input.slug)) {
+          throw new DuplicateValueError("slug");
+        }
+
+        const lastOrder = Math.max(
+          -1,
+          ...[...draft.projects, ...draft.trashedProjects].map((p) => p.order)
+        );
+        const now = new Date().toISOString();
+        const project: Project = {
+          ...input,
+          updatedAt: now,
+          publishedAt: input.status === "published" ? now : null,
+          id: draft.nextProjectId++,
+          order: lastOrder + 1,
+          slug: input.slug || (await generateUniqueSlug(input.title, isTaken)),
+        };
+        draft.projects.push(project);
+        return project;
+      });
+    },
+
+    update(id, changes) {
+      return write(async (draft) => {
+        const project = draft.projects.find((p) => p.id === id);
+        if (!project) return null;
+
+        const isTaken = slugIsTaken(draft, id);
+
+        const now = new Date().toISOString();
+        if (changes.status === "published" && project.status !== "published") {
+          project.publishedAt = now;
+        }
+        project.updatedAt = now;
+
+        const { slug, ...rest } = changes;
+        Object.assign(project, rest);
+        if (slug === null) {
+          project.slug = await generateUniqueSlug(project.title, isTaken);
+        } else if (slug !== undefined) {
+          if (isTaken(slug)) throw new DuplicateValueError("slug");
+          project.slug = slug;
+        }
+        return project;
+      });
+    },
+
+    reorder(ids) {
+      return write((draft) => {
+        const byId = new Map(draft.projects.map((p) => [p.id, p]));
+        if (ids.some((id) => !byId.has(id))) return null;
+        ids.forEach((id, order) => {
+          byId.get(id)!.order = order;
+        });
+        return sortProjects(draft.projects);
+      });
+    },
+
+    trash(id) {
+      return write((draft) => {
+        const index = draft.projects.findIndex((p) => p.id === id);
+        if (index === -1) return null;
+        const [project] = draft.projects.splice(index, 1);
+        const trashed = { ...project, deletedAt: new Date().toISOString() };
+        draft.trashedProjects.push(trashed);
+        return trashed;
+      });
+    },
+
+    async listTrashed() {
+      return copy(
+        [...state.trashedProjects].sort((a, b) =>
+          b.deletedAt.localeCompare(a.deletedAt)
+        )
+      );
+    },
+
+    restore(id) {
+      return write((draft) => {
+        const index = draft.trashedProjects.findIndex((p) => p.id === id);
+        if (index === -1) return null;
+        const [{ deletedAt: _deletedAt, ...project }] =
+          draft.trashedProjects.splice(index, 1);
+        project.updatedAt = new Date().toISOString();
+        draft.projects.push(project);
+        return project;
+      });
+    },
+
+    purge(id) {
+      return write((draft) => {
+        const project = draft.trashedProjects.find((p) => p.id === id);
+        if (!project) return null;
+        purgeProject(draft, project);
+        return project;
+      });
+    },
+
+    purgeTrashedBefore(date) {
+      return write((draft) => {
+        const expired = draft.trashedProjects.filter((p) => p.deletedAt < date);
+        expired.forEach((project) => purgeProject(draft, project));
+        return expired;
+      });
+    },
+  };
+
+  const projectRevisions: ProjectRevisionRepository = {
+    append(input) {
+      return write((draft) => {
+        const projectId = input.project.id;
+        const latest = Math.max(
+          0,
+          ...draft.projectRevisions
+            .filter((r) => r.projectId === projectId)
+            .map((r) => r.number)
+        );
+        const revision: ProjectRevision = {
+          ...input,
+          projectId,
+          number: latest + 1,
+          createdAt: new Date().toISOString(),
+        };
+        draft.projectRevisions.push(revision);
+        return revision;
+      });
+    },
+
+    async list(projectId) {
+      return copy(
+        state.projectRevisions
+          .filter((r) => r.projectId === projectId)
+          .sort((a, b) => b.number - a.number)
+      );
+    },
+
+    async find(projectId, number) {
+      return copy(
+        state.projectRevisions.find(
+          (r) => r.projectId === projectId && r.number === number
+        ) ?? null
+      );
+    },
+  };
+
+  const skills: SkillRepository = {
+    async list() {
+      return copy(sortSkills(state.skills));
+    },
+
+    async search(text) {
+      const terms = searchTerms(text);
+      const hits = sortSkills(state.skills)
+        .map((skill) => ({
+          item: skill,
+          score: scoreText(terms, skill.name, SKILL_SEARCH_WEIGHTS.name),
+        }))
+        .filter((hit) => hit.score > 0);
+      return copy(hits.sort((a, b) => b.score - a.score));
+    },
+
+    create(input) {
+      return write((draft) => {
+        const lastOrder = Math.max(-1, ...draft.skills.map((s) => s.order));
+        const skill: Skill = {
+          ...input,
+          id: randomUUID(),
+          order: lastOrder + 1,
+        };
+        draft.skills.push(skill);
+        return skill;
+      });
+    },
+
+    update(id, changes) {
+      return write((draft) => {
+        const skill = draft.skills.find((s) => s.id === id);
+        if (!skill) return null;
+        Object.assign(skill, changes);
+        return skill;
+      });
+    },
+
+    delete(id) {
+      return write((draft) => {
+        const index = draft.skills.findIndex((s) => s.id === id);
+        if (index === -1) return false;
+        draft.skills.splice(index, 1);
+        return true;
+      });
+    },
+
+    reorder(ids) {
+      return write((draft) => {
+        const byId = new Map(draft.skills.map((s) => [s.id, s]));
+        if (ids.some((id) => !byId.has(id))) return null;
+        ids.forEach((id, order) => {
+          byId.get(id)!.order = order;
+        });
+        return sortSkills(draft.skills);
+      });
+    },
+
+    replaceAll(entries) {
+      return write((draft) => {
+        const ids = new Set<string>();
+        draft.skills = entries.map((entry, order) => {
+          const id = entry.id ?? randomUUID();
+          if (ids.has(id)) throw new DuplicateValueError("id");
+          ids.add(id);
+          return { ...entry, id, order };
+        });
+        return draft.skills;
+      });
+    },
+  };
+
+  const settings: SettingsRepository = {
+    async get<T>(key: string) {
+      return copy(state.settings[key]) as T | undefined;
+    },
+
+    async set(key, value) {
+      await write((draft) => {
+        draft.settings[key] = value;
+      });
+    },
+  };
+
+  const users: UserRepository = {
+    async list() {
+      return copy(state.users);
+    },
+
+    async count() {
+      return state.users.length;
+    },
+
+    async findById(id) {
+      return copy(state.users.find((u) => u.id === id) ?? null);
+    },
+
+    async findByUsername(username) {
+      const normalized = username.toLowerCase();
+      return copy(state.users.find((u) => u.username === normalized) ?? null);
+    },
+
+    create(input) {
+      return write((draft) => {
+        const username = input.username.toLowerCase();
+        if (draft.users.some((u) => u.username === username)) {
+          throw new DuplicateValueError("username");
+        }
+
+        const now = new Date().toISOString();
+        const user: User = {
+          ...input,
+          id: randomUUID(),
+          username,
+          createdAt: now,
+          passwordChangedAt: now,
+          totpSecret: null,
+          pendingTotpSecret: null,
+          totpLastUsedStep: null,
+          recoveryCodeHashes: [],
+        };
+        draft.users.push(user);
+        return user;
+      });
+    },
+
+    setPassword(id, passwordHash) {
+      return write((draft) => {
+        const user = draft.users.find((u) => u.id === id);
+        if (!user) return null;
+        user.passwordHash = passwordHash;
+        user.passwordChangedAt = new Date().toISOString();
+        return user;
+      });
+    },
+
+    update(id, changes) {
+      return write((draft) => {
+        const user = draft.users.find((u) => u.id === id);
+        if (!user) return null;
+        Object.assign(user, changes);
+        return user;
+      });
+    },
+
+    delete(id) {
+      return write((draft) => {
+        const index = draft.users.findIndex((u) => u.id === id);
+        if (index === -1) return false;
+        draft.users.splice(index, 1);
+        return true;
+      });
+    },
+
+    claimTotpStep(id, step) {
+      return write((draft) => {
+        const user = draft.users.find((u) => u.id === id);
+        if (!user || (user.totpLastUsedStep ?? -1) >= step) return false;
+        user.totpLastUsedStep = step;
+        return true;
+      });
+    },
+
+    useRecoveryCode(id, codeHash) {
+      return write((draft) => {
+        const user = draft.users.find((u) => u.id === id);
+        const index = user?.recoveryCodeHashes.indexOf(codeHash) ?? -1;
+        if (!user || index === -1) return false;
+        user.recoveryCodeHashes.splice(index, 1);
+        return true;
+      });
+    },
+  };
+
+  const isActive = (session: Session, now: string) =>
+    session.revokedAt === null && session.expiresAt > now;
+
+  const sessions: SessionRepository = {
+    async findById(id) {
+      return copy(state.sessions.find((s) => s.id === id) ?? null);
+    },
+
+    async listActive(userId) {
+      const now = new Date().toISOString();
+      return copy(
+        state.sessions
+          .filter((s) => s.userId === userId && isActive(s, now))
+          .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+      );
+    },
+
+    create(input) {
+      return write((draft) => {
+        const now = new Date().toISOString();
+        const session: Session = {
+          ...input,
+          id: randomUUID(),
+          createdAt: now,
+          lastUsedAt: now,
+          revokedAt: null,
+        };
+        draft.sessions.push(session);
+        return session;
+      });
+    },
+
+    rotate(id, currentHash, nextHash, expiresAt) {
+      return write((draft) => {
+        const now = new Date().toISOString();
+        const session = draft.sessions.find((s) => s.id === id);
+        if (
+          !session ||
+          !isActive(session, now) ||
+          session.refreshTokenHash !== currentHash
+        ) {
+          return null;
+        }
+        Object.assign(session, {
+          refreshTokenHash: nextHash,
+          lastUsedAt: now,
+          expiresAt,
+        });
+        return session;
+      });
+    },
+
+    revoke(id) {
+      return write((draft) => {
+        const now = new Date().toISOString();
+        const session = draft.sessions.find((s) => s.id === id);
+        if (!session || !isActive(session, now)) return false;
+        session.revokedAt = now;
+        return true;
+      });
+    },
+
+    revokeAll(userId, exceptId) {
+      return write((draft) => {
+        const now = new Date().toISOString();
+        const revoked = draft.sessions.filter(
+          (s) => s.userId === userId && s.id !== exceptId && isActive(s, now)
+        );
+        revoked.forEach((s) => (s.revokedAt = now));
+        return revoked.length;
+      });
+    },
+
+    deleteExpired() {
+      return write((draft) => {
+        const now = new Date().toISOString();
+        const before = draft.sessions.length;
+        draft.sessions = draft.sessions.filter((s) => s.expiresAt > now);
+        return before - draft.sessions.length;
+      });
+    },
+  };
+
+  const failedLogins: FailedLoginRepository = {
+    record(input) {
+      return write((draft) => {
+        const failedLogin: FailedLogin = {
+          ...input,
+          id: randomUUID(),
+          createdAt: new Date().toISOString(),
+        };
+        draft.failedLogins.push(failedLogin);
+        return failedLogin;
+      });
+    },
+
+    async list(limit) {
+      return copy(state.failedLogins.slice(-limit).reverse());
+    },
+
+    deleteOlderThan(date) {
+      return write((draft) => {
+        const before = draft.failedLogins.length;
+        draft.failedLogins = draft.failedLogins.filter(
+          (f) => f.createdAt >= date
+        );
+        return before - draft.failedLogins.length;
+      });
+    },
+  };
+
+  const audit: AuditRepository = {
+    append(input) {
+      return write((draft) => {
+        const entry: AuditEntry = {
+          ...input,
+          id: randomUUID(),
+          createdAt: new Date().toISOString(),
+        };
+        draft.audit.push(entry);
+        return entry;
+      });
+    },
+
+    async list({ resource, userId, before, limit }) {
+      const matches = state.audit.filter(
+        (entry) =>
+          (!resource || entry.resource === resource) &&
+          (!userId || entry.userId === userId) &&
+          (!before || entry.createdAt < before)
+      );
+      return copy(matches.slice(-limit).reverse());
+    },
+  };
+
+  const contactMessages: ContactMessageRepository = {
+    create(input) {
+      return write((draft) => {
+        const message: ContactMessage = {
+          ...input,
+          id: randomUUID(),
+          createdAt: new Date().toISOString(),
+          readAt: null,
+          archivedAt: null,
+        };
+        draft.contactMessages.push(message);
+        return message;
+      });
+    },
+
+    async list({ archived, before, limit }) {
+      const matches = state.contactMessages.filter(
+        (message) =>
+          (message.archivedAt !== null) === archived &&
+          (!before || message.createdAt < before)
+      );
+      return copy(matches.slice(-limit).reverse());
+    },
+
+    async countUnread() {
+      return state.contactMessages.filter(
+        (message) => message.readAt === null && message.archivedAt === null
+      ).length;
+    },
+
+    update(id, changes) {
+      return write((draft) => {
+        const message = draft.contactMessages.find((m) => m.id === id);
+        if (!message) return null;
+        Object.assign(message, changes);
+        return message;
+      });
+    },
+
+    delete(id) {
+      return write((draft) => {
+        const before = draft.contactMessages.length;
+        draft.contactMessages = draft.contactMessages.filter(
+          (m) => m.id !== id
+        );
+        return draft.contactMessages.length < before;
+      });
+    },
+  };
+
+  return {
+    name: options.name ?? "memory",
+    projects,
+    projectRevisions,
+    skills,
+    settings,
+    users,
+    sessions,
+    failedLogins,
+    audit,
+    contactMessages,
+
+    async connect() {
+      if (options.load) {
+        state = await options.load();
+      }
+      connected = true;
+    },
+
+    isConnected() {
+      return connected;
+    },
+
+    async check() {
+      return { status: connected ? "connected" : "disconnected", latencyMs: 0 };
+    },
+
+    async close() {
+      // Let pending writes finish before reporting closed
+      await writeQueue;
+      connected = false;
+    },
+  };
+}
@@ -0,0 +1,1215 @@
+import { randomUUID } from "crypto";
+import mongoose from "mongoose";
+import { PROJECT_SEARCH_WEIGHTS, SKILL_SEARCH_WEIGHTS } from "./search";
+import { generateUniqueSlug } from "./slug";
+import {
+  AUDIT_RESOURCES,
+  AuditEntry,
+  AuditRepository,
+  ContactMessage,
+  ContactMessageRepository,
+  DuplicateValueError,
+  FailedLogin,
+  FailedLoginRepository,
+  Project,
+  ProjectChanges,
+  ProjectRepository,
+  ProjectRevision,
+  ProjectRevisionRepository,
+  PROJECT_STATUSES,
+  Role,
+  ROLES,
+  Session,
+  SessionRepository,
+  SettingsRepository,
+  Skill,
+  SkillRepository,
+  Storage,
+  StorageStatus,
+  TrashedProject,
+  User,
+  UserRepository,
+} from "./types";
+
+const DB_PING_TIMEOUT_MS = 2000;
+
+// Transactions need a replica set or a sharded cluster; a standalone
+// server, like the default MONGO_URI, rejects them
+let transactionSupport: boolean | null = null;
+
+async function supportsTransactions(): Promise<boolean> {
+  if (transactionSupport === null) {
+    const db = mongoose.connection.db;
+    if (!db) throw new Error("Not connected to MongoDB");
+    const reply = await db.admin().command({ hello: 1 });
+    transactionSupport = Boolean(reply.setName) || reply.msg === "isdbgrid";
+  }
+  return transactionSupport;
+}
+
+const DB_STATES: Record<number, string> = {
+  0: "disconnected",
+  1: "connected",
+  2: "connecting",
+  3: "disconnecting",
+};
+
+// Fields never sent to clients
+const HIDDEN_FIELDS = "-_id -__v -createdAt -updatedAt";
+
+// ---------------- Mongoose Schemas ----------------
+
+const projectImageSchema = new mongoose.Schema(
+  {
+    url: { type: String, required: true },
+    webpUrl: { type: String, required: true },
+    thumbnailUrl: { type: String, required: true },
+    thumbnailWebpUrl: { type: String, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+    alt: { type: String, default: null },
+  },
+  { _id: false }
+);
+
+const projectSchema = new mongoose.Schema(
+  {
+    id: { type: Number, unique: true, required: true },
+    slug: { type: String, unique: true, required: true },
+    title: { type: String, required: true },
+    description: { type: String, default: null },
+    tech: [{ type: String }],
+    demoUrl: { type: String },
+    sourceUrl: { type: String },
+    featured: { type: Boolean, default: false },
+    status: { type: String, enum: PROJECT_STATUSES, default: "draft" },
+    publishAt: { type: String, default: null },
+    order: { type: Number, default: 0 },
+    caseStudy: { type: String, default: null },
+    role: { type: String, default: null },
+    timeline: { type: String, default: null },
+    challenges: { type: [String], default: [] },
+    outcomes: { type: [String], default: [] },
+    coverImage: { type: projectImageSchema, default: null },
+    gallery: { type: [projectImageSchema], default: [] },
+    publishedAt: { type: String, default: null },
+    // Set while the project is in the trash
+    deletedAt: { type: Date, default: null, index: true },
+  },
+  { timestamps: true }
+);
+projectSchema.index(
+  { title: "text", description: "text", tech: "text" },
+  { name: "project_search", weights: PROJECT_SEARCH_WEIGHTS }
+);
+
+const projectRevisionSchema = new mongoose.Schema({
+  projectId: { type: Number, required: true },
+  number: { type: Number, required: true },
+  project: { type: mongoose.Schema.Types.Mixed, required: true },
+  userId: { type: String, default: null },
+  username: { type: String, default: null },
+  createdAt: { type: Date, required: true, default: Date.now },
+});
+projectRevisionSchema.index({ projectId: 1, number: -1 }, { unique: true });
+
+const skillSchema = new mongoose.Schema(
+  {
+    id: {
+      type: String,
+      unique: true,
+      required: true,
+      default: () => randomUUID(),
+    },
+    name: { type: String, required: true },
+    level: { type: Number, required: true, min: 0, max: 100 },
+    category: {
+      type: String,
+      required: true,
+      enum: ["frontend", "backend", "tools", "database", "other"],
+    },
+    order: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+skillSchema.index(
+  { name: "text" },
+  { name: "skill_search", weights: SKILL_SEARCH_WEIGHTS }
+);
+
+const counterSchema = new mongoose.Schema({
+  key: { type: String, required: true, unique: true },
+  seq: { type: Number, required: true, default: 0 },
+});
+
+const settingsSchema = new mongoose.Schema(
+  {
+    key: { type: String, required: true, unique: true },
+    value: { type: mongoose.Schema.Types.Mixed, required: true },
+  },
+  { timestamps: true }
+);
+
+const userSchema = new mongoose.Schema(
+  {
+    id: {
+      type: String,
+      unique: true,
+      required: true,
+      default: () => randomUUID(),
+    },
+    username: { type: String, unique: true, required: true, lowercase: true },
+    passwordHash: { type: String, required: true },
+    role: { type: String, enum: ROLES, required: true },
+    passwordChangedAt: { type: Date, required: true, default: Date.now },
+    totpSecret: { type: String, default: null },
+    pendingTotpSecret: { type: String, default: null },
+    totpLastUsedStep: { type: Number, default: null },
+    recoveryCodeHashes: { type: [String], default: [] },
+  },
+  { timestamps: true }
+);
+
+const sessionSchema = new mongoose.Schema({
+  id: {
+    type: String,
+    unique: true,
+    required: true,
+    default: () => randomUUID(),
+  },
+  userId: { type: String, required: true, index: true },
+  refreshTokenHash: { type: String, required: true },
+  userAgent: { type: String, default: null },
+  createdAt: { type: Date, required: true, default: Date.now },
+  lastUsedAt: { type: Date, required: true, default: Date.now },
+  expiresAt: { type: Date, required: true },
+  revokedAt: { type: Date, default: null },
+});
+
+const failedLoginSchema = new mongoose.Schema({
+  id: {
+    type: String,
+    unique: true,
+    required: true,
+    default: () => randomUUID(),
+  },
+  username: { type: String, required: true },
+  ip: { type: String, required: true },
+  userAgent: { type: String, default: null },
+  lockedOut: { type: Boolean, required: true, default: false },
+  createdAt: { type: Date, required: true, default: Date.now, index: true },
+});
+
+const auditEntrySchema = new mongoose.Schema({
+  id: {
+    type: String,
+    unique: true,
+    required: true,
+    default: () => randomUUID(),
+  },
+  userId: { type: String, required: true, index: true },
+  username: { type: String, required: true },
+  action: {
+    type: String,
+    enum: ["create", "update", "delete", "reorder", "restore", "purge"],
+    required: true,
+  },
+  resource: {
+    type: String,
+    enum: AUDIT_RESOURCES,
+    required: true,
+    index: true,
+  },
+  resourceId: { type: String, default: null },
+  ip: { type: String, required: true },
+  changes: { type: mongoose.Schema.Types.Mixed, required: true },
+  createdAt: { type: Date, required: true, default: Date.now, index: true },
+});
+
+const contactMessageSchema = new mongoose.Schema({
+  id: {
+    type: String,
+    unique: true,
+    required: true,
+    default: () => randomUUID(),
+  },
+  name: { type: String, required: true },
+  email: { type: String, required: true },
+  subject: { type: String, default: null },
+  message: { type: String, required: true },
+  ip: { type: String, required: true },
+  userAgent: { type: String, default: null },
+  createdAt: { type: Date, required: true, default: Date.now, index: true },
+  readAt: { type: Date, default: null },
+  archivedAt: { type: Date, default: null },
+});
+
+// Models
+const ProjectModel = mongoose.model("Project", projectSchema);
+const ProjectRevisionModel = mongoose.model(
+  "ProjectRevision",
+  projectRevisionSchema
+);
+const SkillModel = mongoose.model("Skill", skillSchema);
+const SettingsModel = mongoose.model("Settings", settingsSchema);
+const CounterModel = mongoose.model("Counter", counterSchema);
+const UserModel = mongoose.model("User", userSchema);
+const SessionModel = mongoose.model("Session", sessionSchema);
+const FailedLoginModel = mongoose.model("FailedLogin", failedLoginSchema);
+const AuditEntryModel = mongoose.model("AuditEntry", auditEntrySchema);
+const ContactMessageModel = mongoose.model(
+  "ContactMessage",
+  contactMessageSchema
+);
+
+// ---------------- Helpers ----------------
+
+function isDuplicateKeyError(error: unknown, field: string): boolean {
+  const mongoError = error as { code?: number; keyPattern?: object };
+  return (
+    mongoError?.code === 11000 &&
+    mongoError.keyPattern !== undefined &&
+    field in mongoError.keyPattern
+  );
+}
+
+function toUser(doc: {
+  id: string;
+  username: string;
+  passwordHash: string;
+  role: string;
+  createdAt: Date;
+  passwordChangedAt: Date;
+  totpSecret?: string | null;
+  pendingTotpSecret?: string | null;
+  totpLastUsedStep?: number | null;
+  recoveryCodeHashes?: string[];
+}): User {
+  return {
+    id: doc.id,
+    username: doc.username,
+    passwordHash: doc.passwordHash,
+    role: doc.role as Role,
+    createdAt: doc.createdAt.toISOString(),
+    passwordChangedAt: doc.passwordChangedAt.toISOString(),
+    totpSecret: doc.totpSecret ?? null,
+    pendingTotpSecret: doc.pendingTotpSecret ?? null,
+    totpLastUsedStep: doc.totpLastUsedStep ?? null,
+    recoveryCodeHashes: [...(doc.recoveryCodeHashes ?? [])],
+  };
+}
+
+function toSession(doc: {
+  id: string;
+  userId: string;
+  refreshTokenHash: string;
+  userAgent?: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+}): Session {
+  return {
+    id: doc.id,
+    userId: doc.userId,
+    refreshTokenHash: doc.refreshTokenHash,
+    userAgent: doc.userAgent ?? null,
+    createdAt: doc.createdAt.toISOString(),
+    lastUsedAt: doc.lastUsedAt.toISOString(),
+    expiresAt: doc.expiresAt.toISOString(),
+    revokedAt: doc.revokedAt?.toISOString() ?? null,
+  };
+}
+
+function toFailedLogin(doc: {
+  id: string;
+  username: string;
+  ip: string;
+  userAgent?: string | null;
+  lockedOut: boolean;
+  createdAt: Date;
+}): FailedLogin {
+  return {
+    id: doc.id,
+    username: doc.username,
+    ip: doc.ip,
+    userAgent: doc.userAgent ?? null,
+    lockedOut: doc.lockedOut,
+    createdAt: doc.createdAt.toISOString(),
+  };
+}
+
+function toAuditEntry(doc: {
+  id: string;
+  userId: string;
+  username: string;
+  action: string;
+  resource: string;
+  resourceId?: string | null;
+  ip: string;
+  changes: unknown;
+  createdAt: Date;
+}): AuditEntry {
+  return {
+    id: doc.id,
+    userId: doc.userId,
+    username: doc.username,
+    action: doc.action as AuditEntry["action"],
+    resource: doc.resource as AuditEntry["resource"],
+    resourceId: doc.resourceId ?? null,
+    ip: doc.ip,
+    changes: doc.changes as AuditEntry["changes"],
+    createdAt: doc.createdAt.toISOString(),
+  };
+}
+
+function toContactMessage(doc: {
+  id: string;
+  name: string;
+  email: string;
+  subject?: string | null;
+  message: string;
+  ip: string;
+  userAgent?: string | null;
+  createdAt: Date;
+  readAt?: Date | null;
+  archivedAt?: Date | null;
+}): ContactMessage {
+  return {
+    id: doc.id,
+    name: doc.name,
+    email: doc.email,
+    subject: doc.subject ?? null,
+    message: doc.message,
+    ip: doc.ip,
+    userAgent: doc.userAgent ?? null,
+    createdAt: doc.createdAt.toISOString(),
+    readAt: doc.readAt?.toISOString() ?? null,
+    archivedAt: doc.archivedAt?.toISOString() ?? null,
+  };
+}
+
+function toProjectRevision(doc: {
+  projectId: number;
+  number: number;
+  project: unknown;
+  userId?: string | null;
+  username?: string | null;
+  createdAt: Date;
+}): ProjectRevision {
+  return {
+    projectId: doc.projectId,
+    number: doc.number,
+    project: doc.project as Project,
+    userId: doc.userId ?? null,
+    username: doc.username ?? null,
+    createdAt: doc.createdAt.toISOString(),
+  };
+}
+
+// Matches projects that aren't in the trash
+const LIVE_PROJECT = { deletedAt: null };
+// Projects are sent with the time of their last change
+const TRASHED_PROJECT_FIELDS = "-_id -__v -createdAt";
+const PROJECT_FIELDS = `${TRASHED_PROJECT_FIELDS} -deletedAt`;
+
+// As stored, with the timestamps still Dates
+type ProjectDoc = Omit<Project, "updatedAt"> & { updatedAt: Date };
+type TrashedProjectDoc = ProjectDoc & { deletedAt: Date };
+
+function toProject(doc: ProjectDoc): Project {
+  return { ...doc, updatedAt: doc.updatedAt.toISOString() };
+}
+
+function toTrashedProject(doc: TrashedProjectDoc): TrashedProject {
+  return { ...toProject(doc), deletedAt: doc.deletedAt.toISOString() };
+}
+
+// Matches sessions that are neither revoked nor expired
+function activeSessionFilter() {
+  return { revokedAt: null, expiresAt: { $gt: new Date() } };
+}
+
+function slugIsTaken(excludeId?: number) {
+  return async (slug: string) =>
+    (await ProjectModel.exists(
+      excludeId === undefined ? { slug } : { slug, id: { $ne: excludeId } }
+    )) !== null;
+}
+
+// Get next project ID. The counter is incremented atomically, so concurrent
+// requests never receive the same id.
+async function getNextProjectId(): Promise<number> {
+  const counter = await CounterModel.findOneAndUpdate(
+    { key: "projectId" },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+  return counter.seq;
+}
+
+// Revision numbers come from a counter per project for the same reason
+async function getNextRevisionNumber(projectId: number): Promise<number> {
+  const counter = await CounterModel.findOneAndUpdate(
+    { key: `projectRevision:${projectId}` },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+  return counter.seq;
+}
+
+// Bring documents written by older versions up to the current shape
+async function migrate() {
+  // Give skills stored before stable ids existed an id of their own
+  const skillsWithoutId = await SkillModel.collection
+    .find({ id: { $exists: false } })
+    .toArray();
+  if (skillsWithoutId.length > 0) {
+    await SkillModel.collection.bulkWrite(
+      skillsWithoutId.map((skill) => ({
+        updateOne: {
+          filter: { _id: skill._id },
+          update: { $set: { id: randomUUID() } },
+        },
+      }))
+    );
+    await SkillModel.createIndexes();
+    console.log(`Assigned ids to ${skillsWithoutId.length} skills`);
+  }
+
+  // Make sure the project id counter starts above any existing project
+  const lastProject = await ProjectModel.findOne().sort({ id: -1 });
+  await CounterModel.updateOne(
+    { key: "projectId" },
+    { $max: { seq: lastProject?.id ?? 0 } },
+    { upsert: true }
+  );
+
+  // Give projects stored before slugs existed one derived from the title
+  const projectsWithoutSlug = await ProjectModel.collection
+    .find({ slug: { $exists: false } })
+    .toArray();
+  for (const project of projectsWithoutSlug) {
+    await ProjectModel.collection.updateOne(
+      { _id: project._id },
+      { $set: { slug: await generateUniqueSlug(project.title, slugIsTaken()) } }
+    );
+  }
+  if (projectsWithoutSlug.length > 0) {
+    await ProjectModel.createIndexes();
+    console.log(`Assigned slugs to ${projectsWithoutSlug.length} projects`);
+  }
+
+  // Projects from before drafts existed were all on the public site
+  const { modifiedCount: publishedCount } =
+    await ProjectModel.collection.updateMany(
+      { status: { $exists: false } },
+      { $set: { status: "published", publishAt: null } }
+    );
+  if (publishedCount > 0) {
+    console.log(`Marked ${publishedCount} existing projects as published`);
+  }
+
+  // Keep projects from before ordering existed in creation order
+  const { modifiedCount: orderedCount } =
+    await ProjectModel.collection.updateMany({ order: { $exists: false } }, [
+      { $set: { order: "$id" } },
+    ]);
+  if (orderedCount > 0) {
+    console.log(`Gave ${orderedCount} existing projects a display order`);
+  }
+
+  // Projects from before case studies existed have none
+  const { modifiedCount: caseStudyCount } =
+    await ProjectModel.collection.updateMany(
+      { caseStudy: { $exists: false } },
+      {
+        $set: {
+          caseStudy: null,
+          role: null,
+          timeline: null,
+          challenges: [],
+          outcomes: [],
+        },
+      }
+    );
+  if (caseStudyCount > 0) {
+    console.log(`Added case study fields to ${caseStudyCount} projects`);
+  }
+
+  // Projects from before uploads existed have no images
+  const { modifiedCount: imageCount } =
+    await ProjectModel.collection.updateMany(
+      { gallery: { $exists: false } },
+      { $set: { coverImage: null, gallery: [] } }
+    );
+  if (imageCount > 0) {
+    console.log(`Added image fields to ${imageCount} projects`);
+  }
+
+  // Projects published before publishing was timed count from their creation
+  const { modifiedCount: publishedAtCount } =
+    await ProjectModel.collection.updateMany(
+      { publishedAt: { $exists: false } },
+      [
+        {
+          $set: {
+            publishedAt: {
+              $cond: [
+                { $eq: ["$status", "published"] },
+                { $dateToString: { date: "$createdAt" } },
+                null,
+              ],
+            },
+          },
+        },
+      ]
+    );
+  if (publishedAtCount > 0) {
+    console.log(`Added publishing dates to ${publishedAtCount} projects`);
+  }
+
+  // Users created before roles existed were all administrators
+  const { modifiedCount } = await UserModel.collection.updateMany(
+    { role: { $exists: false } },
+    { $set: { role: "admin" } }
+  );
+  if (modifiedCount > 0) {
+    console.log(`Made ${modifiedCount} existing users admins`);
+  }
+}
+
+// ---------------- Repositories ----------------
+
+const projects: ProjectRepository = {
+  async list() {
+    const docs = await ProjectModel.find(LIVE_PROJECT)
+      .sort({ order: 1, id: 1 })
+      .select(PROJECT_FIELDS)
+      .lean<ProjectDoc[]>();
+    return docs.map(toProject);
+  },
+
+  async findById(id) {
+    const doc = await ProjectModel.findOne({ id, ...LIVE_PROJECT })
+      .select(PROJECT_FIELDS)
+      .lean<ProjectDoc>();
+    return doc && toProject(doc);
+  },
+
+  async findBySlug(slug) {
+    const doc = await ProjectModel.findOne({ slug, ...LIVE_PROJECT })
+      .select(PROJECT_FIELDS)
+      .lean<ProjectDoc>();
+    return doc && toProject(doc);
+  },
+
+  async search(text) {
+    const docs = await ProjectModel.find(
+      { $text: { $search: text }, ...LIVE_PROJECT },
+      { score: { $meta: "textScore" } }
+    )
+      .sort({ score: { $meta: "textScore" } })
+      .select(PROJECT_FIELDS)
+      .lean<(ProjectDoc & { score: number })[]>();
+    return docs.map(({ score, ...doc }) => ({ item: toProject(doc), score }));
+  },
+
+  async create(input) {
+    const id = await getNextProjectId();
+    const lastProject = await ProjectModel.findOne().sort({ order: -1 });
+    const project = new ProjectModel({
+      ...input,
+      id,
+      order: lastProject ? lastProject.order + 1 : 0,
+      publishedAt:
+        input.status === "published" ? new Date().toISOString() : null,
+    });
+
+    try {
+      if (input.slug) {
+        await project.save();
+      } else {
+        // Another request may claim the same generated slug between the
+        // check and the insert, so regenerate and retry on a collision
+        for (let attempt = 1; ; attempt++) {
+          project.slug = await generateUniqueSlug(input.title, slugIsTaken());
+          try {
+            await project.save();
+            break;
+          } catch (error) {
+            if (attempt >= 5 || !isDuplicateKeyError(error, "slug")) {
+              throw error;
+            }
+          }
+        }
+      }
+    } catch (error) {
+      if (isDuplicateKeyError(error, "slug")) {
+        throw new DuplicateValueError("slug");
+      }
+      throw error;
+    }
+
+    return (await this.findById(id)) as Project;
+  },
+
+  async update(id, changes) {
+    const update: ProjectChanges & { publishedAt?: string } = { ...changes };
+
+    if (update.slug === null || update.status === "published") {
+      const existing = await ProjectModel.findOne({ id, ...LIVE_PROJECT });
+      if (!existing) return null;
+
+      // A blanked slug is regenerated from the (possibly new) title
+      if (update.slug === null) {
+        update.slug = await generateUniqueSlug(
+          update.title ?? existing.title,
+          slugIsTaken(id)
+        );
+      }
+      if (update.status === "published" && existing.status !== "published") {
+        update.publishedAt = new Date().toISOString();
+      }
+    }
+
+    try {
+      const doc = await ProjectModel.findOneAndUpdate(
+        { id, ...LIVE_PROJECT },
+        { $set: update },
+        { new: true, runValidators: true }
+      )
+        .select(PROJECT_FIELDS)
+        .lean<ProjectDoc>();
+      return doc && toProject(doc);
+    } catch (error) {
+      if (isDuplicateKeyError(error, "slug")) {
+        throw new DuplicateValueError("slug");
+      }
+      throw error;
+    }
+  },
+
+  async reorder(ids) {
+    const existingCount = await ProjectModel.countDocuments({
+      id: { $in: ids },
+      ...LIVE_PROJECT,
+    });
+    if (existingCount !== ids.length) return null;
+
+    // One bulkWrite rather than a transaction, which a standalone server
+    // doesn't support. Moving a project around doesn't change it.
+    await ProjectModel.bulkWrite(
+      ids.map((id, order) => ({
+        updateOne: {
+          filter: { id },
+          update: { $set: { order } },
+          timestamps: false,
+        },
+      }))
+    );
+
+    return this.list();
+  },
+
+  async trash(id) {
+    const doc = await ProjectModel.findOneAndUpdate(
+      { id, ...LIVE_PROJECT },
+      { $set: { deletedAt: new Date() } },
+      { new: true, timestamps: false }
+    )
+      .select(TRASHED_PROJECT_FIELDS)
+      .lean<TrashedProjectDoc>();
+    return doc && toTrashedProject(doc);
+  },
+
+  async listTrashed() {
+    const docs = await ProjectModel.find({ deletedAt: { $ne: null } })
+      .sort({ deletedAt: -1 })
+      .select(TRASHED_PROJECT_FIELDS)
+      .lean<TrashedProjectDoc[]>();
+    return docs.map(toTrashedProject);
+  },
+
+  async restore(id) {
+    const doc = await ProjectModel.findOneAndUpdate(
+      { id, deletedAt: { $ne: null } },
+      { $set: { deletedAt: null } },
+      { new: true }
+    )
+      .select(PROJECT_FIELDS)
+      .lean<ProjectDoc>();
+    return doc && toProject(doc);
+  },
+
+  async purge(id) {
+    const doc = await ProjectModel.findOneAndDelete({
+      id,
+      deletedAt: { $ne: null },
+    })
+      .select(TRASHED_PROJECT_FIELDS)
+      .lean<TrashedProjectDoc>();
+    if (!doc) return null;
+    await ProjectRevisionModel.deleteMany({ projectId: id });
+    return toTrashedProject(doc);
+  },
+
+  async purgeTrashedBefore(date) {
+    const expired = await ProjectModel.find({
+      deletedAt: { $ne: null, $lt: new Date(date) },
+    }).select("id");
+    // One at a time, so a project restored meanwhile is left alone and
+    // isn't reported as purged
+    const purged: TrashedProject[] = [];
+    for (const { id } of expired) {
+      const project = await this.purge(id);
+      if (project) purged.push(project);
+    }
+    return purged;
+  },
+};
+
+const projectRevisions: ProjectRevisionRepository = {
+  async append(input) {
+    const projectId = input.project.id;
+    const number = await getNextRevisionNumber(projectId);
+    return toProjectRevision(
+      await ProjectRevisionModel.create({ ...input, projectId, number })
+    );
+  },
+
+  async list(projectId) {
+    const docs = await ProjectRevisionModel.find({ projectId })
+      .sort({ number: -1 })
+      .lean();
+    return docs.map(toProjectRevision);
+  },
+
+  async find(projectId, number) {
+    const doc = await ProjectRevisionModel.findOne({
+      projectId,
+      number,
+    }).lean();
+    return doc && toProjectRevision(doc);
+  },
+};
+
+const skills: SkillRepository = {
+  async list() {
+    return SkillModel.find()
+      .sort({ order: 1, createdAt: 1 })
+      .select(HIDDEN_FIELDS)
+      .lean<Skill[]>();
+  },
+
+  async search(text) {
+    const docs = await SkillModel.find(
+      { $text: { $search: text } },
+      { score: { $meta: "textScore" } }
+    )
+      .sort({ score: { $meta: "textScore" } })
+      .select(HIDDEN_FIELDS)
+      .lean<(Skill & { score: number })[]>();
+    return docs.map(({ score, ...item }) => ({ item, score }));
+  },
+
+  async create(input) {
+    const lastSkill = await SkillModel.findOne().sort({ order: -1 });
+    const skill = await SkillModel.create({
+      ...input,
+      order: lastSkill ? lastSkill.order + 1 : 0,
+    });
+
+    return (await SkillModel.findOne({ id: skill.id })
+      .select(HIDDEN_FIELDS)
+      .lean<Skill>()) as Skill;
+  },
+
+  async update(id, changes) {
+    return SkillModel.findOneAndUpdate(
+      { id },
+      { $set: changes },
+      { new: true, runValidators: true }
+    )
+      .select(HIDDEN_FIELDS)
+      .lean<Skill>();
+  },
+
+  async delete(id) {
+    return (await SkillModel.findOneAndDelete({ id })) !== null;
+  },
+
+  async reorder(ids) {
+    const existingCount = await SkillModel.countDocuments({ id: { $in: ids } });
+    if (existingCount !== ids.length) return null;
+
+    await SkillModel.bulkWrite(
+      ids.map((id, order) => ({
+        updateOne: { filter: { id }, update: { $set: { order } } },
+      }))
+    );
+
+    return this.list();
+  },
+
+  async replaceAll(entries) {
+    const docs = entries.map((skill, order) => ({
+      ...skill,
+      id: skill.id ?? randomUUID(),
+      order,
+    }));
+    const ids = docs.map((doc) => doc.id);
+
+    // Either every entry is written or the previous skills are left
+    // untouched. Without a replica set there are no transactions, so the
+    // one failure we can foresee is checked up front, and skills are only
+    // deleted once all the entries are saved: a write that fails part way
+    // leaves extra skills behind rather than none.
+    try {
+      if (await supportsTransactions()) {
+        await mongoose.connection.transaction(async (session) => {
+          await SkillModel.deleteMany({}, { session });
+          await SkillModel.insertMany(docs, { session });
+        });
+      } else {
+        if (new Set(ids).size !== ids.length) {
+          throw new DuplicateValueError("id");
+        }
+        if (docs.length > 0) {
+          await SkillModel.bulkWrite(
+            docs.map((doc) => ({
+              updateOne: {
+                filter: { id: doc.id },
+                update: { $set: doc },
+                upsert: true,
+              },
+            }))
+          );
+        }
+        await SkillModel.deleteMany({ id: { $nin: ids } });
+      }
+    } catch (error) {
+      if (isDuplicateKeyError(error, "id")) {
+        throw new DuplicateValueError("id");
+      }
+      throw error;
+    }
+
+    return this.list();
+  },
+};
+
+const settings: SettingsRepository = {
+  async get<T>(key: string) {
+    const setting = await SettingsModel.findOne({ key }).lean();
+    return setting?.value as T | undefined;
+  },
+
+  async set(key, value) {
+    await SettingsModel.findOneAndUpdate({ key }, { value }, { upsert: true });
+  },
+};
+
+const users: UserRepository = {
+  async list() {
+    const docs = await UserModel.find().sort({ createdAt: 1 });
+    return docs.map(toUser);
+  },
+
+  async count() {
+    return UserModel.countDocuments();
+  },
+
+  async findById(id) {
+    const user = await UserModel.findOne({ id });
+    return user && toUser(user);
+  },
+
+  async findByUsername(username) {
+    const user = await UserModel.findOne({ username: username.toLowerCase() });
+    return user && toUser(user);
+  },
+
+  async create(input) {
+    try {
+      return toUser(await UserModel.create(input));
+    } catch (error) {
+      if (isDuplicateKeyError(error, "username")) {
+        throw new DuplicateValueError("username");
+      }
+      throw error;
+    }
+  },
+
+  async setPassword(id, passwordHash) {
+    const user = await UserModel.findOneAndUpdate(
+      { id },
+      { $set: { passwordHash, passwordChangedAt: new Date() } },
+      { new: true }
+    );
+    return user && toUser(user);
+  },
+
+  async update(id, changes) {
+    const user = await UserModel.findOneAndUpdate(
+      { id },
+      { $set: changes },
+      { new: true, runValidators: true }
+    );
+    return user && toUser(user);
+  },
+
+  async delete(id) {
+    const result = await UserModel.deleteOne({ id });
+    return result.deletedCount > 0;
+  },
+
+  async claimTotpStep(id, step) {
+    const result = await UserModel.updateOne(
+      {
+        id,
+        $or: [{ totpLastUsedStep: null }, { totpLastUsedStep: { $lt: step } }],
+      },
+      { $set: { totpLastUsedStep: step } }
+    );
+    return result.modifiedCount > 0;
+  },
+
+  async useRecoveryCode(id, codeHash) {
+    const result = await UserModel.updateOne(
+      { id, recoveryCodeHashes: codeHash },
+      { $pull: { recoveryCodeHashes: codeHash } }
+    );
+    return result.modifiedCount > 0;
+  },
+};
+
+const sessions: SessionRepository = {
+  async findById(id) {
+    const session = await SessionModel.findOne({ id });
+    return session && toSession(session);
+  },
+
+  async listActive(userId) {
+    const docs = await SessionModel.find({
+      userId,
+      ...activeSessionFilter(),
+    }).sort({ lastUsedAt: -1 });
+    return docs.map(toSession);
+  },
+
+  async create(input) {
+    return toSession(await SessionModel.create(input));
+  },
+
+  async rotate(id, currentHash, nextHash, expiresAt) {
+    const session = await SessionModel.findOneAndUpdate(
+      { id, refreshTokenHash: currentHash, ...activeSessionFilter() },
+      {
+        $set: {
+          refreshTokenHash: nextHash,
+          lastUsedAt: new Date(),
+          expiresAt: new Date(expiresAt),
+        },
+      },
+      { new: true }
+    );
+    return session && toSession(session);
+  },
+
+  async revoke(id) {
+    const result = await SessionModel.updateOne(
+      { id, ...activeSessionFilter() },
+      { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  },
+
+  async revokeAll(userId, exceptId) {
+    const result = await SessionModel.updateMany(
+      {
+        userId,
+        ...activeSessionFilter(),
+        ...(exceptId === undefined ? {} : { id: { $ne: exceptId } }),
+      },
+      { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount;
+  },
+
+  async deleteExpired() {
+    const result = await SessionModel.deleteMany({
+      expiresAt: { $lte: new Date() },
+    });
+    return result.deletedCount;
+  },
+};
+
+const failedLogins: FailedLoginRepository = {
+  async record(input) {
+    return toFailedLogin(await FailedLoginModel.create(input));
+  },
+
+  async list(limit) {
+    const docs = await FailedLoginModel.find()
+      .sort({ createdAt: -1 })
+      .limit(limit);
+    return docs.map(toFailedLogin);
+  },
+
+  async deleteOlderThan(date) {
+    const result = await FailedLoginModel.deleteMany({
+      createdAt: { $lt: new Date(date) },
+    });
+    return result.deletedCount;
+  },
+};
+
+const audit: AuditRepository = {
+  async append(input) {
+    return toAuditEntry(await AuditEntryModel.create(input));
+  },
+
+  async list({ resource, userId, before, limit }) {
+    const docs = await AuditEntryModel.find({
+      ...(resource ? { resource } : {}),
+      ...(userId ? { userId } : {}),
+      ...(before ? { createdAt: { $lt: new Date(before) } } : {}),
+    })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+    return docs.map(toAuditEntry);
+  },
+};
+
+const contactMessages: ContactMessageRepository = {
+  async create(input) {
+    return toContactMessage(await ContactMessageModel.create(input));
+  },
+
+  async list({ archived, before, limit }) {
+    const docs = await ContactMessageModel.find({
+      archivedAt: archived ? { $ne: null } : null,
+      ...(before ? { createdAt: { $lt: new Date(before) } } : {}),
+    })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+    return docs.map(toContactMessage);
+  },
+
+  async countUnread() {
+    return ContactMessageModel.countDocuments({
+      readAt: null,
+      archivedAt: null,
+    });
+  },
+
+  async update(id, changes) {
+    const doc = await ContactMessageModel.findOneAndUpdate(
+      { id },
+      { $set: changes },
+      { new: true }
+    ).lean();
+    return doc && toContactMessage(doc);
+  },
+
+  async delete(id) {
+    const result = await ContactMessageModel.deleteOne({ id });
+    return result.deletedCount > 0;
+  },
+};
+
+// ---------------- Storage ----------------
+
+export function createMongoStorage(uri: string): Storage {
+  let isClosing = false;
+
+  mongoose.connection.on("connected", () => {
+    console.log("Connected to MongoDB");
+  });
+
+  mongoose.connection.on("disconnected", () => {
+    if (!isClosing) {
+      console.warn("Disconnected from MongoDB, waiting for it to come back");
+    }
+  });
+
+  mongoose.connection.on("reconnected", () => {
+    console.log("Reconnected to MongoDB");
+  });
+
+  return {
+    name: "mongo",
+    projects,
+    projectRevisions,
+    skills,
+    settings,
+    users,
+    sessions,
+    failedLogins,
+    audit,
+    contactMessages,
+
+    // The driver reconnects on its own once connected, but the first
+    // connection has to be retried by hand
+    async connect() {
+      console.time("MongoDB connection");
+      for (let attempt = 1; !isClosing; attempt++) {
+        try {
+          await mongoose.connect(uri);
+          console.timeEnd("MongoDB connection");
+          break;
+        } catch (error) {
+          const delay = Math.min(30000, 1000 * 2 ** (attempt - 1));
+          console.error(
+            `MongoDB connection attempt ${attempt} failed, retrying in ${delay}ms:`,
+            error
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+      if (!isClosing) {
+        await migrate();
+      }
+    },
+
+    isConnected() {
+      return mongoose.connection.readyState === 1;
+    },
+
+    // Report the connection state and how long a round trip to MongoDB takes
+    async check(): Promise<StorageStatus> {
+      const status = DB_STATES[mongoose.connection.readyState] ?? "unknown";
+      const db = mongoose.connection.db;
+      if (mongoose.connection.readyState !== 1 || !db) {
+        return { status, latencyMs: null };
+      }
+
+      const start = performance.now();
+      try {
+        await Promise.race([
+          db.admin().ping(),
+          new Promise((_, reject) =>
+            setTimeout(
+              () => reject(new Error("Ping timed out")),
+              DB_PING_TIMEOUT_MS
+            )
+          ),
+        ]);
+        return { status, latencyMs: Math.round(performance.now() - start) };
+      } catch {
+        return { status: "unreachable", latencyMs: null };
+      }
+    },
+
+    async close() {
+      isClosing = true;
+      // A connection attempt still in progress has nothing to flush
+      if (mongoose.connection.readyState === 1) {
+        await mongoose.connection.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,27 @@
+// Full-text search shared by the storage backends. MongoDB ranks with its
+// text indexes using these weights; the in-memory backend scores matches
+// itself the same way, closely enough for a handful of records.
+
+export const PROJECT_SEARCH_WEIGHTS = { title: 10, tech: 5, description: 1 };
+export const SKILL_SEARCH_WEIGHTS = { name: 1 };
+
+// The distinct words of a search, lowercased
+export function searchTerms(text: string): string[] {
+  return [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])];
+}
+
+// How many words of `value` start with one of the terms, times `weight`.
+// Matching word starts stands in for the stemming MongoDB does.
+export function scoreText(
+  terms: string[],
+  value: string | null | undefined,
+  weight: number
+): number {
+  if (!value) return 0;
+  const words = value.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  let matches = 0;
+  for (const word of words) {
+    if (terms.some((term) => word.startsWith(term))) matches++;
+  }
+  return matches * weight;
+}
@@ -0,0 +1,23 @@
+export function slugify(text: string): string {
+  const slug = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, 80)
+    .replace(/^-+|-+$/g, "");
+  return slug || "project";
+}
+
+// Derive a slug from a title, adding a numeric suffix until it is unused
+export async function generateUniqueSlug(
+  title: string,
+  isTaken: (slug: string) => Promise<boolean> | boolean
+): Promise<string> {
+  const base = slugify(title);
+  let slug = base;
+  for (let suffix = 2; await isTaken(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+}
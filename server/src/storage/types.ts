@@ -0,0 +1,409 @@
+// ---------------- Records ----------------
+
+// Only published projects are shown on the public site
+export const PROJECT_STATUSES = ["draft", "published", "archived"] as const;
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+export interface Project {
+  id: number;
+  slug: string;
+  title: string;
+  description: string | null;
+  tech: string[];
+  demoUrl?: string | null;
+  sourceUrl?: string | null;
+  featured: boolean;
+  status: ProjectStatus;
+  // ISO timestamp; a published project stays hidden until then
+  publishAt: string | null;
+  // Position on the site, lowest first
+  order: number;
+  // Long-form write-up for the project's own page
+  caseStudy: string | null;
+  // What I did on the project, e.g. "Lead developer"
+  role: string | null;
+  // Free-form, e.g. "Jan – Mar 2024"
+  timeline: string | null;
+  challenges: string[];
+  outcomes: string[];
+  // Shown on the project's card
+  coverImage: ProjectImage | null;
+  // Shown on the project's page
+  gallery: ProjectImage[];
+  // ISO timestamps kept by the storage backend: the last change, and the
+  // last time the status became "published"
+  updatedAt: string;
+  publishedAt: string | null;
+}
+
+// An uploaded image, re-encoded at two sizes and in two formats each. URLs
+// are site-relative, e.g. `/media/<uuid>-thumb.webp`.
+export interface ProjectImage {
+  url: string;
+  webpUrl: string;
+  thumbnailUrl: string;
+  thumbnailWebpUrl: string;
+  // Of the full-size image, in pixels
+  width: number;
+  height: number;
+  alt: string | null;
+}
+
+// A deleted project waiting in the trash to be restored or purged
+export type TrashedProject = Project & {
+  // ISO timestamp
+  deletedAt: string;
+};
+
+export type SkillCategory =
+  | "frontend"
+  | "backend"
+  | "tools"
+  | "database"
+  | "other";
+
+export interface Skill {
+  id: string;
+  name: string;
+  level: number;
+  category: SkillCategory;
+  order: number;
+}
+
+// Lowest to highest; each role can do everything the ones before it can
+export const ROLES = ["viewer", "editor", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export interface User {
+  id: string;
+  // Stored lowercased; usernames are case-insensitive
+  username: string;
+  passwordHash: string;
+  role: Role;
+  // ISO timestamps. Tokens issued before passwordChangedAt are rejected.
+  createdAt: string;
+  passwordChangedAt: string;
+  // Base32 TOTP key; two-factor login is on when set
+  totpSecret: string | null;
+  // Key handed out during enrollment, kept until a code from it is confirmed
+  pendingTotpSecret: string | null;
+  // Last TOTP time step accepted, so a code can't be used twice
+  totpLastUsedStep: number | null;
+  // SHA-256 of each unused recovery code
+  recoveryCodeHashes: string[];
+}
+
+// A signed-in device. Access tokens name the session they belong to and stop
+// working once it is revoked or expires.
+export interface Session {
+  id: string;
+  userId: string;
+  // SHA-256 of the current refresh token; rotated on every refresh
+  refreshTokenHash: string;
+  userAgent: string | null;
+  // ISO timestamps
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+// A login with a wrong username or password, kept for admins to review.
+// Attempts refused by the throttle before any check aren't recorded.
+export interface FailedLogin {
+  id: string;
+  // As typed, so attempts against unknown accounts show up too
+  username: string;
+  ip: string;
+  userAgent: string | null;
+  // Whether this failure locked the username or IP address out
+  lockedOut: boolean;
+  // ISO timestamp
+  createdAt: string;
+}
+
+// A message sent through the contact form on the public site
+export interface ContactMessage {
+  id: string;
+  name: string;
+  email: string;
+  subject: string | null;
+  message: string;
+  ip: string;
+  userAgent: string | null;
+  // ISO timestamps; readAt and archivedAt are null until the message is
+  // read or archived in the inbox
+  createdAt: string;
+  readAt: string | null;
+  archivedAt: string | null;
+}
+
+// A snapshot of a project taken each time it is created, edited or restored
+export interface ProjectRevision {
+  projectId: number;
+  // Counts up from 1 for each project
+  number: number;
+  project: Project;
+  // Who saved this version; null for the version a project had before its
+  // history started being kept
+  userId: string | null;
+  username: string | null;
+  // ISO timestamp
+  createdAt: string;
+}
+
+export const AUDIT_RESOURCES = [
+  "project",
+  "skill",
+  "learning",
+  "tech",
+] as const;
+export type AuditResource = (typeof AUDIT_RESOURCES)[number];
+// Deleting a project moves it to the trash; purging removes it for good
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "reorder"
+  | "restore"
+  | "purge";
+
+// One field's value before and after a change; null where it didn't exist
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+// A dashboard change. Entries are only ever appended.
+export interface AuditEntry {
+  id: string;
+  // Kept alongside the id so entries stay readable after a user is deleted
+  userId: string;
+  username: string;
+  action: AuditAction;
+  resource: AuditResource;
+  // Project or skill id; null for changes to a whole collection
+  resourceId: string | null;
+  ip: string;
+  changes: Record<string, FieldChange>;
+  // ISO timestamp
+  createdAt: string;
+}
+
+export interface ContactMessageQuery {
+  // Archived messages are listed apart from the rest of the inbox
+  archived: boolean;
+  // Only messages created before this ISO timestamp, for paging
+  before?: string;
+  limit: number;
+}
+
+export interface AuditQuery {
+  resource?: AuditResource;
+  userId?: string;
+  // Only entries created before this ISO timestamp, for paging
+  before?: string;
+  limit: number;
+}
+
+// Fields a client may set. `slug: null` asks for one generated from the title.
+export type ProjectInput = Omit<
+  Project,
+  "id" | "slug" | "order" | "updatedAt" | "publishedAt"
+> & {
+  slug?: string | null;
+};
+export type ProjectChanges = Partial<ProjectInput>;
+
+export type SkillInput = Omit<Skill, "id" | "order">;
+export type SkillChanges = Partial<SkillInput>;
+
+export type UserInput = Pick<User, "username" | "passwordHash" | "role">;
+export type UserChanges = Partial<
+  Pick<User, "role" | "totpSecret" | "pendingTotpSecret" | "recoveryCodeHashes">
+>;
+
+export type ProjectRevisionInput = Omit<
+  ProjectRevision,
+  "projectId" | "number" | "createdAt"
+>;
+
+export type FailedLoginInput = Omit<FailedLogin, "id" | "createdAt">;
+
+export type AuditEntryInput = Omit<AuditEntry, "id" | "createdAt">;
+
+export type ContactMessageInput = Omit<
+  ContactMessage,
+  "id" | "createdAt" | "readAt" | "archivedAt"
+>;
+export type ContactMessageChanges = Partial<
+  Pick<ContactMessage, "readAt" | "archivedAt">
+>;
+
+export type SessionInput = Pick<
+  Session,
+  "userId" | "refreshTokenHash" | "userAgent" | "expiresAt"
+>;
+
+// ---------------- Errors ----------------
+
+// Thrown when a write would give a unique field a value already in use
+export class DuplicateValueError extends Error {
+  constructor(public readonly field: string) {
+    super(`Duplicate value for ${field}`);
+    this.name = "DuplicateValueError";
+  }
+}
+
+// ---------------- Repositories ----------------
+
+// A search result; the higher the score, the better the match
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+}
+
+// Projects in the trash are left out of everything but the trash methods.
+// They keep their slug, so restoring one never clashes.
+export interface ProjectRepository {
+  // Sorted by display order
+  list(): Promise<Project[]>;
+  findById(id: number): Promise<Project | null>;
+  findBySlug(slug: string): Promise<Project | null>;
+  // Matches any word of `text` in the title, description or tech, best
+  // match first. Trashed projects are left out.
+  search(text: string): Promise<SearchHit<Project>[]>;
+  // Allocates the next id and, unless one is given, a unique slug. New
+  // projects go after the existing ones.
+  create(input: ProjectInput): Promise<Project>;
+  update(id: number, changes: ProjectChanges): Promise<Project | null>;
+  // Gives the projects positions in the order listed, all at once. Resolves
+  // to null when an id is unknown.
+  reorder(ids: number[]): Promise<Project[] | null>;
+  // Moves a project to the trash
+  trash(id: number): Promise<TrashedProject | null>;
+  // Most recently deleted first
+  listTrashed(): Promise<TrashedProject[]>;
+  restore(id: number): Promise<Project | null>;
+  // Deletes a trashed project and its revisions for good
+  purge(id: number): Promise<TrashedProject | null>;
+  // Purges everything trashed before `date`; resolves to what was purged
+  purgeTrashedBefore(date: string): Promise<TrashedProject[]>;
+}
+
+export interface ProjectRevisionRepository {
+  // Numbered one after the project's latest revision
+  append(input: ProjectRevisionInput): Promise<ProjectRevision>;
+  // Newest first
+  list(projectId: number): Promise<ProjectRevision[]>;
+  find(projectId: number, number: number): Promise<ProjectRevision | null>;
+}
+
+export interface SkillRepository {
+  // Sorted by display order
+  list(): Promise<Skill[]>;
+  // Matches any word of `text` in the name, best match first
+  search(text: string): Promise<SearchHit<Skill>[]>;
+  // Appended after the existing skills
+  create(input: SkillInput): Promise<Skill>;
+  update(id: string, changes: SkillChanges): Promise<Skill | null>;
+  delete(id: string): Promise<boolean>;
+  // Resolves to null when an id is unknown
+  reorder(ids: string[]): Promise<Skill[] | null>;
+  // Entries keep their id when given one. All or nothing, except on a
+  // standalone MongoDB, which has no transactions: there a failed write may
+  // leave skills that should have been removed, but never loses any.
+  replaceAll(skills: (SkillInput & { id?: string })[]): Promise<Skill[]>;
+}
+
+export interface UserRepository {
+  // Sorted by creation time
+  list(): Promise<User[]>;
+  count(): Promise<number>;
+  findById(id: string): Promise<User | null>;
+  findByUsername(username: string): Promise<User | null>;
+  create(input: UserInput): Promise<User>;
+  // Also moves passwordChangedAt forward
+  setPassword(id: string, passwordHash: string): Promise<User | null>;
+  update(id: string, changes: UserChanges): Promise<User | null>;
+  delete(id: string): Promise<boolean>;
+  // Records `step` as used; resolves to false if it or a later one already was
+  claimTotpStep(id: string, step: number): Promise<boolean>;
+  // Removes one recovery code; resolves to false if it wasn't there
+  useRecoveryCode(id: string, codeHash: string): Promise<boolean>;
+}
+
+export interface SessionRepository {
+  findById(id: string): Promise<Session | null>;
+  // Sessions that are neither revoked nor expired, most recently used first
+  listActive(userId: string): Promise<Session[]>;
+  create(input: SessionInput): Promise<Session>;
+  // Swaps the refresh token hash if it still equals `currentHash` and the
+  // session is active; resolves to null otherwise
+  rotate(
+    id: string,
+    currentHash: string,
+    nextHash: string,
+    expiresAt: string
+  ): Promise<Session | null>;
+  revoke(id: string): Promise<boolean>;
+  // Resolves to the number of sessions revoked
+  revokeAll(userId: string, exceptId?: string): Promise<number>;
+  // Drops sessions past their expiry, revoked or not
+  deleteExpired(): Promise<number>;
+}
+
+export interface FailedLoginRepository {
+  record(input: FailedLoginInput): Promise<FailedLogin>;
+  // Newest first
+  list(limit: number): Promise<FailedLogin[]>;
+  // Resolves to the number of records removed
+  deleteOlderThan(date: string): Promise<number>;
+}
+
+export interface ContactMessageRepository {
+  create(input: ContactMessageInput): Promise<ContactMessage>;
+  // Newest first
+  list(query: ContactMessageQuery): Promise<ContactMessage[]>;
+  // Unread messages that aren't archived
+  countUnread(): Promise<number>;
+  update(
+    id: string,
+    changes: ContactMessageChanges
+  ): Promise<ContactMessage | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface AuditRepository {
+  append(input: AuditEntryInput): Promise<AuditEntry>;
+  // Newest first
+  list(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+export interface SettingsRepository {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+}
+
+export interface StorageStatus {
+  status: string;
+  latencyMs: number | null;
+}
+
+export interface Storage {
+  readonly name: string;
+  readonly projects: ProjectRepository;
+  readonly projectRevisions: ProjectRevisionRepository;
+  readonly skills: SkillRepository;
+  readonly settings: SettingsRepository;
+  readonly users: UserRepository;
+  readonly sessions: SessionRepository;
+  readonly failedLogins: FailedLoginRepository;
+  readonly audit: AuditRepository;
+  readonly contactMessages: ContactMessageRepository;
+  // Resolves once the backend can serve requests
+  connect(): Promise<void>;
+  isConnected(): boolean;
+  check(): Promise<StorageStatus>;
+  close(): Promise<void>;
+}
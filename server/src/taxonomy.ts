@@ -0,0 +1,94 @@
+import { Project } from "./storage";
+
+// A technology as the site shows it. Project tags matching its name or one
+// of its aliases are saved under `name`, which also sets the display casing.
+export interface TechEntry {
+  name: string;
+  aliases: string[];
+}
+
+export interface TechCount {
+  name: string;
+  count: number;
+}
+
+// Maps the key of every name and alias to its canonical name
+export type TechIndex = Map<string, string>;
+
+// Tags are compared without case, spaces, dots, dashes or underscores, so
+// "Node.js", "node js" and "NODEJS" are all the same tag
+export function techKey(tag: string): string {
+  return tag.toLowerCase().replace(/[\s._-]+/g, "");
+}
+
+export function buildTechIndex(taxonomy: TechEntry[]): TechIndex {
+  const index: TechIndex = new Map();
+  for (const entry of taxonomy) {
+    for (const tag of [entry.name, ...entry.aliases]) {
+      index.set(techKey(tag), entry.name);
+    }
+  }
+  return index;
+}
+
+// Canonical names for `tags` in their original order, without duplicates.
+// Tags the taxonomy doesn't know are kept as written.
+export function normalizeTechs(tags: string[], index: TechIndex): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const tag of tags) {
+    const key = techKey(tag);
+    if (!key) continue;
+    const name = index.get(key) ?? tag.trim();
+    if (seen.has(techKey(name))) continue;
+    seen.add(techKey(name));
+    normalized.push(name);
+  }
+  return normalized;
+}
+
+// Every technology used by `projects` with the number of projects using it,
+// most used first
+export function countTechs(projects: Project[], index: TechIndex): TechCount[] {
+  const counts = new Map<string, TechCount>();
+  for (const project of projects) {
+    for (const name of normalizeTechs(project.tech, index)) {
+      const key = techKey(name);
+      const entry = counts.get(key) ?? { name, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+  return [...counts.values()].sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+  );
+}
+
+// Names and aliases that an earlier entry already claims, keyed by the
+// field path of the later one
+export function findTaxonomyConflicts(
+  taxonomy: TechEntry[]
+): Record<string, string> {
+  // Index of the entry each key belongs to
+  const owners = new Map<string, number>();
+  const errors: Record<string, string> = {};
+  taxonomy.forEach((entry, i) => {
+    const tags: [string, string][] = [
+      [`techs.${i}.name`, entry.name],
+      ...entry.aliases.map((alias): [string, string] => [
+        `techs.${i}.aliases`,
+        alias,
+      ]),
+    ];
+    for (const [path, tag] of tags) {
+      const key = techKey(tag);
+      const owner = owners.get(key);
+      if (owner === undefined) {
+        owners.set(key, i);
+      } else if (owner !== i) {
+        errors[path] = `"${tag}" already belongs to ${taxonomy[owner].name}`;
+      }
+    }
+  });
+  return errors;
+}
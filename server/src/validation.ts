@@ -0,0 +1,630 @@
+import { Request, Response, NextFunction } from "express";
+import { AUDIT_RESOURCES, PROJECT_STATUSES, ROLES } from "./storage";
+
+// ---------------- Types ----------------
+
+export type FieldErrors = Record<string, string>;
+
+type FieldRule =
+  | {
+      type: "string";
+      required?: boolean;
+      minLength?: number;
+      maxLength?: number;
+      pattern?: RegExp;
+      // Defaults to true; passwords keep their surrounding whitespace
+      trim?: boolean;
+    }
+  | {
+      type: "number";
+      required?: boolean;
+      integer?: boolean;
+      min?: number;
+      max?: number;
+    }
+  | { type: "boolean"; required?: boolean }
+  | { type: "url"; required?: boolean }
+  // Anything Date.parse understands, stored as an ISO timestamp
+  | { type: "date"; required?: boolean }
+  | { type: "enum"; values: readonly string[]; required?: boolean }
+  | {
+      type: "stringArray";
+      required?: boolean;
+      maxItems?: number;
+      maxLength?: number;
+      pattern?: RegExp;
+    }
+  | {
+      type: "numberArray";
+      required?: boolean;
+      maxItems?: number;
+      integer?: boolean;
+      min?: number;
+    }
+  | { type: "object"; of: Schema; required?: boolean }
+  | { type: "array"; of: Schema; required?: boolean; maxItems?: number };
+
+export type Schema = Record<string, FieldRule>;
+
+interface ValidateOptions {
+  // Partial updates only validate the fields that are present
+  partial?: boolean;
+}
+
+interface ValidationResult {
+  value: Record<string, unknown>;
+  errors: FieldErrors;
+}
+
+// ---------------- Field Coercion ----------------
+
+function isEmpty(input: unknown): boolean {
+  return (
+    input === undefined ||
+    input === null ||
+    (typeof input === "string" && input.trim() === "")
+  );
+}
+
+function coerceString(input: unknown): string | undefined {
+  if (typeof input === "string") return input.trim();
+  if (typeof input === "number" || typeof input === "boolean") {
+    return String(input);
+  }
+  return undefined;
+}
+
+function coerceNumber(input: unknown): number | undefined {
+  if (typeof input === "number")
+    return Number.isFinite(input) ? input : undefined;
+  if (typeof input === "string" && input.trim() !== "") {
+    const parsed = Number(input);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function coerceBoolean(input: unknown): boolean | undefined {
+  if (typeof input === "boolean") return input;
+  if (input === "true" || input === 1 || input === "1") return true;
+  if (input === "false" || input === 0 || input === "0") return false;
+  return undefined;
+}
+
+function coerceStringArray(input: unknown): unknown[] | undefined {
+  if (Array.isArray(input)) return input;
+  // Accept the comma-separated form the Dashboard edits tags in
+  if (typeof input === "string") return input.split(",");
+  return undefined;
+}
+
+function isHttpUrl(input: string): boolean {
+  try {
+    const url = new URL(input);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// ---------------- Validation ----------------
+
+function validateField(
+  rule: FieldRule,
+  input: unknown,
+  path: string,
+  errors: FieldErrors
+): unknown {
+  switch (rule.type) {
+    case "string": {
+      const value = rule.trim === false ? input : coerceString(input);
+      if (typeof value !== "string") {
+        errors[path] = "Must be a string";
+        return undefined;
+      }
+      if (rule.minLength !== undefined && value.length < rule.minLength) {
+        errors[path] = `Must be at least ${rule.minLength} characters`;
+      } else if (
+        rule.maxLength !== undefined &&
+        value.length > rule.maxLength
+      ) {
+        errors[path] = `Must be at most ${rule.maxLength} characters`;
+      } else if (rule.pattern && !rule.pattern.test(value)) {
+        errors[path] = "Has an invalid format";
+      }
+      return value;
+    }
+
+    case "number": {
+      const value = coerceNumber(input);
+      if (value === undefined) {
+        errors[path] = "Must be a number";
+        return undefined;
+      }
+      if (rule.integer && !Number.isInteger(value)) {
+        errors[path] = "Must be a whole number";
+      } else if (
+        (rule.min !== undefined && value < rule.min) ||
+        (rule.max !== undefined && value > rule.max)
+      ) {
+        errors[path] = `Must be between ${rule.min ?? "-∞"} and ${
+          rule.max ?? "∞"
+        }`;
+      }
+      return value;
+    }
+
+    case "boolean": {
+      const value = coerceBoolean(input);
+      if (value === undefined) {
+        errors[path] = "Must be true or false";
+      }
+      return value;
+    }
+
+    case "url": {
+      const value = coerceString(input);
+      if (value === undefined || !isHttpUrl(value)) {
+        errors[path] = "Must be a valid http(s) URL";
+        return undefined;
+      }
+      return value;
+    }
+
+    case "date": {
+      const value = coerceString(input);
+      const time = value === undefined ? NaN : Date.parse(value);
+      if (isNaN(time)) {
+        errors[path] = "Must be a date";
+        return undefined;
+      }
+      return new Date(time).toISOString();
+    }
+
+    case "enum": {
+      if (typeof input !== "string" || !rule.values.includes(input)) {
+        errors[path] = `Must be one of: ${rule.values.join(", ")}`;
+        return undefined;
+      }
+      return input;
+    }
+
+    case "stringArray": {
+      const items = coerceStringArray(input);
+      if (items === undefined) {
+        errors[path] = "Must be a list of strings";
+        return undefined;
+      }
+      const value: string[] = [];
+      items.forEach((item, index) => {
+        if (typeof item !== "string") {
+          errors[`${path}.${index}`] = "Must be a string";
+          return;
+        }
+        const trimmed = item.trim();
+        if (trimmed === "") return;
+        if (rule.maxLength !== undefined && trimmed.length > rule.maxLength) {
+          errors[
+            `${path}.${index}`
+          ] = `Must be at most ${rule.maxLength} characters`;
+        } else if (rule.pattern && !rule.pattern.test(trimmed)) {
+          errors[`${path}.${index}`] = "Has an invalid format";
+        }
+        value.push(trimmed);
+      });
+      if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+        errors[path] = `Must have at most ${rule.maxItems} entries`;
+      }
+      return value;
+    }
+
+    case "numberArray": {
+      if (!Array.isArray(input)) {
+        errors[path] = "Must be a list of numbers";
+        return undefined;
+      }
+      if (rule.maxItems !== undefined && input.length > rule.maxItems) {
+        errors[path] = `Must have at most ${rule.maxItems} entries`;
+      }
+      return input.map((item, index) => {
+        const value = coerceNumber(item);
+        if (value === undefined) {
+          errors[`${path}.${index}`] = "Must be a number";
+        } else if (rule.integer && !Number.isInteger(value)) {
+          errors[`${path}.${index}`] = "Must be a whole number";
+        } else if (rule.min !== undefined && value < rule.min) {
+          errors[`${path}.${index}`] = `Must be at least ${rule.min}`;
+        }
+        return value;
+      });
+    }
+
+    case "object": {
+      if (typeof input !== "object" || input === null || Array.isArray(input)) {
+        errors[path] = "Must be an object";
+        return undefined;
+      }
+      const result = validate(rule.of, input, {}, path);
+      Object.assign(errors, result.errors);
+      return result.value;
+    }
+
+    case "array": {
+      if (!Array.isArray(input)) {
+        errors[path] = "Must be a list";
+        return undefined;
+      }
+      if (rule.maxItems !== undefined && input.length > rule.maxItems) {
+        errors[path] = `Must have at most ${rule.maxItems} entries`;
+      }
+      return input.map((item, index) => {
+        const itemPath = `${path}.${index}`;
+        if (typeof item !== "object" || item === null || Array.isArray(item)) {
+          errors[itemPath] = "Must be an object";
+          return undefined;
+        }
+        const result = validate(rule.of, item, {}, itemPath);
+        Object.assign(errors, result.errors);
+        return result.value;
+      });
+    }
+  }
+}
+
+/**
+ * Validates `input` against `schema`, returning the coerced value and a map
+ * of `field path -> message` for every problem found, including fields the
+ * schema does not know about.
+ */
+export function validate(
+  schema: Schema,
+  input: unknown,
+  options: ValidateOptions = {},
+  prefix = ""
+): ValidationResult {
+  const value: Record<string, unknown> = {};
+  const errors: FieldErrors = {};
+  const pathOf = (field: string) => (prefix ? `${prefix}.${field}` : field);
+
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    errors[prefix || "body"] = "Must be an object";
+    return { value, errors };
+  }
+
+  const body = input as Record<string, unknown>;
+
+  for (const field of Object.keys(body)) {
+    if (!(field in schema)) {
+      errors[pathOf(field)] = "Unknown field";
+    }
+  }
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const present = field in body;
+    const raw = body[field];
+
+    if (isEmpty(raw)) {
+      if (rule.required && (present || !options.partial)) {
+        errors[pathOf(field)] = "Required";
+      } else if (present && rule.type !== "boolean" && rule.type !== "enum") {
+        // An explicitly blanked optional field clears the stored value.
+        // Booleans and enums always have a value, so blanking them leaves
+        // the stored one (or its default) alone.
+        value[field] =
+          rule.type === "stringArray" ||
+          rule.type === "numberArray" ||
+          rule.type === "array"
+            ? []
+            : null;
+      }
+      continue;
+    }
+
+    const coerced = validateField(rule, raw, pathOf(field), errors);
+    if (coerced !== undefined) {
+      value[field] = coerced;
+    }
+  }
+
+  return { value, errors };
+}
+
+// ---------------- Middleware ----------------
+
+/**
+ * Replaces `req.body` with the validated value, or responds with a 400
+ * listing every field error.
+ */
+export function validateBody(schema: Schema, options: ValidateOptions = {}) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { value, errors } = validate(schema, req.body ?? {}, options);
+
+    if (Object.keys(errors).length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors,
+      });
+    }
+
+    req.body = value;
+    next();
+  };
+}
+
+// Query parameters are checked like bodies. Express doesn't allow replacing
+// req.query, so the parsed values are left in res.locals.query instead.
+export function validateQuery(schema: Schema) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { value, errors } = validate(schema, req.query);
+
+    if (Object.keys(errors).length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors,
+      });
+    }
+
+    res.locals.query = value;
+    next();
+  };
+}
+
+/**
+ * Rejects requests whose numeric route parameter `name` is not a positive
+ * integer written in plain digits. The parsed number is left in
+ * res.locals.params so handlers don't parse it again.
+ */
+export function validateNumberParam(name: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const raw = req.params[name];
+    const value = /^\d+$/.test(raw) ? Number(raw) : NaN;
+
+    if (!Number.isSafeInteger(value) || value < 1) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: { [name]: "Must be a positive whole number" },
+      });
+    }
+
+    res.locals.params = { ...res.locals.params, [name]: value };
+    next();
+  };
+}
+
+export const validateIdParam = validateNumberParam("id");
+
+// ---------------- Resource Schemas ----------------
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const SKILL_CATEGORIES = [
+  "frontend",
+  "backend",
+  "tools",
+  "database",
+  "other",
+] as const;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Uploads are only ever referenced by the URLs the upload endpoint returns
+const MEDIA_URL_PATTERN =
+  /^\/media\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(-thumb)?\.(jpg|png|webp)$/;
+
+const projectImageBody: Schema = {
+  url: { type: "string", required: true, pattern: MEDIA_URL_PATTERN },
+  webpUrl: { type: "string", required: true, pattern: MEDIA_URL_PATTERN },
+  thumbnailUrl: { type: "string", required: true, pattern: MEDIA_URL_PATTERN },
+  thumbnailWebpUrl: {
+    type: "string",
+    required: true,
+    pattern: MEDIA_URL_PATTERN,
+  },
+  width: { type: "number", required: true, integer: true, min: 1 },
+  height: { type: "number", required: true, integer: true, min: 1 },
+  alt: { type: "string", maxLength: 300 },
+};
+
+export const projectBody: Schema = {
+  title: { type: "string", required: true, maxLength: 200 },
+  slug: { type: "string", maxLength: 80, pattern: SLUG_PATTERN },
+  description: { type: "string", maxLength: 5000 },
+  tech: { type: "stringArray", maxItems: 30, maxLength: 50 },
+  demoUrl: { type: "url" },
+  sourceUrl: { type: "url" },
+  featured: { type: "boolean" },
+  status: { type: "enum", values: PROJECT_STATUSES },
+  publishAt: { type: "date" },
+  caseStudy: { type: "string", maxLength: 50000 },
+  role: { type: "string", maxLength: 200 },
+  timeline: { type: "string", maxLength: 200 },
+  challenges: { type: "stringArray", maxItems: 20, maxLength: 1000 },
+  outcomes: { type: "stringArray", maxItems: 20, maxLength: 1000 },
+  coverImage: { type: "object", of: projectImageBody },
+  gallery: { type: "array", of: projectImageBody, maxItems: 30 },
+};
+
+// As long as the longest Markdown field, the case study
+export const markdownPreviewBody: Schema = {
+  source: { type: "string", maxLength: 50000, trim: false },
+};
+
+export const projectOrderBody: Schema = {
+  ids: {
+    type: "numberArray",
+    required: true,
+    maxItems: 500,
+    integer: true,
+    min: 1,
+  },
+};
+
+export const skillBody: Schema = {
+  name: { type: "string", required: true, maxLength: 100 },
+  level: { type: "number", required: true, integer: true, min: 0, max: 100 },
+  category: { type: "enum", values: SKILL_CATEGORIES, required: true },
+};
+
+// Shared by the public list endpoints; see pagination.ts
+const pageQuery: Schema = {
+  direction: { type: "enum", values: ["asc", "desc"] },
+  page: { type: "number", integer: true, min: 1 },
+  limit: { type: "number", integer: true, min: 1, max: 100 },
+  cursor: { type: "string", maxLength: 200 },
+};
+
+export const projectQuery: Schema = {
+  tech: { type: "string", maxLength: 50 },
+  featured: { type: "boolean" },
+  q: { type: "string", maxLength: 200 },
+  sort: { type: "enum", values: ["order", "title", "created"] },
+  ...pageQuery,
+};
+
+export const skillQuery: Schema = {
+  category: { type: "enum", values: SKILL_CATEGORIES },
+  q: { type: "string", maxLength: 200 },
+  sort: { type: "enum", values: ["order", "name", "level"] },
+  ...pageQuery,
+};
+
+export const searchQuery: Schema = {
+  q: { type: "string", required: true, maxLength: 200 },
+  limit: { type: "number", integer: true, min: 1, max: 50 },
+};
+
+// Two revision numbers of the same project
+export const revisionDiffQuery: Schema = {
+  from: { type: "number", required: true, integer: true, min: 1 },
+  to: { type: "number", required: true, integer: true, min: 1 },
+};
+
+export const skillsBody: Schema = {
+  skills: {
+    type: "array",
+    of: { ...skillBody, id: { type: "string", pattern: UUID_PATTERN } },
+    required: true,
+    maxItems: 200,
+  },
+};
+
+export const skillOrderBody: Schema = {
+  ids: {
+    type: "stringArray",
+    required: true,
+    maxItems: 200,
+    pattern: UUID_PATTERN,
+  },
+};
+
+export const loginBody: Schema = {
+  username: { type: "string", required: true, maxLength: 100 },
+  password: { type: "string", required: true, maxLength: 200, trim: false },
+};
+
+export const changePasswordBody: Schema = {
+  currentPassword: {
+    type: "string",
+    required: true,
+    maxLength: 200,
+    trim: false,
+  },
+  newPassword: {
+    type: "string",
+    required: true,
+    minLength: 8,
+    maxLength: 200,
+    trim: false,
+  },
+};
+
+export const passwordBody: Schema = {
+  password: { type: "string", required: true, maxLength: 200, trim: false },
+};
+
+export const twoFactorCodeBody: Schema = {
+  code: { type: "string", required: true, maxLength: 20 },
+};
+
+export const twoFactorLoginBody: Schema = {
+  challengeToken: { type: "string", required: true, maxLength: 1000 },
+  code: { type: "string", required: true, maxLength: 20 },
+};
+
+export const refreshTokenBody: Schema = {
+  refreshToken: { type: "string", required: true, maxLength: 200 },
+};
+
+export const userBody: Schema = {
+  username: { type: "string", required: true, maxLength: 100 },
+  password: {
+    type: "string",
+    required: true,
+    minLength: 8,
+    maxLength: 200,
+    trim: false,
+  },
+  role: { type: "enum", values: ROLES, required: true },
+};
+
+export const userRoleBody: Schema = {
+  role: { type: "enum", values: ROLES, required: true },
+};
+
+export const techTaxonomyBody: Schema = {
+  techs: {
+    type: "array",
+    of: {
+      name: { type: "string", required: true, maxLength: 50 },
+      aliases: { type: "stringArray", maxItems: 20, maxLength: 50 },
+    },
+    required: true,
+    maxItems: 200,
+  },
+};
+
+export const learningBody: Schema = {
+  currentlyLearning: {
+    type: "stringArray",
+    required: true,
+    maxItems: 50,
+    maxLength: 100,
+  },
+};
+
+// Loose on purpose: the address only has to look deliverable
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const contactBody: Schema = {
+  name: { type: "string", required: true, maxLength: 100 },
+  email: {
+    type: "string",
+    required: true,
+    maxLength: 254,
+    pattern: EMAIL_PATTERN,
+  },
+  subject: { type: "string", maxLength: 200 },
+  message: { type: "string", required: true, minLength: 10, maxLength: 5000 },
+  formToken: { type: "string", required: true, maxLength: 1000 },
+};
+
+// Audit log filters; `before` is the previous page's last createdAt
+export const activityQuery: Schema = {
+  resource: { type: "enum", values: AUDIT_RESOURCES },
+  userId: { type: "string", maxLength: 100 },
+  before: { type: "date" },
+};
+
+export const contactMessageQuery: Schema = {
+  archived: { type: "boolean" },
+  before: { type: "date" },
+};
+
+export const contactMessageStatusBody: Schema = {
+  read: { type: "boolean" },
+  archived: { type: "boolean" },
+};
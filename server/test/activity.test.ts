@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import {
+  ADMIN,
+  ApiError,
+  createUser,
+  startServer,
+  TestServer,
+} from "./helpers";
+
+interface AuditEntry {
+  userId: string;
+  username: string;
+  action: string;
+  resource: string;
+  resourceId: string | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  createdAt: string;
+}
+
+interface ActivityResponse {
+  entries: AuditEntry[];
+  nextCursor: string | null;
+}
+
+describe("Activity", () => {
+  let server: TestServer;
+  let token: string;
+  let editor: { id: string; token: string };
+
+  before(async () => {
+    server = await startServer();
+    token = await server.login(ADMIN.username, ADMIN.password);
+    editor = await createUser(server, token, "editor", "editor");
+
+    await server.request("POST", "/api/dashboard/projects", {
+      token,
+      body: { title: "Logged" },
+    });
+    await server.request("POST", "/api/dashboard/skills", {
+      token: editor.token,
+      body: { name: "Go", level: 50, category: "backend" },
+    });
+  });
+
+  after(() => server.stop());
+
+  const activity = (query = "") =>
+    server.request<ActivityResponse & ApiError>(
+      "GET",
+      `/api/dashboard/activity${query}`,
+      { token }
+    );
+
+  it("lists changes newest first with who made them", async () => {
+    const response = await activity();
+    assert.equal(response.status, 200);
+    const [skill, project] = response.body.entries;
+    assert.equal(skill.resource, "skill");
+    assert.equal(skill.username, "editor");
+    assert.equal(project.resource, "project");
+    assert.equal(project.action, "create");
+    assert.equal(project.changes.title.after, "Logged");
+    assert.equal(response.body.nextCursor, null);
+  });
+
+  it("filters by resource, user and time", async () => {
+    const skills = await activity("?resource=skill");
+    assert.ok(skills.body.entries.length > 0);
+    assert.ok(skills.body.entries.every((entry) => entry.resource === "skill"));
+
+    const byEditor = await activity(`?userId=${editor.id}`);
+    assert.ok(byEditor.body.entries.length > 0);
+    assert.ok(
+      byEditor.body.entries.every((entry) => entry.userId === editor.id)
+    );
+
+    const entries = (await activity()).body.entries;
+    const newest = entries[0].createdAt;
+    const older = await activity(`?before=${encodeURIComponent(newest)}`);
+    assert.deepEqual(
+      older.body.entries,
+      entries.filter((entry) => entry.createdAt < newest)
+    );
+  });
+
+  it("refuses unknown filters", async () => {
+    const resource = await activity("?resource=user");
+    assert.equal(resource.status, 400);
+    assert.ok(resource.body.errors?.resource);
+
+    const before = await activity("?before=yesterday");
+    assert.equal(before.status, 400);
+    assert.ok(before.body.errors?.before);
+  });
+
+  it("is for admins only", async () => {
+    const response = await server.request("GET", "/api/dashboard/activity", {
+      token: editor.token,
+    });
+    assert.equal(response.status, 403);
+  });
+});
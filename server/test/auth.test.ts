@@ -0,0 +1,260 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { hashPassword, verifyPassword } from "../src/auth/passwords";
+import { totpCode, verifyTotp } from "../src/auth/totp";
+import { ADMIN, ApiError, startServer, TestServer } from "./helpers";
+
+interface LoginResponse {
+  token: string;
+  refreshToken: string;
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  user: { id: string; username: string; role: string };
+}
+
+interface VerifyResponse {
+  valid: boolean;
+}
+
+describe("Passwords", () => {
+  it("verifies against a salted hash", async () => {
+    const hash = await hashPassword("correct horse");
+    assert.notEqual(await hashPassword("correct horse"), hash);
+    assert.equal(await verifyPassword("correct horse", hash), true);
+    assert.equal(await verifyPassword("wrong horse", hash), false);
+  });
+
+  it("rejects malformed hashes instead of throwing", async () => {
+    assert.equal(await verifyPassword("password", "password"), false);
+  });
+});
+
+describe("TOTP", () => {
+  // RFC 6238 appendix B: the ASCII key "12345678901234567890" at T = 59s
+  // gives 94287082, of which authenticator apps show the last six digits
+  const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+  it("matches the RFC test vector", () => {
+    assert.equal(totpCode(RFC_SECRET, 59 * 1000), "287082");
+    assert.equal(verifyTotp(RFC_SECRET, "287082", 59 * 1000), 1);
+  });
+
+  it("accepts one step of drift either way and no more", () => {
+    const now = 1_000_000 * 1000;
+    assert.notEqual(
+      verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, now - 30000), now),
+      null
+    );
+    assert.notEqual(
+      verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, now + 30000), now),
+      null
+    );
+    assert.equal(
+      verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, now - 90000), now),
+      null
+    );
+  });
+
+  it("rejects codes that aren't six digits", () => {
+    assert.equal(verifyTotp(RFC_SECRET, "28708", 59 * 1000), null);
+    assert.equal(verifyTotp(RFC_SECRET, "abcdef", 59 * 1000), null);
+  });
+});
+
+describe("Auth endpoints", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server.stop());
+
+  it("logs in with the right password and returns a working token", async () => {
+    const response = await server.request<LoginResponse>(
+      "POST",
+      "/api/auth/login",
+      { body: ADMIN }
+    );
+    assert.equal(response.status, 200);
+    assert.equal(response.body.user.username, ADMIN.username);
+    assert.ok(response.body.refreshToken);
+
+    const verify = await server.request<VerifyResponse>(
+      "GET",
+      "/api/auth/verify",
+      { token: response.body.token }
+    );
+    assert.equal(verify.body.valid, true);
+  });
+
+  it("refuses a wrong password and an unknown user alike", async () => {
+    const wrongPassword = await server.request<ApiError>(
+      "POST",
+      "/api/auth/login",
+      { body: { username: ADMIN.username, password: "nope" } }
+    );
+    const unknownUser = await server.request<ApiError>(
+      "POST",
+      "/api/auth/login",
+      { body: { username: "nobody", password: "nope" } }
+    );
+    assert.equal(wrongPassword.status, 401);
+    assert.equal(unknownUser.status, 401);
+    assert.deepEqual(wrongPassword.body, unknownUser.body);
+  });
+
+  it("refuses dashboard requests without a valid token", async () => {
+    const missing = await server.request("GET", "/api/dashboard/data");
+    const forged = await server.request("GET", "/api/dashboard/data", {
+      token: "not-a-token",
+    });
+    assert.equal(missing.status, 401);
+    assert.equal(forged.status, 401);
+  });
+
+  it("stops accepting a token once its session is logged out", async () => {
+    const login = await server.request<LoginResponse>(
+      "POST",
+      "/api/auth/login",
+      { body: ADMIN }
+    );
+    const { token, refreshToken } = login.body;
+    const logout = await server.request("POST", "/api/auth/logout", {
+      body: { refreshToken },
+    });
+    assert.equal(logout.status, 200);
+
+    const verify = await server.request<VerifyResponse>(
+      "GET",
+      "/api/auth/verify",
+      { token }
+    );
+    assert.equal(verify.body.valid, false);
+    const refresh = await server.request("POST", "/api/auth/refresh", {
+      body: { refreshToken },
+    });
+    assert.equal(refresh.status, 401);
+  });
+
+  it("rotates refresh tokens and ends the session when one is reused", async () => {
+    const login = await server.request<LoginResponse>(
+      "POST",
+      "/api/auth/login",
+      { body: ADMIN }
+    );
+    const refresh = (refreshToken: string) =>
+      server.request<LoginResponse>("POST", "/api/auth/refresh", {
+        body: { refreshToken },
+      });
+
+    const rotated = await refresh(login.body.refreshToken);
+    assert.equal(rotated.status, 200);
+    assert.notEqual(rotated.body.refreshToken, login.body.refreshToken);
+
+    // Someone else still holding the old one gives the session away
+    const reused = await refresh(login.body.refreshToken);
+    assert.equal(reused.status, 401);
+    const afterReuse = await refresh(rotated.body.refreshToken);
+    assert.equal(afterReuse.status, 401);
+  });
+
+  it("changes the password only with the current one", async () => {
+    const token = await server.login(ADMIN.username, ADMIN.password);
+    const refused = await server.request<ApiError>(
+      "POST",
+      "/api/auth/change-password",
+      {
+        token,
+        body: { currentPassword: "nope", newPassword: "a-new-password" },
+      }
+    );
+    assert.equal(refused.status, 400);
+    assert.ok(refused.body.errors?.currentPassword);
+
+    const changed = await server.request<LoginResponse>(
+      "POST",
+      "/api/auth/change-password",
+      {
+        token,
+        body: {
+          currentPassword: ADMIN.password,
+          newPassword: "a-new-password",
+        },
+      }
+    );
+    assert.equal(changed.status, 200);
+    assert.ok(changed.body.token);
+
+    await server.login(ADMIN.username, "a-new-password");
+    await assert.rejects(server.login(ADMIN.username, ADMIN.password));
+
+    // Put it back for the other tests
+    const restored = await server.request("POST", "/api/auth/change-password", {
+      token: changed.body.token,
+      body: {
+        currentPassword: "a-new-password",
+        newPassword: ADMIN.password,
+      },
+    });
+    assert.equal(restored.status, 200);
+  });
+
+  it("asks for a second factor once two-factor login is enabled", async () => {
+    const token = await server.login(ADMIN.username, ADMIN.password);
+    const setup = await server.request<{ secret: string }>(
+      "POST",
+      "/api/auth/2fa/setup",
+      { token }
+    );
+    assert.equal(setup.status, 200);
+    const { secret } = setup.body;
+
+    const code = totpCode(secret);
+    const wrongCode = String((Number(code) + 1) % 1e6).padStart(6, "0");
+    const refused = await server.request("POST", "/api/auth/2fa/enable", {
+      token,
+      body: { code: wrongCode },
+    });
+    assert.equal(refused.status, 400);
+
+    const enable = await server.request<{ recoveryCodes: string[] }>(
+      "POST",
+      "/api/auth/2fa/enable",
+      { token, body: { code } }
+    );
+    assert.equal(enable.status, 200);
+    assert.equal(enable.body.recoveryCodes.length, 10);
+
+    const login = await server.request<LoginResponse>(
+      "POST",
+      "/api/auth/login",
+      { body: ADMIN }
+    );
+    assert.equal(login.status, 200);
+    assert.equal(login.body.twoFactorRequired, true);
+    assert.equal(login.body.token, undefined);
+    const { challengeToken } = login.body;
+
+    // The code used to enable it can't be replayed
+    const replay = await server.request("POST", "/api/auth/2fa/verify", {
+      body: { challengeToken, code },
+    });
+    assert.equal(replay.status, 400);
+
+    // A recovery code works once
+    const [recoveryCode] = enable.body.recoveryCodes;
+    const recovered = await server.request<LoginResponse>(
+      "POST",
+      "/api/auth/2fa/verify",
+      { body: { challengeToken, code: recoveryCode } }
+    );
+    assert.equal(recovered.status, 200);
+    assert.ok(recovered.body.token);
+
+    const reused = await server.request("POST", "/api/auth/2fa/verify", {
+      body: { challengeToken, code: recoveryCode },
+    });
+    assert.equal(reused.status, 400);
+  });
+});
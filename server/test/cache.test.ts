@@ -0,0 +1,195 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createResponseCache } from "../src/cache";
+import { ADMIN, startServer, TestServer } from "./helpers";
+
+describe("Response cache", () => {
+  it("renders once for concurrent and later requests", async () => {
+    const cache = createResponseCache({ ttlMs: 60000 });
+    let renders = 0;
+    const render = async () => ({ body: { n: ++renders } });
+
+    const [a, b] = await Promise.all([
+      cache.get("data", render),
+      cache.get("data", render),
+    ]);
+    const c = await cache.get("data", render);
+    assert.equal(renders, 1);
+    assert.equal(a, b);
+    assert.equal(c.body, '{"n":1}');
+  });
+
+  it("renders again after invalidate and keeps the date of equal content", async () => {
+    const cache = createResponseCache({ ttlMs: 60000 });
+    let body = { n: 1 };
+    const render = async () => ({ body });
+
+    const first = await cache.get("data", render);
+    cache.invalidate();
+    const same = await cache.get("data", render);
+    assert.notEqual(same, first);
+    assert.equal(same.etag, first.etag);
+    assert.equal(same.lastModified, first.lastModified);
+
+    body = { n: 2 };
+    cache.invalidate();
+    const changed = await cache.get("data", render);
+    assert.notEqual(changed.etag, first.etag);
+  });
+
+  it("doesn't keep a render that an invalidate overtook", async () => {
+    const cache = createResponseCache({ ttlMs: 60000 });
+    let renders = 0;
+    let release!: () => void;
+    const slow = new Promise<void>((resolve) => (release = resolve));
+
+    const inFlight = cache.get("data", async () => {
+      renders++;
+      await slow;
+      return { body: "old" };
+    });
+    cache.invalidate();
+    release();
+    assert.equal((await inFlight).body, '"old"');
+
+    const fresh = await cache.get("data", async () => {
+      renders++;
+      return { body: "new" };
+    });
+    assert.equal(fresh.body, '"new"');
+    assert.equal(renders, 2);
+  });
+
+  it("expires entries early when the render says so", async () => {
+    const cache = createResponseCache({ ttlMs: 60000 });
+    let renders = 0;
+    const render = async () => ({
+      body: ++renders,
+      expiresAt: Date.now() - 1,
+    });
+    await cache.get("data", render);
+    await cache.get("data", render);
+    assert.equal(renders, 2);
+  });
+});
+
+describe("Public caching", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startServer();
+    token = await server.login(ADMIN.username, ADMIN.password);
+  });
+
+  after(() => server.stop());
+
+  // Asks for /api/data unless `etag` is still current. fetch() would add
+  // "Cache-Control: no-cache" to a conditional request, which asks for a
+  // full response, so it is set here.
+  const revalidate = <T>(etag: string) =>
+    server.request<T>("GET", "/api/data", {
+      headers: { "If-None-Match": etag, "Cache-Control": "max-age=0" },
+    });
+
+  it("sends validators and a Cache-Control header", async () => {
+    const response = await server.request("GET", "/api/data");
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get("etag") ?? "", /^"[\w-]+"$/);
+    assert.ok(response.headers.get("last-modified"));
+    assert.equal(response.headers.get("cache-control"), "public, no-cache");
+
+    for (const path of [
+      "/api/projects",
+      "/api/skills",
+      "/api/search?q=anything",
+      "/robots.txt",
+      "/sitemap.xml",
+      "/feed.xml",
+      "/atom.xml",
+      "/feed.json",
+    ]) {
+      const other = await server.request("GET", path);
+      assert.equal(other.status, 200, path);
+      assert.equal(
+        other.headers.get("cache-control"),
+        "public, no-cache",
+        path
+      );
+    }
+  });
+
+  it("answers a current copy with 304 Not Modified", async () => {
+    const { headers } = await server.request("GET", "/api/data");
+    const etag = headers.get("etag")!;
+
+    const byEtag = await revalidate(etag);
+    assert.equal(byEtag.status, 304);
+    assert.equal(byEtag.body, "");
+    assert.equal(byEtag.headers.get("etag"), etag);
+    assert.equal(byEtag.headers.get("cache-control"), "public, no-cache");
+
+    const stale = await revalidate('"something-else"');
+    assert.equal(stale.status, 200);
+  });
+
+  it("leaves errors uncached", async () => {
+    for (const path of [
+      "/api/projects/missing",
+      "/api/projects?sort=random",
+      "/api/projects?cursor=not-a-cursor",
+      "/api/search",
+    ]) {
+      const response = await server.request("GET", path);
+      assert.ok(response.status >= 400, path);
+      assert.equal(response.headers.get("cache-control"), null, path);
+    }
+  });
+
+  it("serves fresh data right after a dashboard write", async () => {
+    const before = await server.request<{ projects: unknown[] }>(
+      "GET",
+      "/api/data"
+    );
+    await server.request("POST", "/api/dashboard/projects", {
+      token,
+      body: { title: "Fresh", status: "published" },
+    });
+
+    const after = await revalidate<{ projects: { title: string }[] }>(
+      before.headers.get("etag")!
+    );
+    assert.equal(after.status, 200);
+    assert.notEqual(after.headers.get("etag"), before.headers.get("etag"));
+    assert.deepEqual(
+      after.body.projects.map((project) => project.title),
+      ["Fresh"]
+    );
+  });
+
+  it("serves fresh data after any change visitors can see", async () => {
+    const load = async () =>
+      (
+        await server.request<{
+          currentlyLearning: string[];
+          skills: { name: string }[];
+        }>("GET", "/api/data")
+      ).body;
+    await load();
+
+    await server.request("PUT", "/api/dashboard/learning", {
+      token,
+      body: { currentlyLearning: ["Rust"] },
+    });
+    assert.deepEqual((await load()).currentlyLearning, ["Rust"]);
+
+    await server.request("PUT", "/api/dashboard/skills", {
+      token,
+      body: { skills: [{ name: "Go", level: 50, category: "backend" }] },
+    });
+    assert.deepEqual(
+      (await load()).skills.map((skill) => skill.name),
+      ["Go"]
+    );
+  });
+});
@@ -0,0 +1,262 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ContactMessage } from "../src/storage";
+import { ADMIN, ApiError, startServer, TestServer } from "./helpers";
+
+interface InboxResponse {
+  contactMessages: ContactMessage[];
+  unread: number;
+  nextCursor: string | null;
+}
+
+const MESSAGE = {
+  name: "Ada",
+  email: "ada@example.com",
+  subject: "Hello",
+  message: "I'd like to work with you.",
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function formToken(server: TestServer): Promise<string> {
+  const form = await server.request<{ formToken: string }>(
+    "GET",
+    "/api/contact/form"
+  );
+  assert.equal(form.headers.get("cache-control"), "no-store");
+  return form.body.formToken;
+}
+
+// Every post counts against its address, so tests that must not be limited
+// by the ones before them post from addresses of their own. The servers
+// trust X-Forwarded-For to set it.
+const CLIENT_IP = "203.0.113.1";
+
+function sendMessage(
+  server: TestServer,
+  body: Record<string, unknown>,
+  ip = CLIENT_IP,
+  userAgent = "contact-test"
+) {
+  return server.request<ApiError>("POST", "/api/contact", {
+    body,
+    headers: { "User-Agent": userAgent, "X-Forwarded-For": ip },
+  });
+}
+
+describe("Contact form", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startServer({
+      CONTACT_MIN_FILL_SECONDS: "1",
+      TRUST_PROXY: "1",
+    });
+    token = await server.login(ADMIN.username, ADMIN.password);
+  });
+
+  after(() => server.stop());
+
+  const listInbox = async (query = "") =>
+    (
+      await server.request<InboxResponse>(
+        "GET",
+        `/api/dashboard/messages${query}`,
+        { token }
+      )
+    ).body;
+
+  const send = (body: Record<string, unknown>, ip?: string) =>
+    sendMessage(server, body, ip);
+
+  it("delivers a message to the inbox", async () => {
+    const fresh = await formToken(server);
+    await wait(1100);
+    const response = await send({ ...MESSAGE, formToken: fresh });
+    assert.equal(response.status, 200);
+
+    // Each form can be sent once
+    const again = await send({ ...MESSAGE, formToken: fresh });
+    assert.equal(again.status, 400);
+    assert.ok(again.body.errors?.formToken);
+
+    const inbox = await listInbox();
+    assert.equal(inbox.unread, 1);
+    assert.equal(inbox.nextCursor, null);
+    const [received] = inbox.contactMessages;
+    assert.equal(received.message, MESSAGE.message);
+    assert.equal(received.userAgent, "contact-test");
+    assert.equal(received.readAt, null);
+  });
+
+  it("drops messages from bots without telling them", async () => {
+    const honeypot = await formToken(server);
+    await wait(1100);
+    const filledIn = await send(
+      { ...MESSAGE, website: "https://spam.example", formToken: honeypot },
+      "198.51.100.1"
+    );
+    assert.equal(filledIn.status, 200);
+
+    // Whatever the bot put there, and whatever else is wrong with the post,
+    // nothing gives the honeypot away
+    const odd = [12345, { url: "x" }, "x".repeat(500)];
+    for (const [i, website] of odd.entries()) {
+      const response = await send(
+        { ...MESSAGE, email: "nowhere", website },
+        `198.51.100.${i + 2}`
+      );
+      assert.equal(response.status, 200);
+      assert.deepEqual(response.body, { success: true });
+    }
+
+    // Sent before anyone could have filled in the form
+    const tooFast = await send(
+      { ...MESSAGE, formToken: await formToken(server) },
+      "198.51.100.9"
+    );
+    assert.equal(tooFast.status, 200);
+
+    assert.equal((await listInbox()).contactMessages.length, 1);
+  });
+
+  it("refuses forged form tokens and invalid messages", async () => {
+    const forged = await send({ ...MESSAGE, formToken: "not-a-token" });
+    assert.equal(forged.status, 400);
+    assert.ok(forged.body.errors?.formToken);
+
+    const invalid = await send({
+      ...MESSAGE,
+      email: "nowhere",
+      message: "Hi",
+      formToken: await formToken(server),
+    });
+    assert.equal(invalid.status, 400);
+    assert.deepEqual(Object.keys(invalid.body.errors ?? {}).sort(), [
+      "email",
+      "message",
+    ]);
+  });
+
+  it("marks messages read and archives them", async () => {
+    const [received] = (await listInbox()).contactMessages;
+    const update = (body: Record<string, unknown>, id = received.id) =>
+      server.request<{ contactMessage: ContactMessage }>(
+        "PUT",
+        `/api/dashboard/messages/${id}`,
+        { token, body }
+      );
+
+    const read = await update({ read: true });
+    assert.equal(read.status, 200);
+    assert.ok(read.body.contactMessage.readAt);
+    assert.equal((await listInbox()).unread, 0);
+
+    const unread = await update({ read: false });
+    assert.equal(unread.body.contactMessage.readAt, null);
+    assert.equal((await listInbox()).unread, 1);
+
+    await update({ archived: true });
+    assert.deepEqual((await listInbox()).contactMessages, []);
+    // Archived messages don't wait for an answer
+    assert.equal((await listInbox()).unread, 0);
+    const archive = await listInbox("?archived=true");
+    assert.deepEqual(
+      archive.contactMessages.map((message) => message.id),
+      [received.id]
+    );
+
+    const missing = await update({ read: true }, "no-such-message");
+    assert.equal(missing.status, 404);
+
+    const badQuery = await server.request(
+      "GET",
+      "/api/dashboard/messages?before=yesterday",
+      { token }
+    );
+    assert.equal(badQuery.status, 400);
+  });
+
+  it("deletes messages for good", async () => {
+    const [archived] = (await listInbox("?archived=true")).contactMessages;
+    const remove = () =>
+      server.request("DELETE", `/api/dashboard/messages/${archived.id}`, {
+        token,
+      });
+    assert.equal((await remove()).status, 200);
+    assert.deepEqual((await listInbox("?archived=true")).contactMessages, []);
+    assert.equal((await remove()).status, 404);
+  });
+});
+
+describe("Contact rate limit", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startServer({
+      CONTACT_MIN_FILL_SECONDS: "0",
+      TRUST_PROXY: "1",
+    });
+    token = await server.login(ADMIN.username, ADMIN.password);
+  });
+
+  after(() => server.stop());
+
+  const send = async (ip: string, fields: Record<string, unknown> = {}) =>
+    sendMessage(
+      server,
+      { ...MESSAGE, formToken: await formToken(server), ...fields },
+      ip
+    );
+
+  it("lets an address send a few messages, then makes it wait", async () => {
+    for (let i = 0; i < 3; i++) {
+      const sent = await send(CLIENT_IP);
+      assert.equal(sent.status, 200, `message ${i + 1}`);
+    }
+
+    const limited = await send(CLIENT_IP);
+    assert.equal(limited.status, 429);
+    assert.equal(limited.body.message, "Too many messages");
+    assert.ok(Number(limited.headers.get("retry-after")) > 0);
+
+    // Even when it looks like spam
+    const honeypot = await send(CLIENT_IP, { website: "x" });
+    assert.equal(honeypot.status, 429);
+
+    const elsewhere = await send("203.0.113.2");
+    assert.equal(elsewhere.status, 200);
+  });
+
+  it("counts dropped messages against the sender too", async () => {
+    for (let i = 0; i < 3; i++) {
+      const dropped = await send("203.0.113.3", { website: "x" });
+      assert.equal(dropped.status, 200);
+    }
+
+    const limited = await send("203.0.113.3");
+    assert.equal(limited.status, 429);
+  });
+
+  it("keeps only the start of a long user agent", async () => {
+    const sent = await sendMessage(
+      server,
+      { ...MESSAGE, formToken: await formToken(server) },
+      "203.0.113.4",
+      "x".repeat(1000)
+    );
+    assert.equal(sent.status, 200);
+
+    const inbox = await server.request<InboxResponse>(
+      "GET",
+      "/api/dashboard/messages",
+      { token }
+    );
+    const received = inbox.body.contactMessages.find(
+      (message) => message.ip === "203.0.113.4"
+    );
+    assert.equal(received?.userAgent, "x".repeat(300));
+  });
+});
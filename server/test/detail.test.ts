@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import {
+  ADMIN,
+  ApiError,
+  SITE_FIXTURE,
+  startServer,
+  TestServer,
+} from "./helpers";
+
+interface Project {
+  id: number;
+  slug: string;
+  caseStudy: string | null;
+  role: string | null;
+  timeline: string | null;
+  challenges: string[];
+  outcomes: string[];
+}
+
+const CASE_STUDY = {
+  caseStudy: "Rebuilt the checkout.",
+  role: "Lead developer",
+  timeline: "Spring 2024",
+  challenges: ["Legacy payment API"],
+  outcomes: ["Checkout time halved", "Fewer support tickets"],
+};
+
+describe("Project detail pages", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startServer({}, { cwd: SITE_FIXTURE });
+    token = await server.login(ADMIN.username, ADMIN.password);
+  });
+
+  after(() => server.stop());
+
+  const createProject = async (body: Record<string, unknown>) =>
+    (
+      await server.request<{ project: Project }>(
+        "POST",
+        "/api/dashboard/projects",
+        { token, body }
+      )
+    ).body.project;
+
+  it("serves the case study of a public project", async () => {
+    const project = await createProject({
+      title: "Checkout",
+      status: "published",
+      ...CASE_STUDY,
+    });
+
+    const response = await server.request<{ project: Project }>(
+      "GET",
+      `/api/projects/${project.slug}`
+    );
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      {
+        caseStudy: response.body.project.caseStudy,
+        role: response.body.project.role,
+        timeline: response.body.project.timeline,
+        challenges: response.body.project.challenges,
+        outcomes: response.body.project.outcomes,
+      },
+      CASE_STUDY
+    );
+  });
+
+  it("gives projects without a case study empty detail fields", async () => {
+    const project = await createProject({ title: "Plain" });
+    assert.equal(project.caseStudy, null);
+    assert.equal(project.role, null);
+    assert.equal(project.timeline, null);
+    assert.deepEqual(project.challenges, []);
+    assert.deepEqual(project.outcomes, []);
+  });
+
+  it("clears detail fields when they are blanked", async () => {
+    const project = await createProject({ title: "Cleared", ...CASE_STUDY });
+    const response = await server.request<{ project: Project }>(
+      "PUT",
+      `/api/dashboard/projects/${project.id}`,
+      { token, body: { caseStudy: "", role: "", outcomes: [] } }
+    );
+    assert.equal(response.status, 200);
+    assert.equal(response.body.project.caseStudy, null);
+    assert.equal(response.body.project.role, null);
+    assert.deepEqual(response.body.project.outcomes, []);
+    assert.equal(response.body.project.timeline, CASE_STUDY.timeline);
+  });
+
+  it("limits how long the detail fields may be", async () => {
+    const response = await server.request<ApiError>(
+      "POST",
+      "/api/dashboard/projects",
+      {
+        token,
+        body: {
+          title: "Too long",
+          role: "x".repeat(201),
+          challenges: Array.from({ length: 21 }, (_, i) => `Challenge ${i}`),
+        },
+      }
+    );
+    assert.equal(response.status, 400);
+    assert.ok(response.body.errors?.role);
+    assert.ok(response.body.errors?.challenges);
+  });
+
+  it("answers page requests for hidden or unknown projects with a 404", async () => {
+    const published = await createProject({
+      title: "Visible",
+      status: "published",
+    });
+    const draft = await createProject({ title: "Hidden" });
+
+    const page = await server.request<string>(
+      "GET",
+      `/projects/${published.slug}`
+    );
+    assert.equal(page.status, 200);
+    assert.match(page.body, /<div id="root">/);
+
+    for (const slug of [draft.slug, "no-such-project"]) {
+      const missing = await server.request<string>("GET", `/projects/${slug}`);
+      assert.equal(missing.status, 404, slug);
+      // Still the app, which shows its own not-found page
+      assert.match(missing.body, /<div id="root">/);
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { Feed, renderJsonFeed, renderSitemap } from "../src/feeds";
+import { ADMIN, startServer, TestServer } from "./helpers";
+
+interface JsonFeed {
+  feed_url: string;
+  items: {
+    id: string;
+    title: string;
+    content_html?: string;
+    content_text?: string;
+    tags: string[];
+    date_published: string;
+  }[];
+}
+
+describe("Feed rendering", () => {
+  it("escapes sitemap URLs and leaves out unknown dates", () => {
+    const sitemap = renderSitemap([
+      { url: "https://example.com/?a=1&b=2", lastModified: null },
+      {
+        url: "https://example.com/projects/x",
+        lastModified: "2024-05-01T00:00:00.000Z",
+      },
+    ]);
+    assert.match(sitemap, /<loc>https:\/\/example.com\/\?a=1&amp;b=2<\/loc>/);
+    assert.equal(sitemap.match(/<lastmod>/g)?.length, 1);
+  });
+
+  it("falls back to the summary for items without content", () => {
+    const feed: Feed = {
+      title: "Projects",
+      description: "All of them",
+      author: "Me",
+      siteUrl: "https://example.com/",
+      updated: "2024-05-01T00:00:00.000Z",
+      items: [
+        {
+          url: "https://example.com/projects/x",
+          title: "X",
+          summary: "X",
+          contentHtml: null,
+          image: null,
+          tags: [],
+          published: "2024-05-01T00:00:00.000Z",
+          updated: "2024-05-01T00:00:00.000Z",
+        },
+      ],
+    };
+    const [item] = renderJsonFeed(feed, "https://example.com/feed.json").items;
+    assert.ok("content_text" in item);
+    assert.equal(item.content_text, "X");
+    assert.ok(!("image" in item));
+  });
+});
+
+describe("Discovery endpoints", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startServer({
+      SITE_URL: "https://example.com",
+      ROBOTS_DISALLOW: "/api/, /admin/",
+    });
+    token = await server.login(ADMIN.username, ADMIN.password);
+    for (const body of [
+      {
+        title: "Older",
+        status: "published",
+        description: "Uses <b>tags</b> & **bold**",
+        tech: ["ts"],
+      },
+      { title: "Draft", status: "draft" },
+      { title: "Newer", status: "published" },
+    ]) {
+      await server.request("POST", "/api/dashboard/projects", { token, body });
+    }
+  });
+
+  after(() => server.stop());
+
+  it("points crawlers at the sitemap and away from the API", async () => {
+    const robots = await server.request<string>("GET", "/robots.txt");
+    assert.equal(robots.status, 200);
+    assert.equal(
+      robots.body,
+      [
+        "User-agent: *",
+        "Disallow: /api/",
+        "Disallow: /admin/",
+        "",
+        "Sitemap: https://example.com/sitemap.xml",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("lists the portfolio and every public project in the sitemap", async () => {
+    const sitemap = await server.request<string>("GET", "/sitemap.xml");
+    assert.equal(sitemap.status, 200);
+    assert.match(sitemap.headers.get("content-type") ?? "", /application\/xml/);
+    assert.deepEqual(
+      [...sitemap.body.matchAll(/<loc>(.*?)<\/loc>/g)].map((match) => match[1]),
+      [
+        "https://example.com/",
+        "https://example.com/projects/older",
+        "https://example.com/projects/newer",
+      ]
+    );
+  });
+
+  it("serves public projects newest first in every feed format", async () => {
+    const rss = await server.request<string>("GET", "/feed.xml");
+    assert.match(
+      rss.headers.get("content-type") ?? "",
+      /application\/rss\+xml/
+    );
+    assert.deepEqual(
+      [...rss.body.matchAll(/<item>\s*<title>(.*?)<\/title>/g)].map(
+        (match) => match[1]
+      ),
+      ["Newer", "Older"]
+    );
+    assert.match(rss.body, /<category>TypeScript<\/category>/);
+    // The rendered Markdown is escaped into the description
+    assert.match(rss.body, /&lt;strong&gt;bold&lt;\/strong&gt;/);
+    assert.doesNotMatch(rss.body, /<b>/);
+
+    const atom = await server.request<string>("GET", "/atom.xml");
+    assert.match(
+      atom.headers.get("content-type") ?? "",
+      /application\/atom\+xml/
+    );
+    assert.deepEqual(
+      [...atom.body.matchAll(/<entry>\s*<title>(.*?)<\/title>/g)].map(
+        (match) => match[1]
+      ),
+      ["Newer", "Older"]
+    );
+    assert.match(
+      atom.body,
+      /<link href="https:\/\/example.com\/atom.xml" rel="self" \/>/
+    );
+
+    const json = await server.request<JsonFeed>("GET", "/feed.json");
+    assert.equal(json.body.feed_url, "https://example.com/feed.json");
+    assert.deepEqual(
+      json.body.items.map((item) => item.title),
+      ["Newer", "Older"]
+    );
+    const [newer, older] = json.body.items;
+    assert.equal(newer.id, "https://example.com/projects/newer");
+    assert.equal(newer.content_text, "Newer");
+    assert.match(older.content_html ?? "", /<strong>bold<\/strong>/);
+    assert.deepEqual(older.tags, ["TypeScript"]);
+    assert.ok(newer.date_published >= older.date_published);
+  });
+
+  it("dates a scheduled project from when it appears", async () => {
+    const publishAt = new Date(Date.now() + 1000).toISOString();
+    await server.request("POST", "/api/dashboard/projects", {
+      token,
+      body: { title: "Scheduled", status: "published", publishAt },
+    });
+    const hidden = await server.request<JsonFeed>("GET", "/feed.json");
+    assert.ok(!hidden.body.items.some((item) => item.title === "Scheduled"));
+
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    const shown = await server.request<JsonFeed>("GET", "/feed.json");
+    const [first] = shown.body.items;
+    assert.equal(first.title, "Scheduled");
+    assert.equal(first.date_published, publishAt);
+  });
+});
+
+describe("Robots without indexing", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer({ ROBOTS_ALLOW_INDEXING: "false" });
+  });
+
+  after(() => server.stop());
+
+  it("asks crawlers to skip the whole site", async () => {
+    const robots = await server.request<string>("GET", "/robots.txt");
+    assert.match(robots.body, /^User-agent: \*\nDisallow: \/\n/);
+    assert.match(robots.body, /Sitemap: http:\/\/127.0.0.1:\d+\/sitemap.xml/);
+  });
+});
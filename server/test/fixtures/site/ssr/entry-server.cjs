@@ -0,0 +1,5 @@
+// Stands in for the frontend's SSR bundle and shows what it was given
+exports.render = (path, initialData) =>
+  `<main data-path="${path}">${
+    initialData.project ? initialData.project.title : "Portfolio"
+  }</main>`;
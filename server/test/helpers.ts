@@ -0,0 +1,181 @@
+import { ChildProcess, spawn } from "child_process";
+import { createServer } from "net";
+import path from "path";
+import { pathToFileURL } from "url";
+
+// Starts the API in a child process with the memory backend, so every test
+// file gets its own empty store, throttles and caches.
+
+const SERVER_DIR = path.join(__dirname, "..");
+// A stand-in for the built frontend the server looks for in its working
+// directory, for tests of the pages it serves
+export const SITE_FIXTURE = path.join(__dirname, "fixtures", "site");
+
+export interface ApiResponse<T> {
+  status: number;
+  headers: Headers;
+  // Parsed JSON, or the raw text for anything else
+  body: T;
+}
+
+// The body of every failed request
+export interface ApiError {
+  success: false;
+  message: string;
+  errors?: Record<string, string>;
+}
+
+export interface RequestOptions {
+  token?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface TestServer {
+  url: string;
+  // `T` is the body the caller expects; nothing checks it
+  request<T = unknown>(
+    method: string,
+    path: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<T>>;
+  // Logs in and returns the access token; throws unless the login succeeds
+  login(username: string, password: string): Promise<string>;
+  stop(): Promise<void>;
+}
+
+export const ADMIN = { username: "admin", password: "admin-password" };
+
+const STARTUP_TIMEOUT_MS = 30000;
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.unref();
+    server.on("error", reject);
+    server.listen(0, () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitUntilReady(url: string, child: ChildProcess, log: string[]) {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) break;
+    try {
+      const response = await fetch(`${url}/readyz`);
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  child.kill("SIGKILL");
+  throw new Error(`Server didn't become ready:\n${log.join("")}`);
+}
+
+export async function startServer(
+  env: Record<string, string> = {},
+  options: { cwd?: string } = {}
+): Promise<TestServer> {
+  const port = await freePort();
+  const url = `http://127.0.0.1:${port}`;
+  // Resolved here, since the working directory may be outside the server
+  const tsx = pathToFileURL(require.resolve("tsx")).href;
+  const entry = path.join(SERVER_DIR, "src", "index.ts");
+  const child = spawn(process.execPath, ["--import", tsx, entry], {
+    cwd: options.cwd ?? SERVER_DIR,
+    env: {
+      ...process.env,
+      STORAGE_BACKEND: "memory",
+      PORT: String(port),
+      JWT_SECRET: "test-secret",
+      ADMIN_USERNAME: ADMIN.username,
+      ADMIN_PASSWORD: ADMIN.password,
+      ...env,
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  const log: string[] = [];
+  child.stdout!.on("data", (chunk) => log.push(String(chunk)));
+  child.stderr!.on("data", (chunk) => log.push(String(chunk)));
+
+  await waitUntilReady(url, child, log);
+
+  async function request<T>(
+    method: string,
+    requestPath: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    const headers: Record<string, string> = { ...options.headers };
+    if (options.token) headers.Authorization = `Bearer ${options.token}`;
+    if (options.body !== undefined)
+      headers["Content-Type"] = "application/json";
+
+    const response = await fetch(`${url}${requestPath}`, {
+      method,
+      headers,
+      body:
+        options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+    const text = await response.text();
+    let body: unknown = text;
+    if (response.headers.get("content-type")?.includes("json")) {
+      body = JSON.parse(text);
+    }
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: body as T,
+    };
+  }
+
+  return {
+    url,
+    request,
+
+    async login(username, password) {
+      const response = await request<{ token?: string }>(
+        "POST",
+        "/api/auth/login",
+        { body: { username, password } }
+      );
+      if (response.status !== 200 || !response.body.token) {
+        throw new Error(`Login as ${username} failed: ${response.status}`);
+      }
+      return response.body.token;
+    },
+
+    stop() {
+      return new Promise((resolve) => {
+        if (child.exitCode !== null) return resolve();
+        child.once("exit", () => resolve());
+        child.kill("SIGTERM");
+      });
+    },
+  };
+}
+
+// Creates a user as the admin and signs them in
+export async function createUser(
+  server: TestServer,
+  adminToken: string,
+  username: string,
+  role: "admin" | "editor" | "viewer"
+): Promise<{ id: string; token: string }> {
+  const password = `${username}-password`;
+  const response = await server.request<{ user: { id: string } }>(
+    "POST",
+    "/api/dashboard/users",
+    { token: adminToken, body: { username, password, role } }
+  );
+  if (response.status !== 200) {
+    throw new Error(`Creating ${username} failed: ${response.status}`);
+  }
+  return {
+    id: response.body.user.id,
+    token: await server.login(username, password),
+  };
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { renderMarkdown, renderOptionalMarkdown } from "../src/markdown";
+import { ADMIN, startServer, TestServer } from "./helpers";
+
+describe("renderMarkdown", () => {
+  it("renders GitHub-flavored Markdown", () => {
+    const html = renderMarkdown(
+      "## Stack\n\n- **Fast** and ~~slow~~\n\n| a | b |\n| - | - |\n| 1 | 2 |"
+    );
+    assert.match(html, /<h2>Stack<\/h2>/);
+    assert.match(html, /<strong>Fast<\/strong>/);
+    assert.match(html, /<del>slow<\/del>/);
+    assert.match(html, /<td>1<\/td>/);
+  });
+
+  it("strips script elements", () => {
+    const html = renderMarkdown("Hi <script>alert(1)</script> there");
+    assert.doesNotMatch(html, /script/i);
+    assert.doesNotMatch(html, /alert/);
+  });
+
+  it("drops javascript: links but keeps their text", () => {
+    for (const source of [
+      "[click](javascript:alert(1))",
+      '<a href="javascript:alert(1)">click</a>',
+      '<a href="JaVaScRiPt:alert(1)">click</a>',
+    ]) {
+      const html = renderMarkdown(source);
+      assert.doesNotMatch(html, /javascript/i, source);
+      assert.match(html, /click/, source);
+    }
+  });
+
+  it("strips event handler attributes", () => {
+    const html = renderMarkdown(
+      '<p onclick="alert(1)">text</p>\n\n<img src="x" onerror="alert(1)">'
+    );
+    assert.doesNotMatch(html, /onclick|onerror|alert/);
+    assert.doesNotMatch(html, /<img/);
+    assert.match(html, /<p>text<\/p>/);
+  });
+
+  it("strips raw iframes", () => {
+    const html = renderMarkdown(
+      'Before\n\n<iframe src="https://example.com"></iframe>\n\nAfter'
+    );
+    assert.doesNotMatch(html, /iframe/i);
+    assert.match(html, /Before/);
+    assert.match(html, /After/);
+  });
+
+  it("marks links as external", () => {
+    const html = renderMarkdown("[site](https://example.com)");
+    assert.match(
+      html,
+      /<a href="https:\/\/example\.com" rel="nofollow noopener noreferrer">site<\/a>/
+    );
+  });
+
+  it("renders nothing for an empty optional field", () => {
+    assert.equal(renderOptionalMarkdown(null), null);
+    assert.equal(renderOptionalMarkdown(""), null);
+  });
+});
+
+describe("Markdown endpoints", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startServer();
+    token = await server.login(ADMIN.username, ADMIN.password);
+  });
+
+  after(() => server.stop());
+
+  it("sends descriptions both as written and rendered", async () => {
+    const description = "**Bold** <script>alert(1)</script>";
+    await server.request("POST", "/api/dashboard/projects", {
+      token,
+      body: { title: "Markdown", status: "published", description },
+    });
+
+    const data = await server.request<{
+      projects: { description: string; descriptionHtml: string }[];
+    }>("GET", "/api/data");
+    const [project] = data.body.projects;
+    assert.equal(project.description, description);
+    assert.equal(project.descriptionHtml, renderMarkdown(description));
+    assert.doesNotMatch(project.descriptionHtml, /script/);
+  });
+
+  it("previews Markdown for editors with the same sanitizer", async () => {
+    const source = "[x](javascript:alert(1)) <iframe></iframe>";
+    const preview = await server.request<{ html: string }>(
+      "POST",
+      "/api/dashboard/markdown/preview",
+      { token, body: { source } }
+    );
+    assert.equal(preview.status, 200);
+    assert.equal(preview.body.html, renderMarkdown(source));
+
+    const anonymous = await server.request(
+      "POST",
+      "/api/dashboard/markdown/preview",
+      { body: { source } }
+    );
+    assert.equal(anonymous.status, 401);
+  });
+});
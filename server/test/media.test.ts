@@ -0,0 +1,193 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import sharp from "sharp";
+import { ProjectImage } from "../src/storage";
+import {
+  ADMIN,
+  ApiError,
+  createUser,
+  startServer,
+  TestServer,
+} from "./helpers";
+
+describe("Media", () => {
+  const mediaDir = fs.mkdtempSync(path.join(os.tmpdir(), "portfolio-media-"));
+  let server: TestServer;
+  let token: string;
+  let viewerToken: string;
+
+  before(async () => {
+    server = await startServer({ MEDIA_DIR: mediaDir, MAX_UPLOAD_MB: "1" });
+    token = await server.login(ADMIN.username, ADMIN.password);
+    viewerToken = (await createUser(server, token, "viewer", "viewer")).token;
+  });
+
+  after(async () => {
+    await server.stop();
+    await fs.promises.rm(mediaDir, { recursive: true, force: true });
+  });
+
+  const upload = async (
+    data: Buffer,
+    contentType: string,
+    uploadToken = token
+  ) => {
+    const response = await fetch(`${server.url}/api/dashboard/media`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${uploadToken}`,
+        "Content-Type": contentType,
+      },
+      body: data,
+    });
+    const body = (await response.json()) as { image: ProjectImage };
+    return { status: response.status, body };
+  };
+
+  const png = (width: number, height: number) =>
+    sharp({
+      create: {
+        width,
+        height,
+        channels: 3,
+        background: { r: 200, g: 80, b: 40 },
+      },
+    })
+      .png()
+      .toBuffer();
+
+  it("stores an upload as full-size and thumbnail variants", async () => {
+    const response = await upload(await png(1000, 500), "image/png");
+    assert.equal(response.status, 200);
+    const { image } = response.body;
+    assert.equal(image.width, 1000);
+    assert.equal(image.height, 500);
+    // Without transparency the fallback is JPEG
+    assert.match(image.url, /\.jpg$/);
+    assert.match(image.webpUrl, /\.webp$/);
+
+    const thumbnail = await fetch(`${server.url}${image.thumbnailWebpUrl}`);
+    assert.equal(thumbnail.status, 200);
+    assert.equal(thumbnail.headers.get("content-type"), "image/webp");
+    assert.match(thumbnail.headers.get("cache-control") ?? "", /immutable/);
+    const metadata = await sharp(
+      Buffer.from(await thumbnail.arrayBuffer())
+    ).metadata();
+    assert.equal(metadata.width, 480);
+  });
+
+  it("refuses anything that isn't a supported image", async () => {
+    const fake = await upload(Buffer.from("not an image"), "image/png");
+    assert.equal(fake.status, 415);
+
+    const text = await upload(Buffer.from("hello"), "text/plain");
+    assert.equal(text.status, 415);
+
+    const tooLarge = await upload(Buffer.alloc(2 * 1024 * 1024), "image/png");
+    assert.equal(tooLarge.status, 413);
+
+    const byViewer = await upload(await png(10, 10), "image/png", viewerToken);
+    assert.equal(byViewer.status, 403);
+  });
+
+  it("only serves keys the upload endpoint hands out", async () => {
+    const missing = await server.request(
+      "GET",
+      "/media/00000000-0000-4000-8000-000000000000.jpg"
+    );
+    assert.equal(missing.status, 404);
+    const traversal = await server.request(
+      "GET",
+      "/media/..%2F..%2Fpackage.json"
+    );
+    assert.equal(traversal.status, 404);
+  });
+
+  it("attaches uploaded images to projects", async () => {
+    const { body } = await upload(await png(800, 600), "image/png");
+    const image: ProjectImage = { ...body.image, alt: "Screenshot" };
+
+    const create = await server.request<{ project: { id: number } }>(
+      "POST",
+      "/api/dashboard/projects",
+      {
+        token,
+        body: { title: "Pictured", coverImage: image, gallery: [image] },
+      }
+    );
+    assert.equal(create.status, 200);
+    const project = await server.request<{
+      projects: {
+        id: number;
+        coverImage: ProjectImage;
+        gallery: ProjectImage[];
+      }[];
+    }>("GET", "/api/dashboard/data", { token });
+    const [stored] = project.body.projects;
+    assert.deepEqual(stored.coverImage, image);
+    assert.deepEqual(stored.gallery, [image]);
+
+    const foreign = await server.request<ApiError>(
+      "PUT",
+      `/api/dashboard/projects/${create.body.project.id}`,
+      {
+        token,
+        body: { coverImage: { ...image, url: "https://example.com/x.jpg" } },
+      }
+    );
+    assert.equal(foreign.status, 400);
+    assert.ok(foreign.body.errors?.["coverImage.url"]);
+  });
+
+  it("deletes the files of a purged project's images", async () => {
+    const uploadImage = async () =>
+      (await upload(await png(20, 20), "image/png")).body.image;
+    // The status of each variant's file
+    const served = async (image: ProjectImage) =>
+      Promise.all(
+        [
+          image.url,
+          image.webpUrl,
+          image.thumbnailUrl,
+          image.thumbnailWebpUrl,
+        ].map(async (url) => (await fetch(`${server.url}${url}`)).status)
+      );
+    const [first, second, shared] = await Promise.all([
+      uploadImage(),
+      uploadImage(),
+      uploadImage(),
+    ]);
+
+    const create = await server.request<{ project: { id: number } }>(
+      "POST",
+      "/api/dashboard/projects",
+      { token, body: { title: "Purged", coverImage: first, gallery: [shared] } }
+    );
+    const { id } = create.body.project;
+    await server.request("POST", "/api/dashboard/projects", {
+      token,
+      body: { title: "Kept", gallery: [shared] },
+    });
+
+    // A saved version still shows the replaced image
+    await server.request("PUT", `/api/dashboard/projects/${id}`, {
+      token,
+      body: { coverImage: second },
+    });
+    assert.deepEqual(await served(first), [200, 200, 200, 200]);
+
+    await server.request("DELETE", `/api/dashboard/projects/${id}`, { token });
+    assert.deepEqual(await served(second), [200, 200, 200, 200]);
+
+    const purge = await server.request("DELETE", `/api/dashboard/trash/${id}`, {
+      token,
+    });
+    assert.equal(purge.status, 200);
+    assert.deepEqual(await served(first), [404, 404, 404, 404]);
+    assert.deepEqual(await served(second), [404, 404, 404, 404]);
+    assert.deepEqual(await served(shared), [200, 200, 200, 200]);
+  });
+});
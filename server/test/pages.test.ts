@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { createPageRenderer, PageMeta, summarize } from "../src/pages";
+import { ADMIN, SITE_FIXTURE, startServer, TestServer } from "./helpers";
+
+const TEMPLATE = path.join(SITE_FIXTURE, "frontend", "index.html");
+const BUNDLE = path.join(SITE_FIXTURE, "ssr", "entry-server.cjs");
+
+const META: PageMeta = {
+  title: 'Tom & "Jerry" <3',
+  description: "Costs $& more",
+  url: "https://example.com/",
+  image: null,
+  type: "website",
+};
+
+interface InitialData {
+  data: { projects: { title: string }[] };
+  projectPage: { projects: { title: string }[]; total: number };
+  project?: { title: string; descriptionHtml: string | null } | null;
+}
+
+// The data a page embeds for the client to hydrate from
+function initialDataOf(html: string): InitialData {
+  const match = html.match(
+    /<script id="initial-data" type="application\/json">(.*?)<\/script>/s
+  );
+  assert.ok(match, "no initial data");
+  return JSON.parse(match[1]);
+}
+
+const metaTag = (html: string, attribute: string, name: string) =>
+  html.match(new RegExp(`<meta ${attribute}="${name}" content="([^"]*)"`))?.[1];
+
+describe("Page rendering", () => {
+  it("cuts summaries at a space", () => {
+    assert.equal(summarize("short"), "short");
+    assert.equal(summarize("one two three", 8), "one two…");
+  });
+
+  it("writes escaped head tags into the template", async (t) => {
+    // About the missing bundle
+    t.mock.method(console, "warn", () => {});
+    const pages = createPageRenderer({
+      templatePath: TEMPLATE,
+      bundlePath: path.join(SITE_FIXTURE, "missing.cjs"),
+    });
+    const html = await pages.render({
+      path: "/",
+      meta: META,
+      initialData: {},
+    });
+
+    assert.match(html, /<title>Tom &amp; &quot;Jerry&quot; &lt;3<\/title>/);
+    // "$&" isn't taken as a replacement pattern
+    assert.equal(metaTag(html, "name", "description"), "Costs $&amp; more");
+    assert.match(html, /<link rel="canonical" href="https:\/\/example.com\/"/);
+    assert.equal(metaTag(html, "name", "twitter:card"), "summary");
+    assert.equal(metaTag(html, "property", "og:image"), undefined);
+    // Without a bundle the client renders everything, from its own data
+    assert.match(html, /<div id="root"><\/div>/);
+    assert.doesNotMatch(html, /initial-data/);
+  });
+
+  it("embeds the data the bundle rendered with", async () => {
+    const pages = createPageRenderer({
+      templatePath: TEMPLATE,
+      bundlePath: BUNDLE,
+    });
+    const initialData = { project: { title: "</script><b>x</b>" } };
+    const html = await pages.render({
+      path: "/projects/x",
+      meta: META,
+      initialData,
+    });
+
+    assert.match(
+      html,
+      /<div id="root"><main data-path="\/projects\/x">.*<\/main><\/div>/
+    );
+    assert.doesNotMatch(html, /"<\/script>/);
+    assert.deepEqual(initialDataOf(html), initialData);
+  });
+});
+
+describe("Server-rendered pages", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer(
+      { SITE_URL: "https://example.com/" },
+      { cwd: SITE_FIXTURE }
+    );
+    const token = await server.login(ADMIN.username, ADMIN.password);
+    for (const body of [
+      {
+        title: "Checkout",
+        status: "published",
+        description: "Rebuilt the **checkout** flow",
+      },
+      { title: "Hidden", status: "draft" },
+    ]) {
+      await server.request("POST", "/api/dashboard/projects", { token, body });
+    }
+  });
+
+  after(() => server.stop());
+
+  const getPage = (pagePath: string) => server.request<string>("GET", pagePath);
+
+  it("renders the portfolio with its data", async () => {
+    const page = await getPage("/");
+    assert.equal(page.status, 200);
+    assert.match(page.body, /<title>Isaksweb Home<\/title>/);
+    assert.match(
+      page.body,
+      /<link rel="canonical" href="https:\/\/example.com\/"/
+    );
+    assert.match(page.body, /<main data-path="\/">Portfolio<\/main>/);
+
+    const initialData = initialDataOf(page.body);
+    const data = await server.request("GET", "/api/data");
+    assert.deepEqual(initialData.data, data.body);
+    assert.deepEqual(
+      initialData.projectPage.projects.map((project) => project.title),
+      ["Checkout"]
+    );
+    assert.equal(initialData.projectPage.total, 1);
+  });
+
+  it("renders a project page with the project's meta tags", async () => {
+    const page = await getPage("/projects/checkout");
+    assert.equal(page.status, 200);
+    assert.match(page.body, /<title>Checkout \| Isaksweb Home<\/title>/);
+    assert.equal(metaTag(page.body, "property", "og:type"), "article");
+    assert.equal(
+      metaTag(page.body, "property", "og:url"),
+      "https://example.com/projects/checkout"
+    );
+    assert.equal(
+      metaTag(page.body, "name", "description"),
+      "Rebuilt the checkout flow"
+    );
+    assert.match(page.body, /<main data-path="\/projects\/checkout">Checkout/);
+
+    const { project } = initialDataOf(page.body);
+    const api = await server.request<{ project: unknown }>(
+      "GET",
+      "/api/projects/checkout"
+    );
+    assert.deepEqual(project, api.body.project);
+  });
+
+  it("renders hidden and unknown projects as not found", async () => {
+    for (const slug of ["hidden", "nope"]) {
+      const page = await getPage(`/projects/${slug}`);
+      assert.equal(page.status, 404, slug);
+      assert.match(page.body, /<title>Project not found/);
+      assert.equal(initialDataOf(page.body).project, null);
+    }
+  });
+});
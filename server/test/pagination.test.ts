@@ -0,0 +1,189 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { paginate, SortKey } from "../src/pagination";
+import { ADMIN, ApiError, startServer, TestServer } from "./helpers";
+
+interface PageResponse<T> {
+  total: number;
+  page: number | null;
+  limit: number;
+  nextCursor: string | null;
+  projects: T[];
+  skills: T[];
+}
+
+interface Project {
+  id: number;
+  title: string;
+  featured: boolean;
+  tech: string[];
+}
+
+describe("paginate", () => {
+  const items = [3, 1, 2, 5, 4];
+  const keyOf = (n: number): SortKey => [n, n];
+
+  it("pages by number", () => {
+    const page = paginate(items, keyOf, {
+      direction: "asc",
+      limit: 2,
+      page: 2,
+    });
+    assert.deepEqual(page?.items, [3, 4]);
+    assert.equal(page?.total, 5);
+    assert.equal(page?.page, 2);
+  });
+
+  it("walks every item once by cursor, even after a removal", () => {
+    const first = paginate(items, keyOf, { direction: "desc", limit: 2 });
+    assert.deepEqual(first?.items, [5, 4]);
+
+    // The item the cursor points at is gone by the next request
+    const rest = paginate([1, 2, 3, 5], keyOf, {
+      direction: "desc",
+      limit: 2,
+      cursor: first!.nextCursor!,
+    });
+    assert.deepEqual(rest?.items, [3, 2]);
+    assert.equal(rest?.page, null);
+  });
+
+  it("rejects cursors it didn't make", () => {
+    for (const cursor of ["nope", Buffer.from("[1]").toString("base64url")]) {
+      assert.equal(
+        paginate(items, keyOf, { direction: "asc", limit: 2, cursor }),
+        null
+      );
+    }
+  });
+});
+
+describe("Public list endpoints", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startServer();
+    token = await server.login(ADMIN.username, ADMIN.password);
+    for (const [title, tech, featured] of [
+      ["Charlie", ["reactjs"], false],
+      ["alpha", ["Go"], true],
+      ["Bravo", ["React", "Go"], false],
+      ["Delta", [], true],
+      ["Echo", ["node"], false],
+    ] as const) {
+      await server.request("POST", "/api/dashboard/projects", {
+        token,
+        body: { title, tech, featured, status: "published" },
+      });
+    }
+    await server.request("POST", "/api/dashboard/projects", {
+      token,
+      body: { title: "Draft", tech: ["Go"] },
+    });
+  });
+
+  after(() => server.stop());
+
+  const listProjects = (query: string) =>
+    server.request<PageResponse<Project>>("GET", `/api/projects?${query}`);
+
+  const titles = (response: { body: PageResponse<Project> }) =>
+    response.body.projects.map((project) => project.title);
+
+  it("pages published projects in display order", async () => {
+    const first = await listProjects("limit=2");
+    assert.equal(first.status, 200);
+    assert.deepEqual(titles(first), ["Charlie", "alpha"]);
+    assert.equal(first.body.total, 5);
+    assert.equal(first.body.page, 1);
+
+    const last = await listProjects("limit=2&page=3");
+    assert.deepEqual(titles(last), ["Echo"]);
+    assert.equal(last.body.nextCursor, null);
+  });
+
+  it("follows cursors to the end", async () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await listProjects(
+        `limit=2&sort=title${cursor ? `&cursor=${cursor}` : ""}`
+      );
+      assert.equal(page.status, 200);
+      seen.push(...titles(page));
+      cursor = page.body.nextCursor;
+    } while (cursor);
+    assert.deepEqual(seen, ["alpha", "Bravo", "Charlie", "Delta", "Echo"]);
+  });
+
+  it("sorts by creation date newest first unless asked otherwise", async () => {
+    assert.deepEqual(titles(await listProjects("sort=created&limit=2")), [
+      "Echo",
+      "Delta",
+    ]);
+    assert.deepEqual(
+      titles(await listProjects("sort=created&direction=asc&limit=2")),
+      ["Charlie", "alpha"]
+    );
+  });
+
+  it("filters by tech alias, featured flag and text", async () => {
+    assert.deepEqual(titles(await listProjects("tech=react")), [
+      "Charlie",
+      "Bravo",
+    ]);
+    assert.deepEqual(titles(await listProjects("tech=NodeJS")), ["Echo"]);
+    assert.deepEqual(titles(await listProjects("featured=true")), [
+      "alpha",
+      "Delta",
+    ]);
+    const search = await listProjects("q=go");
+    assert.deepEqual(titles(search), ["alpha", "Bravo"]);
+    assert.equal(search.body.total, 2);
+  });
+
+  it("refuses bad query parameters", async () => {
+    for (const query of [
+      "sort=random",
+      "limit=0",
+      "limit=101",
+      "page=0",
+      "direction=up",
+      "page=2&cursor=abc",
+      "cursor=not-a-cursor",
+    ]) {
+      const response = await server.request<ApiError>(
+        "GET",
+        `/api/projects?${query}`
+      );
+      assert.equal(response.status, 400, query);
+      assert.ok(response.body.errors, query);
+    }
+  });
+
+  it("lists skills by category and strongest first", async () => {
+    await server.request("PUT", "/api/dashboard/skills", {
+      token,
+      body: {
+        skills: [
+          { name: "Go", level: 60, category: "backend" },
+          { name: "React", level: 90, category: "frontend" },
+          { name: "Rust", level: 40, category: "backend" },
+        ],
+      },
+    });
+
+    const backend = await server.request<PageResponse<{ name: string }>>(
+      "GET",
+      "/api/skills?category=backend&sort=level"
+    );
+    assert.deepEqual(
+      backend.body.skills.map((skill) => skill.name),
+      ["Go", "Rust"]
+    );
+
+    const unknown = await server.request("GET", "/api/skills?category=cooking");
+    assert.equal(unknown.status, 400);
+  });
+});
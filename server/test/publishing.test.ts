@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ADMIN, ApiError, startServer, TestServer } from "./helpers";
+
+interface Project {
+  id: number;
+  slug: string;
+  status: string;
+  publishAt: string | null;
+}
+
+describe("Publishing", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startServer();
+    token = await server.login(ADMIN.username, ADMIN.password);
+  });
+
+  after(() => server.stop());
+
+  const createProject = async (body: Record<string, unknown>) =>
+    (
+      await server.request<{ project: Project }>(
+        "POST",
+        "/api/dashboard/projects",
+        { token, body }
+      )
+    ).body.project;
+
+  const updateProject = (id: number, body: Record<string, unknown>) =>
+    server.request<{ project: Project }>(
+      "PUT",
+      `/api/dashboard/projects/${id}`,
+      { token, body }
+    );
+
+  // Whether visitors see the project, both in the list and on its own
+  const isVisible = async (project: Project) => {
+    const data = await server.request<{ projects: Project[] }>(
+      "GET",
+      "/api/data"
+    );
+    const listed = data.body.projects.some((p) => p.id === project.id);
+    const page = await server.request("GET", `/api/projects/${project.slug}`);
+    assert.equal(listed, page.status === 200);
+    return listed;
+  };
+
+  it("keeps new projects as drafts that visitors don't see", async () => {
+    const project = await createProject({ title: "Work in progress" });
+    assert.equal(project.status, "draft");
+    assert.equal(await isVisible(project), false);
+
+    const data = await server.request<{
+      projects: Project[];
+      stats: { totalProjects: number; publishedProjects: number };
+    }>("GET", "/api/dashboard/data", { token });
+    assert.ok(data.body.projects.some((p) => p.id === project.id));
+    assert.equal(data.body.stats.publishedProjects, 0);
+  });
+
+  it("treats a blank status as no status at all", async () => {
+    const project = await createProject({ title: "Blank", status: "" });
+    assert.equal(project.status, "draft");
+
+    for (const status of ["", null]) {
+      const update = await updateProject(project.id, { status });
+      assert.equal(update.status, 200);
+      assert.equal(update.body.project.status, "draft");
+    }
+  });
+
+  it("shows published projects until they are archived", async () => {
+    const project = await createProject({
+      title: "Shipped",
+      status: "published",
+    });
+    assert.equal(await isVisible(project), true);
+
+    const archive = await updateProject(project.id, { status: "archived" });
+    assert.equal(archive.status, 200);
+    assert.equal(await isVisible(project), false);
+  });
+
+  it("holds scheduled projects back until they are due", async () => {
+    const publishAt = new Date(Date.now() + 1500).toISOString();
+    const project = await createProject({
+      title: "Scheduled",
+      status: "published",
+      publishAt,
+    });
+    assert.equal(project.publishAt, publishAt);
+    assert.equal(await isVisible(project), false);
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, Date.parse(publishAt) - Date.now() + 100)
+    );
+    assert.equal(await isVisible(project), true);
+  });
+
+  it("rejects unknown statuses and dates", async () => {
+    const response = await server.request<ApiError>(
+      "POST",
+      "/api/dashboard/projects",
+      {
+        token,
+        body: { title: "Bad", status: "live", publishAt: "next week" },
+      }
+    );
+    assert.equal(response.status, 400);
+    assert.ok(response.body.errors?.status);
+    assert.ok(response.body.errors?.publishAt);
+  });
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ADMIN, ApiError, startServer, TestServer } from "./helpers";
+
+interface ProjectsResponse {
+  projects: { id: number }[];
+}
+
+interface SkillsResponse {
+  skills: { id: string }[];
+}
+
+describe("Reordering", () => {
+  let server: TestServer;
+  let token: string;
+  let projectIds: number[];
+
+  before(async () => {
+    server = await startServer();
+    token = await server.login(ADMIN.username, ADMIN.password);
+
+    projectIds = [];
+    for (const title of ["First", "Second", "Third"]) {
+      const response = await server.request<{ project: { id: number } }>(
+        "POST",
+        "/api/dashboard/projects",
+        { token, body: { title, status: "published" } }
+      );
+      projectIds.push(response.body.project.id);
+    }
+  });
+
+  after(() => server.stop());
+
+  const reorderProjects = (ids: unknown) =>
+    server.request<ProjectsResponse & ApiError>(
+      "PUT",
+      "/api/dashboard/projects/order",
+      { token, body: { ids } }
+    );
+
+  const idsOf = (response: { projects: { id: number }[] }) =>
+    response.projects.map((project) => project.id);
+
+  it("puts new projects after the existing ones", async () => {
+    const data = await server.request<ProjectsResponse>(
+      "GET",
+      "/api/dashboard/data",
+      { token }
+    );
+    assert.deepEqual(idsOf(data.body), projectIds);
+  });
+
+  it("moves projects into the order given, for visitors too", async () => {
+    // Cached public data must not outlive the reorder
+    await server.request("GET", "/api/data");
+    const reversed = [...projectIds].reverse();
+    const response = await reorderProjects(reversed);
+    assert.equal(response.status, 200);
+    assert.deepEqual(idsOf(response.body), reversed);
+
+    const data = await server.request<ProjectsResponse>("GET", "/api/data");
+    assert.deepEqual(idsOf(data.body), reversed);
+  });
+
+  it("refuses partial lists, duplicates and unknown projects", async () => {
+    const partial = await reorderProjects(projectIds.slice(1));
+    assert.equal(partial.status, 400);
+    assert.ok(partial.body.errors?.ids);
+
+    const duplicates = await reorderProjects([...projectIds, projectIds[0]]);
+    assert.equal(duplicates.status, 400);
+
+    const unknown = await reorderProjects([...projectIds, 999]);
+    assert.equal(unknown.status, 404);
+
+    const notNumbers = await reorderProjects(["a", "b"]);
+    assert.equal(notNumbers.status, 400);
+  });
+
+  it("reorders skills", async () => {
+    const data = await server.request<SkillsResponse>(
+      "GET",
+      "/api/dashboard/data",
+      { token }
+    );
+    const ids = data.body.skills.map((skill) => skill.id);
+    assert.ok(ids.length > 1);
+
+    const reversed = [...ids].reverse();
+    const response = await server.request<SkillsResponse>(
+      "PUT",
+      "/api/dashboard/skills/order",
+      { token, body: { ids: reversed } }
+    );
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      response.body.skills.map((skill) => skill.id),
+      reversed
+    );
+
+    const unknown = await server.request("PUT", "/api/dashboard/skills/order", {
+      token,
+      body: {
+        ids: [...ids.slice(1), "00000000-0000-4000-8000-000000000000"],
+      },
+    });
+    assert.equal(unknown.status, 404);
+  });
+});
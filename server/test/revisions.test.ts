@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ADMIN, ApiError, startServer, TestServer } from "./helpers";
+
+interface Project {
+  id: number;
+  title: string;
+}
+
+interface DiffResponse {
+  from: number;
+  to: number;
+  changes: Record<string, { before: unknown; after: unknown }>;
+}
+
+describe("Project revisions", () => {
+  let server: TestServer;
+  let token: string;
+  let project: Project;
+
+  before(async () => {
+    server = await startServer();
+    token = await server.login(ADMIN.username, ADMIN.password);
+    project = (
+      await server.request<{ project: Project }>(
+        "POST",
+        "/api/dashboard/projects",
+        { token, body: { title: "First" } }
+      )
+    ).body.project;
+    await server.request("PUT", `/api/dashboard/projects/${project.id}`, {
+      token,
+      body: { title: "Second" },
+    });
+  });
+
+  after(() => server.stop());
+
+  const diff = (query: string) =>
+    server.request<DiffResponse & ApiError>(
+      "GET",
+      `/api/dashboard/projects/${project.id}/revisions/diff${query}`,
+      { token }
+    );
+
+  it("keeps a numbered version for each save, newest first", async () => {
+    const response = await server.request<{
+      revisions: { number: number; project: Project }[];
+    }>("GET", `/api/dashboard/projects/${project.id}/revisions`, { token });
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      response.body.revisions.map((revision) => [
+        revision.number,
+        revision.project.title,
+      ]),
+      [
+        [2, "Second"],
+        [1, "First"],
+      ]
+    );
+  });
+
+  it("lists the fields that changed between two versions", async () => {
+    const response = await diff("?from=1&to=2");
+    assert.equal(response.status, 200);
+    assert.equal(response.body.from, 1);
+    assert.equal(response.body.to, 2);
+    assert.deepEqual(response.body.changes.title, {
+      before: "First",
+      after: "Second",
+    });
+  });
+
+  it("only compares positive whole revision numbers", async () => {
+    for (const query of ["", "?from=1", "?from=abc&to=2", "?from=0&to=1.5"]) {
+      const response = await diff(query);
+      assert.equal(response.status, 400, query);
+      assert.equal(response.body.message, "Validation failed");
+      assert.ok(response.body.errors?.to || response.body.errors?.from, query);
+    }
+    const both = await diff("?from=0&to=1.5");
+    assert.deepEqual(Object.keys(both.body.errors ?? {}), ["from", "to"]);
+
+    const missing = await diff("?from=1&to=3");
+    assert.equal(missing.status, 404);
+  });
+
+  it("restores a saved version as a new one", async () => {
+    const restore = await server.request<{ project: Project }>(
+      "POST",
+      `/api/dashboard/projects/${project.id}/revisions/1/restore`,
+      { token }
+    );
+    assert.equal(restore.status, 200);
+    assert.equal(restore.body.project.title, "First");
+
+    const latest = await diff("?from=2&to=3");
+    assert.deepEqual(latest.body.changes.title, {
+      before: "Second",
+      after: "First",
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ADMIN, createUser, startServer, TestServer } from "./helpers";
+
+interface ProjectResponse {
+  project: { id: number };
+}
+
+describe("Roles", () => {
+  let server: TestServer;
+  let adminToken: string;
+  let editor: { id: string; token: string };
+  let viewer: { id: string; token: string };
+
+  before(async () => {
+    server = await startServer();
+    adminToken = await server.login(ADMIN.username, ADMIN.password);
+    editor = await createUser(server, adminToken, "editor", "editor");
+    viewer = await createUser(server, adminToken, "viewer", "viewer");
+  });
+
+  after(() => server.stop());
+
+  const createProject = (token: string, title: string) =>
+    server.request<ProjectResponse>("POST", "/api/dashboard/projects", {
+      token,
+      body: { title },
+    });
+
+  it("lets viewers read the dashboard but change nothing", async () => {
+    const data = await server.request("GET", "/api/dashboard/data", {
+      token: viewer.token,
+    });
+    assert.equal(data.status, 200);
+
+    const create = await createProject(viewer.token, "Viewer project");
+    assert.equal(create.status, 403);
+  });
+
+  it("keeps the inbox from viewers", async () => {
+    const messages = await server.request("GET", "/api/dashboard/messages", {
+      token: viewer.token,
+    });
+    assert.equal(messages.status, 403);
+  });
+
+  it("lets editors change content but not delete it", async () => {
+    const create = await createProject(editor.token, "Editor project");
+    assert.equal(create.status, 200);
+    const { id } = create.body.project;
+
+    const update = await server.request(
+      "PUT",
+      `/api/dashboard/projects/${id}`,
+      { token: editor.token, body: { description: "Edited" } }
+    );
+    assert.equal(update.status, 200);
+
+    const remove = await server.request(
+      "DELETE",
+      `/api/dashboard/projects/${id}`,
+      { token: editor.token }
+    );
+    assert.equal(remove.status, 403);
+
+    const removeSkill = await server.request(
+      "DELETE",
+      "/api/dashboard/skills/any",
+      { token: editor.token }
+    );
+    assert.equal(removeSkill.status, 403);
+
+    const removeMessage = await server.request(
+      "DELETE",
+      "/api/dashboard/messages/any",
+      { token: editor.token }
+    );
+    assert.equal(removeMessage.status, 403);
+  });
+
+  it("keeps user management to admins", async () => {
+    for (const token of [editor.token, viewer.token]) {
+      const list = await server.request("GET", "/api/dashboard/users", {
+        token,
+      });
+      assert.equal(list.status, 403);
+    }
+
+    const list = await server.request<{ users: unknown[] }>(
+      "GET",
+      "/api/dashboard/users",
+      { token: adminToken }
+    );
+    assert.equal(list.status, 200);
+    assert.equal(list.body.users.length, 3);
+  });
+
+  it("lets admins delete", async () => {
+    const create = await createProject(adminToken, "Admin project");
+    const remove = await server.request(
+      "DELETE",
+      `/api/dashboard/projects/${create.body.project.id}`,
+      { token: adminToken }
+    );
+    assert.equal(remove.status, 200);
+  });
+
+  it("signs a user out when their role changes", async () => {
+    const user = await createUser(server, adminToken, "demoted", "editor");
+    const change = await server.request(
+      "PUT",
+      `/api/dashboard/users/${user.id}`,
+      { token: adminToken, body: { role: "viewer" } }
+    );
+    assert.equal(change.status, 200);
+
+    const create = await createProject(user.token, "Too late");
+    assert.equal(create.status, 401);
+  });
+
+  it("never leaves the site without an admin", async () => {
+    const verify = await server.request<{ user: { id: string } }>(
+      "GET",
+      "/api/auth/verify",
+      { token: adminToken }
+    );
+    const adminId = verify.body.user.id;
+
+    const demote = await server.request(
+      "PUT",
+      `/api/dashboard/users/${adminId}`,
+      { token: adminToken, body: { role: "editor" } }
+    );
+    assert.equal(demote.status, 409);
+
+    const deleteSelf = await server.request(
+      "DELETE",
+      `/api/dashboard/users/${adminId}`,
+      { token: adminToken }
+    );
+    assert.equal(deleteSelf.status, 409);
+  });
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { highlight, highlightSnippet } from "../src/highlight";
+import { markdownToText } from "../src/markdown";
+import { ADMIN, ApiError, startServer, TestServer } from "./helpers";
+
+interface SearchResponse {
+  projects: {
+    project: { title: string };
+    score: number;
+    highlights: { title: string; description: string | null; tech: string[] };
+  }[];
+  skills: { skill: { name: string }; highlights: { name: string } }[];
+}
+
+describe("Highlighting", () => {
+  it("marks words starting with a term and escapes the rest", () => {
+    assert.equal(
+      highlight("Realtime <chat> & reactions", ["rea"]),
+      "<mark>Realtime</mark> &lt;chat&gt; &amp; <mark>reactions</mark>"
+    );
+  });
+
+  it("cuts snippets around the first match", () => {
+    const text = `${"word ".repeat(40)}needle ${"word ".repeat(40)}`.trim();
+    const snippet = highlightSnippet(text, ["needle"], 80);
+    assert.ok(snippet.startsWith("…word"));
+    assert.ok(snippet.endsWith("…"));
+    assert.match(snippet, /<mark>needle<\/mark>/);
+  });
+
+  it("snips from the text of Markdown, not its markup", () => {
+    assert.equal(
+      markdownToText("## Title\n\nSome **bold** & [a link](https://x.io)"),
+      "Title Some bold & a link"
+    );
+  });
+});
+
+describe("Search endpoint", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+    const token = await server.login(ADMIN.username, ADMIN.password);
+    for (const body of [
+      {
+        title: "Weather station",
+        description: "Reads **sensors** for the chat bot",
+        status: "published",
+      },
+      { title: "Chat app", tech: ["Vue"], status: "published" },
+      { title: "Secret chat", status: "draft" },
+    ]) {
+      await server.request("POST", "/api/dashboard/projects", { token, body });
+    }
+    await server.request("PUT", "/api/dashboard/skills", {
+      token,
+      body: { skills: [{ name: "Chatbots", level: 50, category: "backend" }] },
+    });
+  });
+
+  after(() => server.stop());
+
+  const search = (query: string) =>
+    server.request<SearchResponse>("GET", `/api/search?${query}`);
+
+  it("ranks title matches above description matches", async () => {
+    const response = await search("q=chat");
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      response.body.projects.map((hit) => hit.project.title),
+      ["Chat app", "Weather station"]
+    );
+    const [first, second] = response.body.projects;
+    assert.ok(first.score > second.score);
+  });
+
+  it("highlights the matching words", async () => {
+    const { body } = await search("q=chat");
+    const [chatApp, weather] = body.projects;
+    assert.equal(chatApp.highlights.title, "<mark>Chat</mark> app");
+    assert.equal(chatApp.highlights.description, null);
+    assert.equal(
+      weather.highlights.description,
+      "Reads sensors for the <mark>chat</mark> bot"
+    );
+    assert.equal(body.skills[0].highlights.name, "<mark>Chatbots</mark>");
+  });
+
+  it("matches tech tags and leaves drafts out", async () => {
+    const { body } = await search("q=vue+secret");
+    assert.deepEqual(
+      body.projects.map((hit) => hit.project.title),
+      ["Chat app"]
+    );
+    assert.deepEqual(body.projects[0].highlights.tech, ["<mark>Vue</mark>"]);
+  });
+
+  it("returns nothing for a search without words", async () => {
+    const { body } = await search("q=%20!%3F");
+    assert.deepEqual(body, { success: true, projects: [], skills: [] });
+
+    const missing = await server.request<ApiError>("GET", "/api/search");
+    assert.equal(missing.status, 400);
+    assert.ok(missing.body.errors?.q);
+  });
+
+  it("limits the number of hits", async () => {
+    const { body } = await search("q=chat&limit=1");
+    assert.equal(body.projects.length, 1);
+  });
+});
@@ -0,0 +1,175 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { DuplicateValueError, Storage } from "../src/storage";
+import { createFileStorage } from "../src/storage/file";
+import { createMemoryStorage } from "../src/storage/memory";
+
+// Data files of the file backend go here
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "portfolio-"));
+after(() => fs.promises.rm(directory, { recursive: true, force: true }));
+
+const PROJECT = {
+  description: null,
+  tech: [],
+  featured: false,
+  status: "published" as const,
+  publishAt: null,
+  caseStudy: null,
+  role: null,
+  timeline: null,
+  challenges: [],
+  outcomes: [],
+  coverImage: null,
+  gallery: [],
+};
+
+// The same checks against each backend that runs without a database
+function describeBackend(name: string, open: () => Storage) {
+  describe(`${name} storage`, () => {
+    let storage: Storage;
+
+    before(async () => {
+      storage = open();
+      await storage.connect();
+    });
+
+    after(() => storage.close());
+
+    it("gives new projects increasing ids and unique slugs", async () => {
+      const first = await storage.projects.create({
+        ...PROJECT,
+        title: "My Project",
+      });
+      const second = await storage.projects.create({
+        ...PROJECT,
+        title: "My Project",
+      });
+      assert.ok(second.id > first.id);
+      assert.equal(first.slug, "my-project");
+      assert.notEqual(second.slug, first.slug);
+    });
+
+    it("refuses a slug that is already taken", async () => {
+      await assert.rejects(
+        storage.projects.create({
+          ...PROJECT,
+          title: "Copy",
+          slug: "my-project",
+        }),
+        DuplicateValueError
+      );
+    });
+
+    it("keeps skill ids across a bulk replace", async () => {
+      const [kept] = await storage.skills.replaceAll([
+        { name: "Go", level: 50, category: "backend" },
+        { name: "Rust", level: 40, category: "backend" },
+      ]);
+      const skills = await storage.skills.replaceAll([
+        { name: "SQL", level: 70, category: "database" },
+        { ...kept, level: 60 },
+      ]);
+      assert.deepEqual(
+        skills.map((skill) => skill.name),
+        ["SQL", "Go"]
+      );
+      assert.equal(skills[1].id, kept.id);
+      assert.equal(skills[1].level, 60);
+    });
+
+    it("hands out copies that callers can't change", async () => {
+      const [project] = await storage.projects.list();
+      project.title = "Changed";
+      const stored = await storage.projects.findById(project.id);
+      assert.notEqual(stored!.title, "Changed");
+    });
+  });
+}
+
+describeBackend("Memory", () => createMemoryStorage());
+
+describeBackend("File", () =>
+  createFileStorage(path.join(directory, "shared.json"))
+);
+
+describe("File storage", () => {
+  it("keeps its data across restarts", async () => {
+    const filePath = path.join(directory, "data.json");
+    const storage = createFileStorage(filePath);
+    await storage.connect();
+    const project = await storage.projects.create({
+      ...PROJECT,
+      title: "Saved",
+    });
+    await storage.settings.set("currentlyLearning", ["Go"]);
+    await storage.close();
+
+    const reopened = createFileStorage(filePath);
+    await reopened.connect();
+    assert.deepEqual(await reopened.projects.findById(project.id), project);
+    assert.deepEqual(await reopened.settings.get("currentlyLearning"), ["Go"]);
+    await reopened.close();
+  });
+
+  it("keeps logins and the audit log apart from the rest", async () => {
+    const filePath = path.join(directory, "logins.json");
+    const storage = createFileStorage(filePath);
+    await storage.connect();
+    await storage.settings.set("currentlyLearning", ["Go"]);
+    const main = await fs.promises.readFile(filePath, "utf8");
+
+    const session = await storage.sessions.create({
+      userId: "user",
+      refreshTokenHash: "hash",
+      userAgent: null,
+      expiresAt: new Date(Date.now() + 60000).toISOString(),
+    });
+    const failedLogin = await storage.failedLogins.record({
+      username: "admin",
+      ip: "127.0.0.1",
+      userAgent: null,
+      lockedOut: false,
+    });
+    const change = (title: string) => ({
+      userId: "user",
+      username: "admin",
+      action: "create" as const,
+      resource: "project" as const,
+      resourceId: "1",
+      ip: "127.0.0.1",
+      changes: { title: { before: null, after: title } },
+    });
+    const entries = [
+      await storage.audit.append(change("First")),
+      await storage.audit.append(change("Second")),
+    ];
+    await storage.close();
+    assert.equal(await fs.promises.readFile(filePath, "utf8"), main);
+
+    // A crash in the middle of an append leaves part of a line behind
+    const auditPath = path.join(directory, "logins.audit.jsonl");
+    await fs.promises.appendFile(auditPath, '{"id":"cut sh');
+
+    const reopened = createFileStorage(filePath);
+    await reopened.connect();
+    assert.deepEqual(await reopened.sessions.findById(session.id), session);
+    assert.deepEqual(await reopened.failedLogins.list(10), [failedLogin]);
+    assert.deepEqual(
+      await reopened.audit.list({ limit: 10 }),
+      [...entries].reverse()
+    );
+
+    const later = await reopened.audit.append(change("Third"));
+    const lines = (await fs.promises.readFile(auditPath, "utf8"))
+      .trim()
+      .split("\n");
+    assert.deepEqual(
+      lines.map((line) => JSON.parse(line).id),
+      [...entries, later].map((entry) => entry.id)
+    );
+    await reopened.close();
+  });
+});
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import {
+  buildTechIndex,
+  findTaxonomyConflicts,
+  normalizeTechs,
+  TechEntry,
+} from "../src/taxonomy";
+import { ADMIN, ApiError, startServer, TestServer } from "./helpers";
+
+interface TechsResponse {
+  techs: TechEntry[];
+  usage: { name: string; count: number }[];
+}
+
+describe("Tech taxonomy", () => {
+  const index = buildTechIndex([
+    { name: "Node.js", aliases: ["node"] },
+    { name: "TypeScript", aliases: ["ts"] },
+  ]);
+
+  it("saves tags under their canonical names", () => {
+    assert.deepEqual(
+      normalizeTechs(["NODEJS", "node js", " ts ", "Deno", "", "deno"], index),
+      ["Node.js", "TypeScript", "Deno"]
+    );
+  });
+
+  it("finds names and aliases claimed twice", () => {
+    assert.deepEqual(
+      findTaxonomyConflicts([
+        { name: "Node.js", aliases: ["node"] },
+        { name: "Deno", aliases: ["Node"] },
+        { name: "node-js", aliases: [] },
+      ]),
+      {
+        "techs.1.aliases": '"Node" already belongs to Node.js',
+        "techs.2.name": '"node-js" already belongs to Node.js',
+      }
+    );
+  });
+});
+
+describe("Tech taxonomy endpoints", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startServer();
+    token = await server.login(ADMIN.username, ADMIN.password);
+  });
+
+  after(() => server.stop());
+
+  const createProject = (title: string, tech: string[], status = "published") =>
+    server.request<{ project: { id: number; tech: string[] } }>(
+      "POST",
+      "/api/dashboard/projects",
+      { token, body: { title, tech, status } }
+    );
+
+  it("normalizes tags with the default taxonomy", async () => {
+    const create = await createProject("Tagged", ["reactjs", "ts", "Vite"]);
+    assert.deepEqual(create.body.project.tech, ["React", "TypeScript", "Vite"]);
+
+    const update = await server.request<{ project: { tech: string[] } }>(
+      "PUT",
+      `/api/dashboard/projects/${create.body.project.id}`,
+      { token, body: { tech: ["node", "Express"] } }
+    );
+    assert.deepEqual(update.body.project.tech, ["Node.js", "Express.js"]);
+  });
+
+  it("counts how many projects use each tech", async () => {
+    await createProject("Another", ["nodejs", "mongo"]);
+    await createProject("Unlisted", ["node"], "draft");
+
+    const data = await server.request<{
+      techs: { name: string; count: number }[];
+    }>("GET", "/api/data");
+    assert.deepEqual(data.body.techs, [
+      { name: "Node.js", count: 2 },
+      { name: "Express.js", count: 1 },
+      { name: "MongoDB", count: 1 },
+    ]);
+
+    // Drafts count on the dashboard
+    const techs = await server.request<TechsResponse>(
+      "GET",
+      "/api/dashboard/techs",
+      { token }
+    );
+    assert.equal(
+      techs.body.usage.find((tech) => tech.name === "Node.js")?.count,
+      3
+    );
+  });
+
+  it("applies a new alias to tags saved before it", async () => {
+    const saved = await server.request<TechsResponse>(
+      "PUT",
+      "/api/dashboard/techs",
+      {
+        token,
+        body: { techs: [{ name: "Mongo DB", aliases: ["MongoDB", "mongo"] }] },
+      }
+    );
+    assert.equal(saved.status, 200);
+
+    const data = await server.request<{
+      projects: { title: string; tech: string[] }[];
+    }>("GET", "/api/data");
+    const another = data.body.projects.find((p) => p.title === "Another");
+    assert.deepEqual(another?.tech, ["Node.js", "Mongo DB"]);
+  });
+
+  it("refuses a taxonomy that claims a tag twice", async () => {
+    const before = await server.request<TechsResponse>(
+      "GET",
+      "/api/dashboard/techs",
+      { token }
+    );
+    const response = await server.request<ApiError>(
+      "PUT",
+      "/api/dashboard/techs",
+      {
+        token,
+        body: {
+          techs: [
+            { name: "Go", aliases: ["golang"] },
+            { name: "Golang", aliases: [] },
+          ],
+        },
+      }
+    );
+    assert.equal(response.status, 400);
+    assert.ok(response.body.errors?.["techs.1.name"]);
+
+    const after = await server.request<TechsResponse>(
+      "GET",
+      "/api/dashboard/techs",
+      { token }
+    );
+    assert.deepEqual(after.body.techs, before.body.techs);
+  });
+});
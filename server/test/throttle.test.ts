@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createLoginThrottle } from "../src/auth/throttle";
+import { ADMIN, ApiError, startServer, TestServer } from "./helpers";
+
+const OPTIONS = {
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  lockoutAfter: 6,
+  lockoutMs: 60 * 1000,
+  resetAfterMs: 60 * 60 * 1000,
+};
+
+describe("Login throttle", () => {
+  it("lets the free attempts through, then backs off", () => {
+    const throttle = createLoginThrottle(OPTIONS);
+    throttle.recordFailure("key");
+    throttle.recordFailure("key");
+    assert.equal(throttle.retryAfterMs("key"), 0);
+
+    throttle.recordFailure("key");
+    const first = throttle.retryAfterMs("key");
+    assert.ok(first > 0 && first <= 1000);
+
+    throttle.recordFailure("key");
+    const second = throttle.retryAfterMs("key");
+    assert.ok(second > 1000 && second <= 2000);
+  });
+
+  it("locks a key out after too many failures", () => {
+    const throttle = createLoginThrottle(OPTIONS);
+    const lockedOut = Array.from({ length: 6 }, () =>
+      throttle.recordFailure("key")
+    );
+    assert.deepEqual(lockedOut, [false, false, false, false, false, true]);
+    assert.ok(throttle.retryAfterMs("key") > 8000);
+  });
+
+  it("keeps keys apart and forgets them on reset", () => {
+    const throttle = createLoginThrottle(OPTIONS);
+    for (let i = 0; i < 3; i++) throttle.recordFailure("a");
+    assert.ok(throttle.retryAfterMs("a") > 0);
+    assert.equal(throttle.retryAfterMs("b"), 0);
+
+    throttle.reset("a");
+    assert.equal(throttle.retryAfterMs("a"), 0);
+  });
+
+  it("lets a key back in once its backoff has passed", async () => {
+    const throttle = createLoginThrottle({ ...OPTIONS, baseDelayMs: 20 });
+    for (let i = 0; i < 3; i++) throttle.recordFailure("key");
+    assert.ok(throttle.retryAfterMs("key") > 0);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assert.equal(throttle.retryAfterMs("key"), 0);
+  });
+
+  it("counts attempts in flight against the free ones", () => {
+    const throttle = createLoginThrottle(OPTIONS);
+    const finishes = [0, 1, 2].map(() => throttle.begin("key"));
+    assert.equal(throttle.retryAfterMs("key"), OPTIONS.baseDelayMs);
+
+    // Finishing twice only frees one place
+    finishes[0]();
+    finishes[0]();
+    assert.equal(throttle.retryAfterMs("key"), 0);
+    throttle.begin("key");
+    assert.equal(throttle.retryAfterMs("key"), OPTIONS.baseDelayMs);
+  });
+});
+
+describe("Login endpoint throttling", () => {
+  let server: TestServer;
+  let adminToken: string;
+
+  before(async () => {
+    server = await startServer();
+    adminToken = await server.login(ADMIN.username, ADMIN.password);
+  });
+
+  after(() => server.stop());
+
+  const attempt = (password: string) =>
+    server.request<ApiError>("POST", "/api/auth/login", {
+      body: { username: ADMIN.username, password },
+    });
+
+  it("refuses further guesses past the free attempts", async () => {
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await attempt("wrong")).status, 401);
+    }
+
+    const refused = await attempt("wrong");
+    assert.equal(refused.status, 429);
+    assert.ok(Number(refused.headers.get("retry-after")) > 0);
+  });
+
+  it("refuses even the right password while backing off", async () => {
+    const response = await attempt(ADMIN.password);
+    assert.equal(response.status, 429);
+  });
+
+  it("accepts the right password once the backoff has passed", async () => {
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    const response = await attempt(ADMIN.password);
+    assert.equal(response.status, 200);
+  });
+
+  it("lists the failures for admins", async () => {
+    const response = await server.request<{ failedLogins: unknown[] }>(
+      "GET",
+      "/api/dashboard/failed-logins",
+      { token: adminToken }
+    );
+    assert.equal(response.status, 200);
+    assert.equal(response.body.failedLogins.length, 3);
+  });
+
+  it("lets no more parallel guesses through than sequential ones", async () => {
+    const responses = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        server.request("POST", "/api/auth/login", {
+          body: { username: "someone-else", password: "wrong" },
+        })
+      )
+    );
+    const statuses = responses.map((response) => response.status).sort();
+    assert.deepEqual(statuses, [...Array(3).fill(401), ...Array(7).fill(429)]);
+  });
+});
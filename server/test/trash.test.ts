@@ -0,0 +1,203 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createMemoryStorage } from "../src/storage/memory";
+import {
+  ADMIN,
+  ApiError,
+  createUser,
+  startServer,
+  TestServer,
+} from "./helpers";
+
+interface Project {
+  id: number;
+  slug: string;
+  title: string;
+  updatedAt: string;
+}
+
+interface TrashedProject extends Project {
+  deletedAt: string;
+  purgeAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Trash purging", () => {
+  it("purges only projects trashed before the cutoff", async () => {
+    const storage = createMemoryStorage();
+    await storage.connect();
+    const project = await storage.projects.create({
+      title: "Old",
+      description: null,
+      tech: [],
+      featured: false,
+      status: "draft",
+      publishAt: null,
+      caseStudy: null,
+      role: null,
+      timeline: null,
+      challenges: [],
+      outcomes: [],
+      coverImage: null,
+      gallery: [],
+    });
+    const trashed = await storage.projects.trash(project.id);
+
+    assert.deepEqual(
+      await storage.projects.purgeTrashedBefore(trashed!.deletedAt),
+      []
+    );
+    const later = new Date(Date.parse(trashed!.deletedAt) + 1).toISOString();
+    assert.deepEqual(await storage.projects.purgeTrashedBefore(later), [
+      trashed,
+    ]);
+    assert.deepEqual(await storage.projects.listTrashed(), []);
+  });
+});
+
+describe("Trash", () => {
+  let server: TestServer;
+  let token: string;
+  let editorToken: string;
+
+  before(async () => {
+    server = await startServer({ TRASH_RETENTION_DAYS: "7" });
+    token = await server.login(ADMIN.username, ADMIN.password);
+    editorToken = (await createUser(server, token, "editor", "editor")).token;
+  });
+
+  after(() => server.stop());
+
+  const createProject = async (title: string) =>
+    (
+      await server.request<{ project: Project }>(
+        "POST",
+        "/api/dashboard/projects",
+        { token, body: { title } }
+      )
+    ).body.project;
+
+  const listTrash = async () =>
+    (
+      await server.request<{ projects: TrashedProject[] }>(
+        "GET",
+        "/api/dashboard/trash",
+        { token }
+      )
+    ).body.projects;
+
+  const listProjects = async () =>
+    (
+      await server.request<{ projects: Project[] }>(
+        "GET",
+        "/api/dashboard/data",
+        { token }
+      )
+    ).body.projects;
+
+  it("moves deleted projects to the trash until the retention ends", async () => {
+    const project = await createProject("Deleted");
+    const remove = await server.request<{ purgeAt: string }>(
+      "DELETE",
+      `/api/dashboard/projects/${project.id}`,
+      { token }
+    );
+    assert.equal(remove.status, 200);
+
+    const [trashed] = await listTrash();
+    assert.equal(trashed.id, project.id);
+    assert.equal(
+      Date.parse(trashed.purgeAt) - Date.parse(trashed.deletedAt),
+      7 * DAY_MS
+    );
+    assert.equal(remove.body.purgeAt, trashed.purgeAt);
+
+    assert.ok(!(await listProjects()).some((p) => p.id === project.id));
+    const page = await server.request("GET", `/api/projects/${project.slug}`);
+    assert.equal(page.status, 404);
+  });
+
+  it("keeps the slug of a trashed project taken", async () => {
+    const [trashed] = await listTrash();
+    const copy = await server.request<ApiError>(
+      "POST",
+      "/api/dashboard/projects",
+      { token, body: { title: "Copy", slug: trashed.slug } }
+    );
+    assert.equal(copy.status, 400);
+    assert.ok(copy.body.errors?.slug);
+  });
+
+  it("restores a project as it was", async () => {
+    const project = await createProject("Restored");
+    await server.request("DELETE", `/api/dashboard/projects/${project.id}`, {
+      token,
+    });
+
+    const restore = await server.request<{ project: Project }>(
+      "POST",
+      `/api/dashboard/trash/${project.id}/restore`,
+      { token: editorToken }
+    );
+    assert.equal(restore.status, 200);
+    // Coming back counts as a change, for the sitemap and feeds
+    const { updatedAt, ...restored } = restore.body.project;
+    const { updatedAt: createdAt, ...original } = project;
+    assert.deepEqual(restored, original);
+    assert.ok(updatedAt > createdAt);
+    assert.ok((await listProjects()).some((p) => p.id === project.id));
+    assert.ok(!(await listTrash()).some((p) => p.id === project.id));
+
+    const again = await server.request(
+      "POST",
+      `/api/dashboard/trash/${project.id}/restore`,
+      { token }
+    );
+    assert.equal(again.status, 404);
+  });
+
+  it("purges a project and its history for admins only", async () => {
+    const [trashed] = await listTrash();
+    const listRevisions = async () =>
+      (
+        await server.request<{ revisions: unknown[] }>(
+          "GET",
+          `/api/dashboard/projects/${trashed.id}/revisions`,
+          { token }
+        )
+      ).body.revisions;
+    assert.ok((await listRevisions()).length > 0);
+
+    const byEditor = await server.request(
+      "DELETE",
+      `/api/dashboard/trash/${trashed.id}`,
+      { token: editorToken }
+    );
+    assert.equal(byEditor.status, 403);
+
+    const purge = await server.request(
+      "DELETE",
+      `/api/dashboard/trash/${trashed.id}`,
+      { token }
+    );
+    assert.equal(purge.status, 200);
+    assert.deepEqual(await listTrash(), []);
+
+    assert.deepEqual(await listRevisions(), []);
+
+    // The slug is free again
+    const reused = await server.request("POST", "/api/dashboard/projects", {
+      token,
+      body: { title: "Reused", slug: trashed.slug },
+    });
+    assert.equal(reused.status, 200);
+
+    const missing = await server.request(
+      "DELETE",
+      `/api/dashboard/trash/${trashed.id}`,
+      { token }
+    );
+    assert.equal(missing.status, 404);
+  });
+});
@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { projectBody, skillsBody, validate } from "../src/validation";
+import { ADMIN, ApiError, startServer, TestServer } from "./helpers";
+
+interface ProjectResponse {
+  project: { id: number; title: string };
+}
+
+describe("validate", () => {
+  it("trims and coerces fields", () => {
+    const { value, errors } = validate(projectBody, {
+      title: "  Portfolio  ",
+      featured: "true",
+      tech: "React, TypeScript",
+    });
+    assert.deepEqual(errors, {});
+    assert.deepEqual(value, {
+      title: "Portfolio",
+      featured: true,
+      tech: ["React", "TypeScript"],
+    });
+  });
+
+  it("reports missing, unknown and malformed fields by path", () => {
+    const { errors } = validate(projectBody, {
+      extra: 1,
+      demoUrl: "javascript:alert(1)",
+      status: "live",
+    });
+    assert.equal(errors.title, "Required");
+    assert.equal(errors.extra, "Unknown field");
+    assert.ok(errors.demoUrl);
+    assert.ok(errors.status);
+  });
+
+  it("clears blanked optional fields on partial updates, except enums", () => {
+    const { value, errors } = validate(
+      projectBody,
+      { description: "", tech: "", status: "" },
+      { partial: true }
+    );
+    assert.deepEqual(errors, {});
+    assert.deepEqual(value, { description: null, tech: [] });
+  });
+
+  it("checks each item of an array of objects", () => {
+    const { errors } = validate(skillsBody, {
+      skills: [
+        { name: "Go", level: 50, category: "backend" },
+        { name: "Rust", level: 150, category: "backend" },
+      ],
+    });
+    assert.deepEqual(Object.keys(errors), ["skills.1.level"]);
+  });
+});
+
+describe("Request validation", () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startServer();
+    token = await server.login(ADMIN.username, ADMIN.password);
+  });
+
+  after(() => server.stop());
+
+  it("answers invalid bodies with the failing fields", async () => {
+    const response = await server.request<ApiError>(
+      "POST",
+      "/api/dashboard/projects",
+      { token, body: { title: "", unexpected: true } }
+    );
+    assert.equal(response.status, 400);
+    assert.equal(response.body.message, "Validation failed");
+    assert.deepEqual(response.body.errors, {
+      title: "Required",
+      unexpected: "Unknown field",
+    });
+  });
+
+  it("only accepts positive whole numbers as ids", async () => {
+    const create = await server.request<ProjectResponse>(
+      "POST",
+      "/api/dashboard/projects",
+      { token, body: { title: "Numbered" } }
+    );
+    const { id } = create.body.project;
+
+    for (const bad of ["0", "-1", "1.5", "abc", "1e3", "0x10", " 7"]) {
+      const response = await server.request<ApiError>(
+        "PUT",
+        `/api/dashboard/projects/${bad}`,
+        { token, body: { title: "Renamed" } }
+      );
+      assert.equal(response.status, 400, `id ${bad}`);
+      assert.ok(response.body.errors?.id);
+    }
+
+    const found = await server.request<ProjectResponse>(
+      "PUT",
+      `/api/dashboard/projects/${id}`,
+      { token, body: { title: "Renamed" } }
+    );
+    assert.equal(found.status, 200);
+    assert.equal(found.body.project.title, "Renamed");
+
+    const missing = await server.request<ApiError>(
+      "PUT",
+      `/api/dashboard/projects/${id + 1000}`,
+      { token, body: { title: "Renamed" } }
+    );
+    assert.equal(missing.status, 404);
+  });
+
+  it("leaves the skills untouched when a bulk replace is invalid", async () => {
+    const listSkills = async () =>
+      (
+        await server.request<{ skills: unknown[] }>(
+          "GET",
+          "/api/dashboard/data",
+          { token }
+        )
+      ).body.skills;
+    const previous = await listSkills();
+
+    const invalid = await server.request<ApiError>(
+      "PUT",
+      "/api/dashboard/skills",
+      {
+        token,
+        body: {
+          skills: [
+            { name: "Go", level: 50, category: "backend" },
+            { name: "Rust", level: 150, category: "backend" },
+          ],
+        },
+      }
+    );
+    assert.equal(invalid.status, 400);
+    assert.ok(invalid.body.errors?.["skills.1.level"]);
+
+    const id = "00000000-0000-4000-8000-000000000000";
+    const duplicate = await server.request<ApiError>(
+      "PUT",
+      "/api/dashboard/skills",
+      {
+        token,
+        body: {
+          skills: [
+            { id, name: "Go", level: 50, category: "backend" },
+            { id, name: "Rust", level: 50, category: "backend" },
+          ],
+        },
+      }
+    );
+    assert.equal(duplicate.status, 400);
+
+    assert.deepEqual(await listSkills(), previous);
+  });
+});